@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRequiredScope } from './auth';
+
+test('reads need the read scope', () => {
+  assert.equal(getRequiredScope('GET', '/candles'), 'read');
+  assert.equal(getRequiredScope('HEAD', '/links'), 'read');
+});
+
+test('changes to links need the links scope', () => {
+  assert.equal(getRequiredScope('POST', '/links'), 'links');
+  assert.equal(getRequiredScope('DELETE', '/links/12'), 'links');
+});
+
+test('changes to alert rules need the alerts scope, not the links scope', () => {
+  assert.equal(getRequiredScope('POST', '/alerts'), 'alerts');
+  assert.equal(getRequiredScope('PATCH', '/alerts/3'), 'alerts');
+});
+
+test('key and server management need the admin scope, whatever the method', () => {
+  assert.equal(getRequiredScope('GET', '/keys'), 'admin');
+  assert.equal(getRequiredScope('POST', '/keys'), 'admin');
+  assert.equal(getRequiredScope('GET', '/admin/jobs'), 'admin');
+  assert.equal(getRequiredScope('POST', '/admin/backfills'), 'admin');
+  assert.equal(getRequiredScope('POST', '/linksx'), 'admin');
+});
+
+test('exports need the export scope', () => {
+  assert.equal(getRequiredScope('GET', '/export/trades'), 'export');
+});
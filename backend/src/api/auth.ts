@@ -0,0 +1,121 @@
+import { IncomingHttpHeaders } from 'http';
+import { NextFunction, Request, Response } from 'express';
+import { accessControl, AccessDecision } from '../services/access-control';
+import { ApiKey, ApiKeyScope } from '../types';
+
+/**
+ * API key authentication
+ *
+ * Keys are sent as `X-API-Key: <key>` or `Authorization: Bearer <key>`; the
+ * WebSocket handshake also takes `?apiKey=<key>`, since browsers can't set its
+ * headers. GET requests under PUBLIC_PATHS work without a key, rate limited
+ * per address. Everything else needs a key with the route's scope:
+ * - 'export' for /export
+ * - 'links' for changes to market links, which the frontend makes
+ * - 'alerts' for changes to alert rules; their webhooks make the server send
+ *   requests, so this scope is kept off keys built into the frontend
+ * - 'admin' for /keys, /admin and any other request that changes data
+ * - 'read' for the rest
+ */
+
+// Path prefixes anonymous clients may GET; '/ws' also opens the WebSocket to them
+export const PUBLIC_PATHS = (process.env.PUBLIC_PATHS ?? '/health,/candles,/trades,/markets,/links,/compare,/exchanges,/stats,/ws')
+  .split(',')
+  .map((path) => path.trim())
+  .filter(Boolean);
+
+// Scopes that allow changes under a path; other changes need 'admin'
+const WRITE_SCOPES: { path: string; scope: ApiKeyScope }[] = [
+  { path: '/links', scope: 'links' },
+  { path: '/alerts', scope: 'alerts' },
+];
+
+function isUnderPath(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+export function isPublicPath(path: string): boolean {
+  return PUBLIC_PATHS.some((prefix) => isUnderPath(path, prefix));
+}
+
+export function getRequiredScope(method: string, path: string): ApiKeyScope {
+  if (isUnderPath(path, '/export')) return 'export';
+  if (isUnderPath(path, '/keys') || isUnderPath(path, '/admin')) return 'admin';
+  if (method === 'GET' || method === 'HEAD') return 'read';
+  return WRITE_SCOPES.find((entry) => isUnderPath(path, entry.path))?.scope ?? 'admin';
+}
+
+/**
+ * The API key sent with a request, if any
+ */
+export function getApiKeySecret(headers: IncomingHttpHeaders, query?: URLSearchParams): string | null {
+  const header = headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim() || null;
+
+  return query?.get('apiKey') || null;
+}
+
+/**
+ * Standard rate limit headers, plus the quota left today for keys with one
+ */
+export function getRateLimitHeaders(decision: AccessDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(decision.rateLimit),
+    'X-RateLimit-Remaining': String(decision.rateRemaining),
+  };
+  if (decision.quotaRemaining !== null) headers['X-Quota-Remaining'] = String(decision.quotaRemaining);
+  if (!decision.allowed) headers['Retry-After'] = String(decision.retryAfterSeconds);
+  return headers;
+}
+
+export function getRejectionMessage(decision: AccessDecision): string {
+  return !decision.allowed && decision.reason === 'quota'
+    ? 'Daily quota exceeded'
+    : 'Rate limit exceeded';
+}
+
+/**
+ * Authenticate the request's API key and count it against its limits
+ * The key is left in res.locals.apiKey, null for anonymous requests.
+ */
+export async function requireApiAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const secret = getApiKeySecret(req.headers);
+    const address = req.ip ?? 'unknown';
+    let apiKey: ApiKey | null = null;
+
+    if (secret) {
+      const auth = await accessControl.authenticate(secret, address);
+      if (!auth.apiKey) {
+        if (auth.reason === 'rate_limit') {
+          res.set('Retry-After', String(auth.retryAfterSeconds));
+          return res.status(429).json({ error: 'Too many invalid API keys' });
+        }
+        return res.status(401).json({ error: 'Invalid or revoked API key' });
+      }
+      apiKey = auth.apiKey;
+
+      const scope = getRequiredScope(req.method, req.path);
+      if (!apiKey.scopes.includes(scope)) {
+        return res.status(403).json({ error: `API key lacks the "${scope}" scope` });
+      }
+    } else if ((req.method !== 'GET' && req.method !== 'HEAD') || !isPublicPath(req.path)) {
+      return res.status(401).json({ error: 'API key required' });
+    }
+
+    const decision = await accessControl.consume(apiKey, address);
+    res.set(getRateLimitHeaders(decision));
+    if (!decision.allowed) {
+      return res.status(429).json({ error: getRejectionMessage(decision) });
+    }
+
+    res.locals.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error('[API] Error checking API key:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,86 @@
+import { PageDirection } from '../types';
+
+/**
+ * Opaque pagination cursors
+ *
+ * A cursor marks the position of a row in a list's natural order (newest
+ * first for trades, oldest first for candles) and whether it requests the page
+ * after that row ('next') or before it ('prev'). Positions are keyset values,
+ * so pages stay stable while new rows are inserted.
+ */
+
+export interface Cursor {
+  timestamp: Date;
+  id?: number; // Tie-breaker for rows sharing a timestamp (trades only)
+  direction: PageDirection;
+}
+
+interface CursorPayload {
+  t: string;
+  i?: number;
+  d: PageDirection;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  const payload: CursorPayload = {
+    t: cursor.timestamp.toISOString(),
+    i: cursor.id,
+    d: cursor.direction,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Returns null for anything that is not a cursor this API issued
+ */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(value, 'base64url').toString()) as CursorPayload;
+    const timestamp = new Date(payload.t);
+
+    if (isNaN(timestamp.getTime())) return null;
+    if (payload.d !== 'next' && payload.d !== 'prev') return null;
+    if (payload.i !== undefined && !Number.isInteger(payload.i)) return null;
+
+    return { timestamp, id: payload.i, direction: payload.d };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split rows fetched with LIMIT limit + 1 into a page and its cursors
+ *
+ * Rows come in query order: the natural order, or reversed for 'prev' pages.
+ * The returned page is always in the natural order. A cursor is null when
+ * there is nothing to fetch in its direction.
+ */
+export function paginate<T>(
+  rows: T[],
+  limit: number,
+  cursor: Cursor | null,
+  getPosition: (row: T) => { timestamp: Date; id?: number }
+): { data: T[]; nextCursor: string | null; prevCursor: string | null } {
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  const isPrevPage = cursor?.direction === 'prev';
+
+  if (isPrevPage) {
+    data.reverse();
+  }
+
+  if (data.length === 0) {
+    return { data, nextCursor: null, prevCursor: null };
+  }
+
+  const first = getPosition(data[0]);
+  const last = getPosition(data[data.length - 1]);
+
+  // Only the end the query walked towards can run out of rows. The other end
+  // always gets a cursor, which on a first page lets clients poll for newer rows.
+  return {
+    data,
+    nextCursor: !isPrevPage && !hasMore ? null : encodeCursor({ ...last, direction: 'next' }),
+    prevCursor: isPrevPage && !hasMore ? null : encodeCursor({ ...first, direction: 'prev' }),
+  };
+}
@@ -0,0 +1,50 @@
+import { MarketKey } from '../types';
+import { exchangeRegistry } from '../indexers/registry';
+
+/**
+ * Market keys for batch endpoints
+ *
+ * A market key is written `exchange:marketId`, e.g. `kalshi:KXBTC-25DEC31`.
+ * Batch endpoints take a comma-separated list of them and key their results
+ * by the same strings.
+ */
+
+// Most markets a single batch request may ask for
+export const MAX_BATCH_MARKETS = parseInt(process.env.MAX_BATCH_MARKETS || '100', 10);
+
+export function formatMarketKey(market: MarketKey): string {
+  return `${market.exchange}:${market.marketId}`;
+}
+
+/**
+ * Parse a comma-separated list of market keys, dropping duplicates
+ * Returns an error message instead if any key is malformed or the list is too long
+ */
+export function parseMarketKeys(value: unknown): { markets: MarketKey[] } | { error: string } {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return { error: 'Missing required parameter: markets' };
+  }
+
+  const markets = new Map<string, MarketKey>();
+  for (const key of value.split(',').map((k) => k.trim()).filter(Boolean)) {
+    const separator = key.indexOf(':');
+    const exchange = key.slice(0, separator);
+    const marketId = key.slice(separator + 1);
+
+    if (separator <= 0 || !marketId) {
+      return { error: `Invalid market key "${key}". Expected exchange:marketId` };
+    }
+    if (!exchangeRegistry.has(exchange)) {
+      return {
+        error: `Invalid exchange in "${key}". Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      };
+    }
+    markets.set(key, { exchange, marketId });
+  }
+
+  if (markets.size > MAX_BATCH_MARKETS) {
+    return { error: `Too many markets. At most ${MAX_BATCH_MARKETS} per request` };
+  }
+
+  return { markets: Array.from(markets.values()) };
+}
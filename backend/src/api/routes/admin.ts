@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import { jobRunner } from '../../services/job-runner';
+import { JOB_STATUSES, JOB_TYPES, getJob, isJobStatus, isJobType, listJobs, validateJobFields } from '../../services/jobs';
+import { Job, JobType } from '../../types';
+
+const router = Router();
+
+interface GetJobsQuery {
+  type?: string;
+  status?: string;
+  limit?: string;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 && String(id) === value ? id : null;
+}
+
+function getExchangeState(id: string) {
+  const adapter = exchangeRegistry.get(id)!;
+  return { id: adapter.id, paused: exchangeRegistry.isPaused(id), health: adapter.getHealth() };
+}
+
+/**
+ * POST /admin/exchanges/:exchange/pause
+ *
+ * Stop an exchange's indexer. It stays paused until resumed or the server restarts.
+ */
+router.post('/exchanges/:exchange/pause', (req: Request<{ exchange: string }>, res: Response) => {
+  const { exchange } = req.params;
+  if (!exchangeRegistry.get(exchange)) {
+    return res.status(404).json({ error: 'Exchange not found' });
+  }
+
+  exchangeRegistry.pause(exchange);
+  return res.json({ data: getExchangeState(exchange) });
+});
+
+/**
+ * POST /admin/exchanges/:exchange/resume
+ *
+ * Start a paused indexer again. It fills the trades missed while paused, as
+ * after a restart, so it is still starting when this returns (202).
+ */
+router.post('/exchanges/:exchange/resume', (req: Request<{ exchange: string }>, res: Response) => {
+  const { exchange } = req.params;
+  if (!exchangeRegistry.get(exchange)) {
+    return res.status(404).json({ error: 'Exchange not found' });
+  }
+
+  exchangeRegistry.resume(exchange).catch((error) => {
+    console.error(`[API] Error resuming ${exchange}:`, error);
+  });
+  return res.status(202).json({ data: getExchangeState(exchange) });
+});
+
+/**
+ * Queue a job of a type from a request body, replying 202 with it
+ */
+async function launchJob(type: JobType, req: Request<{}, {}, Record<string, unknown>>, res: Response) {
+  try {
+    const validated = validateJobFields(type, req.body ?? {});
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const job = await jobRunner.enqueue(validated.fields);
+    return res.status(202).json({ data: formatJob(job) });
+  } catch (error) {
+    console.error('[API] Error launching job:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * POST /admin/backfills
+ *
+ * Fetch and ingest a range of historical trades from an exchange
+ *
+ * Body:
+ * - exchange: registered exchange id whose adapter supports backfills (required)
+ * - marketId: string (every market when omitted)
+ * - start: ISO timestamp (required)
+ * - end: ISO timestamp (default now)
+ *
+ * Returns 202 with the queued job
+ */
+router.post('/backfills', (req: Request<{}, {}, Record<string, unknown>>, res: Response) => {
+  return launchJob('trade_backfill', req, res);
+});
+
+/**
+ * POST /admin/candles/rebuild
+ *
+ * Recompute a market's stored candles from its trades
+ *
+ * Body:
+ * - exchange, marketId (required)
+ * - start, end: ISO timestamps; candles overlapping the range are rebuilt.
+ *   Without them every candle of the market is recomputed.
+ *
+ * Returns 202 with the queued job
+ */
+router.post('/candles/rebuild', (req: Request<{}, {}, Record<string, unknown>>, res: Response) => {
+  return launchJob('candle_rebuild', req, res);
+});
+
+/**
+ * GET /admin/jobs
+ *
+ * Jobs, newest first
+ *
+ * Query parameters:
+ * - type: 'trade_backfill' | 'candle_rebuild'
+ * - status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+ * - limit: number (default 100, max 1000)
+ */
+router.get('/jobs', async (req: Request<{}, {}, {}, GetJobsQuery>, res: Response) => {
+  try {
+    const { type, status } = req.query;
+
+    if (type !== undefined && !isJobType(type)) {
+      return res.status(400).json({ error: `Invalid type. Must be one of: ${JOB_TYPES.join(', ')}` });
+    }
+    if (status !== undefined && !isJobStatus(status)) {
+      return res.status(400).json({ error: `Invalid status. Must be one of: ${JOB_STATUSES.join(', ')}` });
+    }
+
+    let limit = 100;
+    if (req.query.limit) {
+      limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 100, 1), 1000);
+    }
+
+    const jobs = await listJobs({ type, status, limit });
+    return res.json({ data: jobs.map(formatJob) });
+  } catch (error) {
+    console.error('[API] Error fetching jobs:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /admin/jobs/:id
+ */
+router.get('/jobs/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid job id' });
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json({ data: formatJob(job) });
+  } catch (error) {
+    console.error('[API] Error fetching job:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /admin/jobs/:id/cancel
+ *
+ * Cancel a queued job, or stop a running backfill after its current page.
+ * A running backfill is returned still running and is marked cancelled once
+ * it stops. Returns 409 for finished jobs and running candle rebuilds.
+ */
+router.post('/jobs/:id/cancel', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid job id' });
+    }
+
+    const result = await jobRunner.cancel(id);
+    if ('error' in result) {
+      if (result.error === 'not_found') {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      return res.status(409).json({
+        error: result.error === 'finished' ? 'Job has already finished' : 'Running candle rebuilds cannot be cancelled',
+      });
+    }
+
+    return res.json({ data: formatJob(result.job) });
+  } catch (error) {
+    console.error('[API] Error cancelling job:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function formatJob(job: Job) {
+  return {
+    ...job,
+    start: job.start?.toISOString() ?? null,
+    end: job.end?.toISOString() ?? null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  };
+}
+
+export default router;
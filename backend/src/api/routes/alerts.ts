@@ -0,0 +1,249 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import {
+  createAlertRule,
+  deleteAlertRule,
+  getAlertHistory,
+  getAlertRule,
+  listAlertRules,
+  updateAlertRule,
+  validateAlertRule,
+} from '../../services/alert-rules';
+import { alertEngine } from '../../services/alert-engine';
+import { AlertEvent, AlertRule } from '../../types';
+
+const router = Router();
+
+interface ListRulesQuery {
+  exchange?: string;
+  marketId?: string;
+  enabled?: string;
+}
+
+interface GetHistoryQuery {
+  ruleId?: string;
+  exchange?: string;
+  marketId?: string;
+  limit?: string;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 && String(id) === value ? id : null;
+}
+
+/**
+ * GET /alerts
+ *
+ * Alert rules, oldest first
+ *
+ * Query parameters:
+ * - exchange: registered exchange id (optional)
+ * - marketId: string (optional)
+ * - enabled: 'true' | 'false' (optional)
+ */
+router.get('/', async (req: Request<{}, {}, {}, ListRulesQuery>, res: Response) => {
+  try {
+    const { exchange, marketId, enabled } = req.query;
+
+    if (exchange && !exchangeRegistry.has(exchange)) {
+      return res.status(400).json({
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+
+    if (enabled && enabled !== 'true' && enabled !== 'false') {
+      return res.status(400).json({ error: 'Invalid enabled. Must be "true" or "false"' });
+    }
+
+    const rules = await listAlertRules({
+      exchange,
+      marketId,
+      enabled: enabled ? enabled === 'true' : undefined,
+    });
+
+    return res.json({ data: rules.map(formatRule) });
+  } catch (error) {
+    console.error('[API] Error fetching alert rules:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /alerts/history
+ *
+ * Alert firings, newest first, with their webhook delivery state
+ *
+ * Query parameters:
+ * - ruleId: number (optional)
+ * - exchange: registered exchange id (optional)
+ * - marketId: string (optional)
+ * - limit: number (default 100, max 1000)
+ */
+router.get('/history', async (req: Request<{}, {}, {}, GetHistoryQuery>, res: Response) => {
+  try {
+    const { ruleId: ruleIdStr, exchange, marketId, limit: limitStr } = req.query;
+
+    const ruleId = ruleIdStr ? parseId(ruleIdStr) : undefined;
+    if (ruleId === null) {
+      return res.status(400).json({ error: 'Invalid ruleId' });
+    }
+
+    if (exchange && !exchangeRegistry.has(exchange)) {
+      return res.status(400).json({
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+
+    let limit = 100;
+    if (limitStr) {
+      limit = Math.min(Math.max(parseInt(limitStr, 10) || 100, 1), 1000);
+    }
+
+    const history = await getAlertHistory({ ruleId, exchange, marketId, limit });
+    return res.json({ data: history.map(formatAlert) });
+  } catch (error) {
+    console.error('[API] Error fetching alert history:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /alerts/:id
+ */
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid alert rule id' });
+    }
+
+    const rule = await getAlertRule(id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    return res.json({ data: formatRule(rule) });
+  } catch (error) {
+    console.error('[API] Error fetching alert rule:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /alerts
+ *
+ * Create an alert rule on a market
+ *
+ * Body:
+ * - exchange, marketId (required)
+ * - type (required):
+ *   - 'price_cross': a trade crosses the threshold price; direction 'above' | 'below' (required)
+ *   - 'price_change': the price moves threshold percent within windowMinutes;
+ *     direction 'up' | 'down' | 'any' (default 'any')
+ *   - 'trade_size': a single trade's quantity is at least threshold
+ *   - 'volume_spike': volume within windowMinutes is at least threshold times its
+ *     average over the baselineMinutes before (default 60)
+ * - threshold: positive number (required)
+ * - windowMinutes: 1-1440, for price_change and volume_spike (default 5)
+ * - cooldownSeconds: minimum time between firings (default 300)
+ * - webhookUrl: public http(s) URL to POST firings to (default ALERT_WEBHOOK_URL)
+ * - enabled: boolean (default true)
+ *
+ * Returns 201 with the rule
+ */
+router.post('/', async (req: Request<{}, {}, Record<string, unknown>>, res: Response) => {
+  try {
+    const validated = validateAlertRule(req.body ?? {});
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const rule = await createAlertRule(validated.rule);
+    await alertEngine.reload();
+
+    return res.status(201).json({ data: formatRule(rule) });
+  } catch (error) {
+    console.error('[API] Error creating alert rule:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /alerts/:id
+ *
+ * Change some of a rule's fields, e.g. { "enabled": false }; the body takes
+ * the same fields as POST /alerts
+ */
+router.patch('/:id', async (req: Request<{ id: string }, {}, Record<string, unknown>>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid alert rule id' });
+    }
+
+    const existing = await getAlertRule(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    const validated = validateAlertRule(req.body ?? {}, existing);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const rule = await updateAlertRule(id, validated.rule);
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    await alertEngine.reload();
+
+    return res.json({ data: formatRule(rule) });
+  } catch (error) {
+    console.error('[API] Error updating alert rule:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /alerts/:id
+ *
+ * Delete a rule and its history; returns 204, or 404 if it does not exist
+ */
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid alert rule id' });
+    }
+
+    if (!(await deleteAlertRule(id))) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+    await alertEngine.reload();
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('[API] Error deleting alert rule:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function formatRule(rule: AlertRule) {
+  return {
+    ...rule,
+    lastTriggeredAt: rule.lastTriggeredAt?.toISOString() ?? null,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
+
+function formatAlert(alert: AlertEvent) {
+  return {
+    ...alert,
+    triggeredAt: alert.triggeredAt.toISOString(),
+    deliveredAt: alert.deliveredAt?.toISOString() ?? null,
+  };
+}
+
+export default router;
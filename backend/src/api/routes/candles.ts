@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express';
 import db from '../../db/client';
-import { Interval, Exchange } from '../../types';
+import { exchangeRegistry } from '../../indexers/registry';
+import { candleAggregator } from '../../services/candle-aggregator';
+import { marketCatalog } from '../../services/market-catalog';
+import { ALL_INTERVALS, isInterval } from '../../services/intervals';
+import { decodeCursor, paginate } from '../cursor';
+import { formatMarketKey, parseMarketKeys } from '../market-keys';
 
 const router = Router();
 
@@ -11,22 +16,38 @@ interface GetCandlesQuery {
   start?: string;
   end?: string;
   limit?: string;
+  cursor?: string;
+  normalize?: string;
+}
+
+interface GetCandlesBatchQuery {
+  markets?: string;
+  interval?: string;
+  start?: string;
+  end?: string;
+  limit?: string;
 }
 
 /**
  * GET /candles
  * 
  * Query parameters:
- * - exchange: 'polymarket' | 'kalshi' (required)
+ * - exchange: registered exchange id, e.g. 'polymarket' | 'kalshi' (required)
  * - marketId: string (required)
- * - interval: '1s' | '1m' | '1h' (required)
+ * - interval: '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w' (required)
+ *   5m/15m are built from 1m candles, 4h/1d/1w from 1h candles
  * - start: ISO timestamp (optional)
  * - end: ISO timestamp (optional)
  * - limit: number (default 1000, max 5000)
+ * - cursor: nextCursor/prevCursor from a previous response, with the same filters (optional)
+ * - normalize: 'yes' to chart the yes price from trades in every outcome token of
+ *   the market, e.g. both tokens of a Polymarket question (optional)
+ *
+ * Candles are returned oldest first. nextCursor pages forward in time, prevCursor backward.
  */
 router.get('/', async (req: Request<{}, {}, {}, GetCandlesQuery>, res: Response) => {
   try {
-    const { exchange, marketId, interval, start, end, limit: limitStr } = req.query;
+    const { exchange, marketId, interval, start, end, limit: limitStr, cursor: cursorStr, normalize } = req.query;
 
     // Validate required parameters
     if (!exchange || !marketId || !interval) {
@@ -36,16 +57,16 @@ router.get('/', async (req: Request<{}, {}, {}, GetCandlesQuery>, res: Response)
     }
 
     // Validate exchange
-    if (exchange !== 'polymarket' && exchange !== 'kalshi') {
+    if (!exchangeRegistry.has(exchange)) {
       return res.status(400).json({
-        error: 'Invalid exchange. Must be "polymarket" or "kalshi"',
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
       });
     }
 
     // Validate interval
-    if (interval !== '1s' && interval !== '1m' && interval !== '1h') {
+    if (!isInterval(interval)) {
       return res.status(400).json({
-        error: 'Invalid interval. Must be "1s", "1m", or "1h"',
+        error: `Invalid interval. Must be one of: ${ALL_INTERVALS.map((i) => `"${i}"`).join(', ')}`,
       });
     }
 
@@ -55,54 +76,123 @@ router.get('/', async (req: Request<{}, {}, {}, GetCandlesQuery>, res: Response)
       limit = Math.min(Math.max(parseInt(limitStr, 10) || 1000, 1), 5000);
     }
 
-    // Build query
-    let query = `
-      SELECT open_time, open, high, low, close, volume
-      FROM candles
-      WHERE exchange = $1 AND market_id = $2 AND interval = $3
-    `;
-    const params: any[] = [exchange, marketId, interval];
-
-    // Add time range filters
-    if (start) {
-      params.push(new Date(start));
-      query += ` AND open_time >= $${params.length}`;
-    }
-    if (end) {
-      params.push(new Date(end));
-      query += ` AND open_time <= $${params.length}`;
+    // Validate cursor if provided
+    const cursor = cursorStr ? decodeCursor(cursorStr) : null;
+    if (cursorStr && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
     }
 
-    // Order by time (ascending for charting) and limit
-    query += ` ORDER BY open_time ASC LIMIT $${params.length + 1}`;
-    params.push(limit);
+    if (normalize && normalize !== 'yes') {
+      return res.status(400).json({ error: 'Invalid normalize. Must be "yes"' });
+    }
 
-    const result = await db.query(query, params);
+    // Fetch one extra candle to tell whether another page exists
+    const startDate = start ? new Date(start) : undefined;
+    const endDate = end ? new Date(end) : undefined;
+    const candleCursor = cursor ? { openTime: cursor.timestamp, direction: cursor.direction } : undefined;
+    const rows = normalize
+      ? await candleAggregator.getYesCandles(
+          exchange,
+          await marketCatalog.getSiblingMarketIds(exchange, marketId),
+          interval,
+          startDate,
+          endDate,
+          limit + 1,
+          candleCursor
+        )
+      : await candleAggregator.getCandles(exchange, marketId, interval, startDate, endDate, limit + 1, candleCursor);
+
+    const page = paginate(rows, limit, cursor, (candle) => ({ timestamp: candle.openTime }));
 
     // Transform to API response format
-    const candles = result.rows.map((row) => ({
-      openTime: row.open_time.toISOString(),
-      open: row.open.toString(),
-      high: row.high.toString(),
-      low: row.low.toString(),
-      close: row.close.toString(),
-      volume: row.volume.toString(),
+    const candles = page.data.map((candle) => ({
+      openTime: candle.openTime.toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
     }));
 
-    return res.json({ data: candles });
+    return res.json({ data: candles, nextCursor: page.nextCursor, prevCursor: page.prevCursor });
   } catch (error) {
     console.error('[API] Error fetching candles:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * GET /candles/batch
+ *
+ * Candles for several markets in one request, keyed by market
+ *
+ * Query parameters:
+ * - markets: comma-separated exchange:marketId keys, e.g. 'kalshi:KXBTC-25DEC31,polymarket:123' (required)
+ * - interval: '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w' (required)
+ * - start: ISO timestamp (optional)
+ * - end: ISO timestamp (optional)
+ * - limit: number per market (default 1000, max 5000)
+ *
+ * Returns { data: { [marketKey]: Candle[] } } with every requested key present,
+ * candles oldest first. Not paginated; narrow start/end to walk long ranges.
+ */
+router.get('/batch', async (req: Request<{}, {}, {}, GetCandlesBatchQuery>, res: Response) => {
+  try {
+    const { markets: marketsStr, interval, start, end, limit: limitStr } = req.query;
+
+    const parsed = parseMarketKeys(marketsStr);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    if (!interval || !isInterval(interval)) {
+      return res.status(400).json({
+        error: `Invalid interval. Must be one of: ${ALL_INTERVALS.map((i) => `"${i}"`).join(', ')}`,
+      });
+    }
+
+    let limit = 1000;
+    if (limitStr) {
+      limit = Math.min(Math.max(parseInt(limitStr, 10) || 1000, 1), 5000);
+    }
+
+    const rows = await candleAggregator.getCandlesForMarkets(
+      parsed.markets,
+      interval,
+      start ? new Date(start) : undefined,
+      end ? new Date(end) : undefined,
+      limit
+    );
+
+    const data: Record<string, object[]> = {};
+    for (const market of parsed.markets) {
+      data[formatMarketKey(market)] = [];
+    }
+    for (const candle of rows) {
+      data[formatMarketKey(candle)].push({
+        openTime: candle.openTime.toISOString(),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      });
+    }
+
+    return res.json({ data });
+  } catch (error) {
+    console.error('[API] Error fetching candle batch:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /candles/markets
  * 
  * Get list of available markets with candle data
  * 
  * Query parameters:
- * - exchange: 'polymarket' | 'kalshi' (optional, filters by exchange)
+ * - exchange: registered exchange id (optional, filters by exchange)
  */
 router.get('/markets', async (req: Request, res: Response) => {
   try {
@@ -118,7 +208,7 @@ router.get('/markets', async (req: Request, res: Response) => {
     `;
     const params: any[] = [];
 
-    if (exchange && (exchange === 'polymarket' || exchange === 'kalshi')) {
+    if (typeof exchange === 'string' && exchangeRegistry.has(exchange)) {
       params.push(exchange);
       query += ` AND exchange = $${params.length}`;
     }
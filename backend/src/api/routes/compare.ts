@@ -0,0 +1,126 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import { getMarketLink } from '../../services/market-links';
+import { compareMarkets } from '../../services/market-comparison';
+import { ALL_INTERVALS, isInterval } from '../../services/intervals';
+import { MarketKey } from '../../types';
+import { parseMarketKeys } from '../market-keys';
+
+const router = Router();
+
+interface GetComparisonQuery {
+  link?: string;
+  markets?: string;
+  inverted?: string;
+  interval?: string;
+  start?: string;
+  end?: string;
+  limit?: string;
+}
+
+/**
+ * GET /compare
+ *
+ * Aligned candles of two equivalent markets and the spread between their
+ * implied probabilities over time
+ *
+ * Query parameters:
+ * - link: id of a market link (either link or markets is required)
+ * - markets: two comma-separated exchange:marketId keys, e.g.
+ *   'kalshi:KXBTC-25DEC31,polymarket:1234...'
+ * - inverted: 'true' if the markets pay out on opposite outcomes; only with
+ *   markets, a link carries its own (optional)
+ * - interval: '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w' (required)
+ * - start: ISO timestamp (optional)
+ * - end: ISO timestamp (optional)
+ * - limit: candles per market (default 1000, max 5000)
+ *
+ * Returns { data: { a, b, points } } where points are oldest first, with
+ * each leg's candle (null if it did not trade in the bucket) and spread =
+ * a's close minus b's close. An inverted b is priced as 1 - price, so both
+ * legs are in terms of the same outcome.
+ */
+router.get('/', async (req: Request<{}, {}, {}, GetComparisonQuery>, res: Response) => {
+  try {
+    const { link: linkStr, markets, inverted: invertedStr, interval, start, end, limit: limitStr } = req.query;
+
+    if (!interval || (!linkStr && !markets)) {
+      return res.status(400).json({ error: 'Missing required parameters: interval and either link or markets' });
+    }
+
+    if (linkStr && markets) {
+      return res.status(400).json({ error: 'Use either link or markets, not both' });
+    }
+
+    if (!isInterval(interval)) {
+      return res.status(400).json({
+        error: `Invalid interval. Must be one of: ${ALL_INTERVALS.map((i) => `"${i}"`).join(', ')}`,
+      });
+    }
+
+    if (invertedStr && invertedStr !== 'true' && invertedStr !== 'false') {
+      return res.status(400).json({ error: 'Invalid inverted. Must be "true" or "false"' });
+    }
+
+    let limit = 1000;
+    if (limitStr) {
+      limit = Math.min(Math.max(parseInt(limitStr, 10) || 1000, 1), 5000);
+    }
+
+    let a: MarketKey;
+    let b: MarketKey;
+    let inverted = invertedStr === 'true';
+    let linkId: number | null = null;
+
+    if (linkStr) {
+      const id = parseInt(linkStr, 10);
+      if (!Number.isInteger(id) || id <= 0) {
+        return res.status(400).json({ error: 'Invalid link id' });
+      }
+      const link = await getMarketLink(id);
+      if (!link) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+      a = { exchange: link.exchange, marketId: link.marketId };
+      b = { exchange: link.linkedExchange, marketId: link.linkedMarketId };
+      inverted = link.inverted;
+      linkId = link.id;
+    } else {
+      const parsed = parseMarketKeys(markets);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      if (parsed.markets.length !== 2) {
+        return res.status(400).json({ error: 'markets must name exactly two different markets' });
+      }
+      [a, b] = parsed.markets;
+    }
+
+    const points = await compareMarkets(a, b, interval, {
+      inverted,
+      start: start ? new Date(start) : undefined,
+      end: end ? new Date(end) : undefined,
+      limit,
+    });
+
+    // Stored titles of both legs (no external calls)
+    const titleOf = async (market: MarketKey) => {
+      const titles = await exchangeRegistry.get(market.exchange)?.getMarketTitles([market.marketId]);
+      return titles?.get(market.marketId) || null;
+    };
+
+    return res.json({
+      data: {
+        link: linkId,
+        a: { ...a, title: await titleOf(a) },
+        b: { ...b, title: await titleOf(b), inverted },
+        points: points.map((point) => ({ ...point, openTime: point.openTime.toISOString() })),
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error comparing markets:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
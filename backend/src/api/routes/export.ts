@@ -0,0 +1,236 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import { candleAggregator } from '../../services/candle-aggregator';
+import { ALL_INTERVALS, isInterval } from '../../services/intervals';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORT_TIMEOUT_MS,
+  ExportColumn,
+  ExportFormat,
+  canStartExport,
+  isExportFormat,
+  streamExport,
+} from '../../services/exporter';
+
+const router = Router();
+
+interface ExportQuery {
+  exchange?: string;
+  marketId?: string;
+  side?: string;
+  outcome?: string;
+  interval?: string;
+  start?: string;
+  end?: string;
+  format?: string;
+  gzip?: string;
+}
+
+const TRADE_COLUMNS: ExportColumn[] = [
+  { name: 'id', type: 'integer', value: (row) => row.id },
+  { name: 'exchange', type: 'string', value: (row) => row.exchange },
+  { name: 'marketId', type: 'string', value: (row) => row.market_id },
+  { name: 'timestamp', type: 'timestamp', value: (row) => row.timestamp },
+  { name: 'price', type: 'decimal', value: (row) => row.price },
+  { name: 'quantity', type: 'decimal', value: (row) => row.quantity },
+  { name: 'side', type: 'string', value: (row) => row.side },
+  { name: 'outcome', type: 'string', optional: true, value: (row) => row.outcome },
+  { name: 'takerSide', type: 'string', optional: true, value: (row) => row.taker_side },
+  { name: 'yesPrice', type: 'decimal', optional: true, value: (row) => row.yes_price },
+  { name: 'noPrice', type: 'decimal', optional: true, value: (row) => row.no_price },
+  { name: 'txHash', type: 'string', optional: true, value: (row) => row.tx_hash },
+  { name: 'maker', type: 'string', optional: true, value: (row) => row.maker },
+  { name: 'taker', type: 'string', optional: true, value: (row) => row.taker },
+  { name: 'fee', type: 'decimal', optional: true, value: (row) => row.fee },
+  {
+    name: 'blockNumber',
+    type: 'integer',
+    optional: true,
+    value: (row) => (row.block_number !== null ? Number(row.block_number) : null),
+  },
+  { name: 'finalized', type: 'boolean', value: (row) => row.finalized },
+];
+
+const CANDLE_COLUMNS: ExportColumn[] = [
+  { name: 'openTime', type: 'timestamp', value: (row) => row.open_time },
+  { name: 'open', type: 'decimal', value: (row) => row.open },
+  { name: 'high', type: 'decimal', value: (row) => row.high },
+  { name: 'low', type: 'decimal', value: (row) => row.low },
+  { name: 'close', type: 'decimal', value: (row) => row.close },
+  { name: 'volume', type: 'decimal', value: (row) => row.volume },
+];
+
+/**
+ * Validate the parameters shared by both exports
+ * Returns an error message, or null if they are valid
+ */
+function validateCommon(query: ExportQuery): string | null {
+  const { exchange, marketId, start, end, format } = query;
+
+  if (!exchange || !marketId) {
+    return 'Missing required parameters: exchange, marketId';
+  }
+  if (!exchangeRegistry.has(exchange)) {
+    return `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`;
+  }
+  if (format && !isExportFormat(format)) {
+    return `Invalid format. Must be one of: ${EXPORT_FORMATS.map((f) => `"${f}"`).join(', ')}`;
+  }
+  if ((start && isNaN(new Date(start).getTime())) || (end && isNaN(new Date(end).getTime()))) {
+    return 'Invalid start or end. Must be ISO timestamps';
+  }
+  return null;
+}
+
+/**
+ * Set download headers and stream the export, ending the response either way
+ * Replies 503 while the most exports allowed at once are streaming. A client
+ * that stops reading for EXPORT_TIMEOUT_MS is disconnected, freeing its connection.
+ */
+async function sendExport(
+  params: ExportQuery,
+  res: Response,
+  dataset: string,
+  exportQuery: { text: string; values: any[] },
+  columns: ExportColumn[]
+) {
+  if (!canStartExport()) {
+    res.setHeader('Retry-After', '10');
+    return res.status(503).json({ error: 'Too many exports in progress' });
+  }
+
+  const { exchange, marketId } = params;
+  const format = (params.format || 'csv') as ExportFormat;
+  const gzip = params.gzip === 'true';
+
+  // Parquet compresses its column chunks, so only text formats get a .gz wrapper
+  const gzipWrapped = gzip && format !== 'parquet';
+  const safeMarketId = marketId!.replace(/[^A-Za-z0-9._-]/g, '_');
+  const filename = `${dataset}-${exchange}-${safeMarketId}.${format}${gzipWrapped ? '.gz' : ''}`;
+
+  res.setHeader('Content-Type', gzipWrapped ? 'application/gzip' : EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  res.setTimeout(EXPORT_TIMEOUT_MS, () => {
+    console.log(`[Export] ${filename}: client stalled, disconnecting`);
+    res.destroy();
+  });
+
+  const startedAt = Date.now();
+  try {
+    const rowCount = await streamExport({ query: exportQuery, columns, format, gzip, output: res });
+    console.log(`[Export] ${filename}: ${rowCount} rows in ${Date.now() - startedAt}ms`);
+  } catch (error) {
+    if (res.destroyed) {
+      console.log(`[Export] ${filename}: client disconnected`);
+      return;
+    }
+    console.error('[Export] Error streaming export:', error);
+    // Headers are gone once data has been sent; cutting the connection marks the file as incomplete
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
+
+/**
+ * GET /export/trades
+ *
+ * Stream every matching trade, oldest first
+ *
+ * Query parameters:
+ * - exchange: registered exchange id (required)
+ * - marketId: string (required)
+ * - side: 'buy' | 'sell' (optional)
+ * - outcome: 'yes' | 'no' (optional)
+ * - start: ISO timestamp (optional)
+ * - end: ISO timestamp (optional)
+ * - format: 'csv' | 'ndjson' | 'parquet' (default 'csv')
+ * - gzip: 'true' to compress (optional)
+ */
+router.get('/trades', async (req: Request<{}, {}, {}, ExportQuery>, res: Response) => {
+  const { exchange, marketId, side, outcome, start, end } = req.query;
+
+  const error = validateCommon(req.query);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  if (side && side !== 'buy' && side !== 'sell') {
+    return res.status(400).json({ error: 'Invalid side. Must be "buy" or "sell"' });
+  }
+  if (outcome && outcome !== 'yes' && outcome !== 'no') {
+    return res.status(400).json({ error: 'Invalid outcome. Must be "yes" or "no"' });
+  }
+
+  let query = `
+    SELECT id, exchange, market_id, timestamp, price, quantity, side, outcome, taker_side, yes_price, no_price,
+      tx_hash, maker, taker, fee, block_number, finalized
+    FROM trades
+    WHERE exchange = $1 AND market_id = $2
+  `;
+  const params: any[] = [exchange, marketId];
+
+  if (side) {
+    params.push(side);
+    query += ` AND side = $${params.length}`;
+  }
+  if (outcome) {
+    params.push(outcome);
+    query += ` AND outcome = $${params.length}`;
+  }
+  if (start) {
+    params.push(new Date(start));
+    query += ` AND timestamp >= $${params.length}`;
+  }
+  if (end) {
+    params.push(new Date(end));
+    query += ` AND timestamp <= $${params.length}`;
+  }
+
+  query += ` ORDER BY timestamp ASC, id ASC`;
+
+  await sendExport(req.query, res, 'trades', { text: query, values: params }, TRADE_COLUMNS);
+});
+
+/**
+ * GET /export/candles
+ *
+ * Stream every matching candle, oldest first
+ *
+ * Query parameters:
+ * - exchange: registered exchange id (required)
+ * - marketId: string (required)
+ * - interval: '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w' (required)
+ * - start: ISO timestamp (optional)
+ * - end: ISO timestamp (optional)
+ * - format: 'csv' | 'ndjson' | 'parquet' (default 'csv')
+ * - gzip: 'true' to compress (optional)
+ */
+router.get('/candles', async (req: Request<{}, {}, {}, ExportQuery>, res: Response) => {
+  const { exchange, marketId, interval, start, end } = req.query;
+
+  const error = validateCommon(req.query);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+  if (!interval || !isInterval(interval)) {
+    return res.status(400).json({
+      error: `Invalid interval. Must be one of: ${ALL_INTERVALS.map((i) => `"${i}"`).join(', ')}`,
+    });
+  }
+
+  const query = candleAggregator.buildCandlesQuery(
+    exchange!,
+    marketId!,
+    interval,
+    start ? new Date(start) : undefined,
+    end ? new Date(end) : undefined
+  );
+
+  await sendExport(req.query, res, `candles-${interval}`, query, CANDLE_COLUMNS);
+});
+
+export default router;
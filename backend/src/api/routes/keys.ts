@@ -0,0 +1,191 @@
+import { Router, Request, Response } from 'express';
+import {
+  createApiKey,
+  getApiKey,
+  getApiKeyUsage,
+  listApiKeys,
+  revokeApiKey,
+  updateApiKey,
+  validateApiKeyFields,
+} from '../../services/api-keys';
+import { accessControl } from '../../services/access-control';
+import { ApiKey } from '../../types';
+
+const router = Router();
+
+interface GetUsageQuery {
+  days?: string;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 && String(id) === value ? id : null;
+}
+
+/**
+ * GET /keys
+ *
+ * Every API key, oldest first, including revoked ones. Requires the admin scope.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const keys = await listApiKeys();
+    return res.json({ data: keys.map(formatKey) });
+  } catch (error) {
+    console.error('[API] Error fetching API keys:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /keys/:id
+ */
+router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    const apiKey = await getApiKey(id);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    return res.json({ data: formatKey(apiKey) });
+  } catch (error) {
+    console.error('[API] Error fetching API key:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /keys/:id/usage
+ *
+ * Requests let through and rejected per UTC day, newest first
+ *
+ * Query parameters:
+ * - days: number (default 30, max 366)
+ */
+router.get('/:id/usage', async (req: Request<{ id: string }, {}, {}, GetUsageQuery>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    let days = 30;
+    if (req.query.days) {
+      days = Math.min(Math.max(parseInt(req.query.days, 10) || 30, 1), 366);
+    }
+
+    if (!(await getApiKey(id))) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    return res.json({ data: await getApiKeyUsage(id, days) });
+  } catch (error) {
+    console.error('[API] Error fetching API key usage:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /keys
+ *
+ * Issue an API key
+ *
+ * Body:
+ * - name: string (required)
+ * - scopes: list of 'read' | 'export' | 'links' | 'alerts' | 'admin' (default ['read'])
+ * - rateLimitPerMinute: number (default 600)
+ * - maxSubscriptions: WebSocket subscriptions across the key's connections (default 100)
+ * - dailyQuota: requests per UTC day, or null for none (default null)
+ *
+ * Returns 201 with the key's settings and, under `key`, the key itself. It is
+ * only stored hashed and can't be shown again.
+ */
+router.post('/', async (req: Request<{}, {}, Record<string, unknown>>, res: Response) => {
+  try {
+    const validated = validateApiKeyFields(req.body ?? {});
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const { apiKey, secret } = await createApiKey(validated.fields);
+    return res.status(201).json({ data: { ...formatKey(apiKey), key: secret } });
+  } catch (error) {
+    console.error('[API] Error creating API key:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PATCH /keys/:id
+ *
+ * Change some of a key's settings; the body takes the same fields as POST /keys
+ */
+router.patch('/:id', async (req: Request<{ id: string }, {}, Record<string, unknown>>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    const existing = await getApiKey(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    const validated = validateApiKeyFields(req.body ?? {}, existing);
+    if ('error' in validated) {
+      return res.status(400).json({ error: validated.error });
+    }
+
+    const apiKey = await updateApiKey(id, validated.fields);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    accessControl.invalidate(id);
+
+    return res.json({ data: formatKey(apiKey) });
+  } catch (error) {
+    console.error('[API] Error updating API key:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /keys/:id
+ *
+ * Revoke a key; its usage history is kept. Returns 204, or 404 if it does not exist
+ */
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid API key id' });
+    }
+
+    if (!(await revokeApiKey(id))) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    accessControl.invalidate(id);
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('[API] Error revoking API key:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function formatKey(apiKey: ApiKey) {
+  return {
+    ...apiKey,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    createdAt: apiKey.createdAt.toISOString(),
+  };
+}
+
+export default router;
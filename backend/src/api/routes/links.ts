@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import {
+  MARKET_LINK_SOURCES,
+  deleteMarketLink,
+  getMarketLinks,
+  isMarketLinkSource,
+  saveMarketLink,
+  suggestMarketLinks,
+} from '../../services/market-links';
+import { MarketLink } from '../../types';
+
+const router = Router();
+
+interface GetLinksQuery {
+  exchange?: string;
+  marketId?: string;
+}
+
+interface GetSuggestionsQuery {
+  exchange?: string;
+  marketId?: string;
+  linkedExchange?: string;
+  limit?: string;
+}
+
+interface CreateLinkBody {
+  exchange?: string;
+  marketId?: string;
+  linkedExchange?: string;
+  linkedMarketId?: string;
+  inverted?: boolean;
+  source?: string;
+}
+
+function invalidExchangeError(): string {
+  return `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`;
+}
+
+/**
+ * GET /links
+ *
+ * Markets on other exchanges linked to a market as equivalent
+ *
+ * Query parameters:
+ * - exchange: registered exchange id (required)
+ * - marketId: string (required)
+ *
+ * Links are returned oldest first, oriented so exchange/marketId is the
+ * requested market, with the linked market's title (null if not cataloged yet)
+ */
+router.get('/', async (req: Request<{}, {}, {}, GetLinksQuery>, res: Response) => {
+  try {
+    const { exchange, marketId } = req.query;
+
+    if (!exchange || !marketId) {
+      return res.status(400).json({ error: 'Missing required parameters: exchange, marketId' });
+    }
+
+    if (!exchangeRegistry.has(exchange)) {
+      return res.status(400).json({ error: invalidExchangeError() });
+    }
+
+    const links = await getMarketLinks({ exchange, marketId });
+
+    // Look up stored titles of the linked markets through each exchange's adapter
+    const marketIdsByExchange = new Map<string, string[]>();
+    for (const link of links) {
+      const marketIds = marketIdsByExchange.get(link.linkedExchange) ?? [];
+      marketIds.push(link.linkedMarketId);
+      marketIdsByExchange.set(link.linkedExchange, marketIds);
+    }
+
+    const titlesByExchange = new Map<string, Map<string, string>>();
+    for (const [exchangeId, marketIds] of marketIdsByExchange) {
+      const adapter = exchangeRegistry.get(exchangeId);
+      titlesByExchange.set(exchangeId, adapter ? await adapter.getMarketTitles(marketIds) : new Map());
+    }
+
+    return res.json({
+      data: links.map((link) => ({
+        ...formatLink(link),
+        linkedTitle: titlesByExchange.get(link.linkedExchange)?.get(link.linkedMarketId) || null,
+      })),
+    });
+  } catch (error) {
+    console.error('[API] Error fetching market links:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /links/suggestions
+ *
+ * Markets on another exchange that may be equivalent to a market, ranked by
+ * how similar their titles are
+ *
+ * Query parameters:
+ * - exchange: registered exchange id (required)
+ * - marketId: string (required)
+ * - linkedExchange: exchange to search, different from exchange (required)
+ * - limit: number (default 10, max 50)
+ *
+ * Polymarket questions are suggested by their yes token. Markets already
+ * linked are left out, and nothing is suggested until the market's metadata
+ * has been fetched.
+ */
+router.get('/suggestions', async (req: Request<{}, {}, {}, GetSuggestionsQuery>, res: Response) => {
+  try {
+    const { exchange, marketId, linkedExchange, limit: limitStr } = req.query;
+
+    if (!exchange || !marketId || !linkedExchange) {
+      return res.status(400).json({ error: 'Missing required parameters: exchange, marketId, linkedExchange' });
+    }
+
+    if (!exchangeRegistry.has(exchange) || !exchangeRegistry.has(linkedExchange)) {
+      return res.status(400).json({ error: invalidExchangeError() });
+    }
+
+    if (exchange === linkedExchange) {
+      return res.status(400).json({ error: 'linkedExchange must differ from exchange' });
+    }
+
+    let limit = 10;
+    if (limitStr) {
+      limit = Math.min(Math.max(parseInt(limitStr, 10) || 10, 1), 50);
+    }
+
+    const suggestions = await suggestMarketLinks({ exchange, marketId }, linkedExchange, limit);
+    return res.json({ data: suggestions });
+  } catch (error) {
+    console.error('[API] Error suggesting market links:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /links
+ *
+ * Link two equivalent markets on different exchanges, or update their link
+ *
+ * Body:
+ * - exchange, marketId: first market (required)
+ * - linkedExchange, linkedMarketId: equivalent market on another exchange (required)
+ * - inverted: true if the markets pay out on opposite outcomes (default false)
+ * - source: 'manual' | 'suggested' (default 'manual')
+ *
+ * Returns 201 with the link, oriented from exchange/marketId
+ */
+router.post('/', async (req: Request<{}, {}, CreateLinkBody>, res: Response) => {
+  try {
+    const { exchange, marketId, linkedExchange, linkedMarketId, inverted, source } = req.body ?? {};
+
+    if (!exchange || !marketId || !linkedExchange || !linkedMarketId) {
+      return res.status(400).json({
+        error: 'Missing required fields: exchange, marketId, linkedExchange, linkedMarketId',
+      });
+    }
+
+    if (!exchangeRegistry.has(exchange) || !exchangeRegistry.has(linkedExchange)) {
+      return res.status(400).json({ error: invalidExchangeError() });
+    }
+
+    if (exchange === linkedExchange) {
+      return res.status(400).json({ error: 'Linked markets must be on different exchanges' });
+    }
+
+    if (inverted !== undefined && typeof inverted !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid inverted. Must be a boolean' });
+    }
+
+    if (source !== undefined && !isMarketLinkSource(source)) {
+      return res.status(400).json({
+        error: `Invalid source. Must be one of: ${MARKET_LINK_SOURCES.map((s) => `"${s}"`).join(', ')}`,
+      });
+    }
+
+    const link = await saveMarketLink(
+      { exchange, marketId },
+      { exchange: linkedExchange, marketId: linkedMarketId },
+      { inverted, source }
+    );
+
+    return res.status(201).json({ data: formatLink(link) });
+  } catch (error) {
+    console.error('[API] Error saving market link:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /links/:id
+ *
+ * Remove a link; returns 204, or 404 if it does not exist
+ */
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!Number.isInteger(id) || id <= 0) {
+      return res.status(400).json({ error: 'Invalid link id' });
+    }
+
+    if (!(await deleteMarketLink(id))) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('[API] Error deleting market link:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function formatLink(link: MarketLink) {
+  return { ...link, createdAt: link.createdAt.toISOString() };
+}
+
+export default router;
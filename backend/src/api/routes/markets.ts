@@ -0,0 +1,240 @@
+import { Router, Request, Response } from 'express';
+import { exchangeRegistry } from '../../indexers/registry';
+import { getMarketSnapshots, getMarketSummary, parseWindow } from '../../services/market-stats';
+import { MARKET_STATUSES, isMarketStatus, marketCatalog, toMarketLifecycle } from '../../services/market-catalog';
+import { MarketLifecycle, MarketStatus } from '../../types';
+import { formatMarketKey, parseMarketKeys } from '../market-keys';
+
+const router = Router();
+
+interface GetSnapshotQuery {
+  markets?: string;
+}
+
+interface SearchQuery {
+  q?: string;
+  exchange?: string;
+  status?: string;
+  limit?: string;
+}
+
+interface GetSummaryQuery {
+  windows?: string;
+}
+
+const DEFAULT_SUMMARY_WINDOWS = ['1h', '24h', '7d'];
+const MAX_SUMMARY_WINDOWS = 10;
+
+/**
+ * GET /markets/search
+ *
+ * Full-text search over the market catalog, best matches first
+ *
+ * Query parameters:
+ * - q: search text; words match titles, subtitles, outcomes, categories,
+ *   event tickers and market ids by prefix (required)
+ * - exchange: registered exchange id (optional)
+ * - status: 'open' | 'closed' | 'resolved' (optional)
+ * - limit: number (default 20, max 100)
+ *
+ * Each result carries its catalog metadata and lifecycle, a relevance rank and
+ * the same activity stats as GET /trades/markets
+ */
+router.get('/search', async (req: Request<{}, {}, {}, SearchQuery>, res: Response) => {
+  try {
+    const { q, exchange, status, limit: limitStr } = req.query;
+
+    if (!q || !q.trim()) {
+      return res.status(400).json({ error: 'Missing required parameter: q' });
+    }
+
+    if (exchange && !exchangeRegistry.has(exchange)) {
+      return res.status(400).json({
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+
+    if (status && !isMarketStatus(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${MARKET_STATUSES.map((s) => `"${s}"`).join(', ')}`,
+      });
+    }
+
+    let limit = 20;
+    if (limitStr) {
+      limit = Math.min(Math.max(parseInt(limitStr, 10) || 20, 1), 100);
+    }
+
+    const results = await marketCatalog.search(q.trim().slice(0, 200), {
+      exchange,
+      status: status as MarketStatus | undefined,
+      limit,
+    });
+
+    const markets = results.map((result) => ({
+      ...result,
+      closeTime: result.closeTime?.toISOString() ?? null,
+      resolvedAt: result.resolvedAt?.toISOString() ?? null,
+      firstTrade: result.firstTrade?.toISOString() ?? null,
+      lastTrade: result.lastTrade?.toISOString() ?? null,
+    }));
+
+    return res.json({ data: markets });
+  } catch (error) {
+    console.error('[API] Error searching markets:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /markets/snapshot
+ *
+ * Last price and trailing 24h stats for many markets at once
+ *
+ * Query parameters:
+ * - markets: comma-separated exchange:marketId keys (required)
+ *
+ * Returns { data: { [marketKey]: snapshot } } with every requested key present.
+ * Markets with no trades have null prices and zero volume.
+ */
+router.get('/snapshot', async (req: Request<{}, {}, {}, GetSnapshotQuery>, res: Response) => {
+  try {
+    const parsed = parseMarketKeys(req.query.markets);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const snapshots = await getMarketSnapshots(parsed.markets);
+
+    const data = Object.fromEntries(
+      snapshots.map((snapshot) => [
+        formatMarketKey(snapshot),
+        {
+          lastPrice: snapshot.lastPrice,
+          lastTradeAt: snapshot.lastTradeAt?.toISOString() ?? null,
+          change24h: snapshot.change24h,
+          changePercent24h: snapshot.changePercent24h,
+          volume24h: snapshot.volume24h,
+          high24h: snapshot.high24h,
+          low24h: snapshot.low24h,
+        },
+      ])
+    );
+
+    return res.json({ data });
+  } catch (error) {
+    console.error('[API] Error fetching market snapshots:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /markets/:exchange/:marketId/summary
+ *
+ * Last price plus price change, VWAP, volume (with buy/sell split), trade
+ * count, average trade size and largest trade over trailing windows
+ *
+ * Query parameters:
+ * - windows: comma-separated windows such as '15m', '24h', '7d', up to 90d
+ *   (default '1h,24h,7d')
+ *
+ * Returns { data: { exchange, marketId, lastPrice, lastTradeAt, ...lifecycle, windows: { [window]: stats } } },
+ * where the lifecycle is status, closeTime, result, settlementPrice and resolvedAt
+ */
+router.get('/:exchange/:marketId/summary', async (req: Request<{ exchange: string; marketId: string }, {}, {}, GetSummaryQuery>, res: Response) => {
+  try {
+    const { exchange, marketId } = req.params;
+
+    if (!exchangeRegistry.has(exchange)) {
+      return res.status(400).json({
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+
+    const windows = req.query.windows
+      ? Array.from(new Set(req.query.windows.split(',').map((w) => w.trim()).filter(Boolean)))
+      : DEFAULT_SUMMARY_WINDOWS;
+
+    const invalid = windows.find((w) => parseWindow(w) === null);
+    if (invalid !== undefined || windows.length === 0) {
+      return res.status(400).json({
+        error: `Invalid window "${invalid ?? ''}". Use a number followed by m, h or d (e.g. "15m", "24h", "7d"), up to 90 days`,
+      });
+    }
+    if (windows.length > MAX_SUMMARY_WINDOWS) {
+      return res.status(400).json({ error: `Too many windows. At most ${MAX_SUMMARY_WINDOWS} per request` });
+    }
+
+    const summary = await getMarketSummary(exchange, marketId, windows);
+    const details = await marketCatalog.getDetails(exchange, [marketId]);
+    const lifecycle = toMarketLifecycle(details.get(marketId));
+
+    return res.json({
+      data: {
+        exchange: summary.exchange,
+        marketId: summary.marketId,
+        lastPrice: summary.lastPrice,
+        lastTradeAt: summary.lastTradeAt?.toISOString() ?? null,
+        ...formatLifecycle(lifecycle),
+        windows: Object.fromEntries(
+          summary.windows.map(({ window, largestTrade, ...stats }) => [
+            window,
+            {
+              ...stats,
+              largestTrade: largestTrade
+                ? { ...largestTrade, timestamp: largestTrade.timestamp.toISOString() }
+                : null,
+            },
+          ])
+        ),
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error fetching market summary:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /markets/:exchange/:marketId/lifecycle
+ *
+ * Current status of a market and every recorded change to it
+ *
+ * Returns { data: { status, closeTime, result, settlementPrice, resolvedAt, history } },
+ * with history oldest first. Fields are null until the market's metadata has
+ * been fetched from the exchange.
+ */
+router.get('/:exchange/:marketId/lifecycle', async (req: Request<{ exchange: string; marketId: string }>, res: Response) => {
+  try {
+    const { exchange, marketId } = req.params;
+
+    if (!exchangeRegistry.has(exchange)) {
+      return res.status(400).json({
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
+      });
+    }
+
+    const details = await marketCatalog.getDetails(exchange, [marketId]);
+    const history = await marketCatalog.getStatusHistory(exchange, marketId);
+
+    return res.json({
+      data: {
+        ...formatLifecycle(toMarketLifecycle(details.get(marketId))),
+        history: history.map((change) => ({ ...change, changedAt: change.changedAt.toISOString() })),
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error fetching market lifecycle:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+function formatLifecycle(lifecycle: MarketLifecycle) {
+  return {
+    ...lifecycle,
+    closeTime: lifecycle.closeTime?.toISOString() ?? null,
+    resolvedAt: lifecycle.resolvedAt?.toISOString() ?? null,
+  };
+}
+
+export default router;
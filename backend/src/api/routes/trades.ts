@@ -1,6 +1,15 @@
 import { Router, Request, Response } from 'express';
 import db from '../../db/client';
-import { getKalshiMarketTitles, getPolymarketMarketTitles } from '../../services/market-metadata';
+import { exchangeRegistry } from '../../indexers/registry';
+import { MarketDetails } from '../../types';
+import {
+  MARKET_STATUSES,
+  isMarketStatus,
+  marketCatalog,
+  toMarketLifecycle,
+  toMarketOutcomes,
+} from '../../services/market-catalog';
+import { decodeCursor, paginate } from '../cursor';
 
 const router = Router();
 
@@ -8,25 +17,41 @@ interface GetTradesQuery {
   exchange?: string;
   marketId?: string;
   side?: string;
+  outcome?: string;
   start?: string;
   end?: string;
   limit?: string;
+  cursor?: string;
+  normalize?: string;
+}
+
+interface GetMarketsQuery {
+  exchange?: string;
+  groupBy?: string;
+  event?: string;
+  status?: string;
 }
 
 /**
  * GET /trades
  * 
  * Query parameters:
- * - exchange: 'polymarket' | 'kalshi' (required)
+ * - exchange: registered exchange id, e.g. 'polymarket' | 'kalshi' (required)
  * - marketId: string (required)
  * - side: 'buy' | 'sell' (optional)
+ * - outcome: 'yes' | 'no' (optional)
  * - start: ISO timestamp (optional)
  * - end: ISO timestamp (optional)
  * - limit: number (default 100, max 1000)
+ * - cursor: nextCursor/prevCursor from a previous response, with the same filters (optional)
+ * - normalize: 'yes' to include trades in every outcome token of the market, e.g.
+ *   both tokens of a Polymarket question, with price set to the yes price (optional)
+ *
+ * Trades are returned newest first. nextCursor pages to older trades, prevCursor to newer ones.
  */
 router.get('/', async (req: Request<{}, {}, {}, GetTradesQuery>, res: Response) => {
   try {
-    const { exchange, marketId, side, start, end, limit: limitStr } = req.query;
+    const { exchange, marketId, side, outcome, start, end, limit: limitStr, cursor: cursorStr, normalize } = req.query;
 
     // Validate required parameters
     if (!exchange || !marketId) {
@@ -36,9 +61,9 @@ router.get('/', async (req: Request<{}, {}, {}, GetTradesQuery>, res: Response)
     }
 
     // Validate exchange
-    if (exchange !== 'polymarket' && exchange !== 'kalshi') {
+    if (!exchangeRegistry.has(exchange)) {
       return res.status(400).json({
-        error: 'Invalid exchange. Must be "polymarket" or "kalshi"',
+        error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}`,
       });
     }
 
@@ -49,25 +74,48 @@ router.get('/', async (req: Request<{}, {}, {}, GetTradesQuery>, res: Response)
       });
     }
 
+    // Validate outcome if provided
+    if (outcome && outcome !== 'yes' && outcome !== 'no') {
+      return res.status(400).json({
+        error: 'Invalid outcome. Must be "yes" or "no"',
+      });
+    }
+
+    if (normalize && normalize !== 'yes') {
+      return res.status(400).json({ error: 'Invalid normalize. Must be "yes"' });
+    }
+
     // Parse and validate limit
     let limit = 100;
     if (limitStr) {
       limit = Math.min(Math.max(parseInt(limitStr, 10) || 100, 1), 1000);
     }
 
+    // Validate cursor if provided
+    const cursor = cursorStr ? decodeCursor(cursorStr) : null;
+    if (cursorStr && (!cursor || cursor.id === undefined)) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
     // Build query
     let query = `
-      SELECT id, exchange, market_id, price, quantity, side, timestamp, tx_hash
+      SELECT id, exchange, market_id, price, quantity, side, timestamp, outcome, taker_side, yes_price, no_price,
+        tx_hash, maker, taker, fee, block_number, finalized
       FROM trades
-      WHERE exchange = $1 AND market_id = $2
+      WHERE exchange = $1 AND market_id = ANY($2)
     `;
-    const params: any[] = [exchange, marketId];
+    const marketIds = normalize ? await marketCatalog.getSiblingMarketIds(exchange, marketId) : [marketId];
+    const params: any[] = [exchange, marketIds];
 
     // Add optional filters
     if (side) {
       params.push(side);
       query += ` AND side = $${params.length}`;
     }
+    if (outcome) {
+      params.push(outcome);
+      query += ` AND outcome = $${params.length}`;
+    }
     if (start) {
       params.push(new Date(start));
       query += ` AND timestamp >= $${params.length}`;
@@ -76,26 +124,44 @@ router.get('/', async (req: Request<{}, {}, {}, GetTradesQuery>, res: Response)
       params.push(new Date(end));
       query += ` AND timestamp <= $${params.length}`;
     }
+    // Keyset on (timestamp, id): 'next' pages hold older trades, 'prev' pages newer ones
+    if (cursor) {
+      params.push(cursor.timestamp, cursor.id);
+      const comparison = cursor.direction === 'next' ? '<' : '>';
+      query += ` AND (timestamp, id) ${comparison} ($${params.length - 1}, $${params.length})`;
+    }
 
-    // Order by most recent first and limit
-    query += ` ORDER BY timestamp DESC LIMIT $${params.length + 1}`;
-    params.push(limit);
+    // Order by most recent first (nearest first for 'prev' pages) and fetch one
+    // extra row to tell whether another page exists
+    const order = cursor?.direction === 'prev' ? 'ASC' : 'DESC';
+    query += ` ORDER BY timestamp ${order}, id ${order} LIMIT $${params.length + 1}`;
+    params.push(limit + 1);
 
     const result = await db.query(query, params);
+    const page = paginate(result.rows, limit, cursor, (row) => ({ timestamp: row.timestamp, id: row.id }));
 
     // Transform to API response format
-    const trades = result.rows.map((row) => ({
+    const trades = page.data.map((row) => ({
       id: row.id,
       exchange: row.exchange,
       marketId: row.market_id,
-      price: row.price.toString(),
+      price: (normalize && row.yes_price !== null ? row.yes_price : row.price).toString(),
       quantity: row.quantity.toString(),
       side: row.side,
       timestamp: row.timestamp.toISOString(),
+      outcome: row.outcome || null,
+      takerSide: row.taker_side || null,
+      yesPrice: row.yes_price !== null ? row.yes_price.toString() : null,
+      noPrice: row.no_price !== null ? row.no_price.toString() : null,
       txHash: row.tx_hash || null,
+      maker: row.maker || null,
+      taker: row.taker || null,
+      fee: row.fee !== null ? row.fee.toString() : null,
+      blockNumber: row.block_number !== null ? Number(row.block_number) : null,
+      finalized: row.finalized,
     }));
 
-    return res.json({ data: trades });
+    return res.json({ data: trades, nextCursor: page.nextCursor, prevCursor: page.prevCursor });
   } catch (error) {
     console.error('[API] Error fetching trades:', error);
     return res.status(500).json({ error: 'Internal server error' });
@@ -108,7 +174,7 @@ router.get('/', async (req: Request<{}, {}, {}, GetTradesQuery>, res: Response)
  * Get latest trades across all markets
  * 
  * Query parameters:
- * - exchange: 'polymarket' | 'kalshi' (optional)
+ * - exchange: registered exchange id (optional)
  * - limit: number (default 50, max 200)
  */
 router.get('/latest', async (req: Request, res: Response) => {
@@ -123,12 +189,13 @@ router.get('/latest', async (req: Request, res: Response) => {
 
     // Build query
     let query = `
-      SELECT id, exchange, market_id, price, quantity, side, timestamp, tx_hash
+      SELECT id, exchange, market_id, price, quantity, side, timestamp, outcome, taker_side, yes_price, no_price,
+        tx_hash, maker, taker, fee, block_number, finalized
       FROM trades
     `;
     const params: any[] = [];
 
-    if (exchange && (exchange === 'polymarket' || exchange === 'kalshi')) {
+    if (typeof exchange === 'string' && exchangeRegistry.has(exchange)) {
       params.push(exchange);
       query += ` WHERE exchange = $${params.length}`;
     }
@@ -146,7 +213,16 @@ router.get('/latest', async (req: Request, res: Response) => {
       quantity: row.quantity.toString(),
       side: row.side,
       timestamp: row.timestamp.toISOString(),
+      outcome: row.outcome || null,
+      takerSide: row.taker_side || null,
+      yesPrice: row.yes_price !== null ? row.yes_price.toString() : null,
+      noPrice: row.no_price !== null ? row.no_price.toString() : null,
       txHash: row.tx_hash || null,
+      maker: row.maker || null,
+      taker: row.taker || null,
+      fee: row.fee !== null ? row.fee.toString() : null,
+      blockNumber: row.block_number !== null ? Number(row.block_number) : null,
+      finalized: row.finalized,
     }));
 
     return res.json({ data: trades });
@@ -156,72 +232,168 @@ router.get('/latest', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * List markets with trades, one entry per outcome token group
+ * Polymarket tokens that share a condition are merged into one question whose
+ * marketId is its yes token; markets without known siblings stand alone
+ */
+async function getMarketGroups(filters: string, params: any[]) {
+  const result = await db.query(
+    `
+      WITH per_market AS (
+        SELECT exchange, market_id,
+               COUNT(*) as trade_count,
+               COUNT(*) FILTER (WHERE timestamp >= $1) as trades_last_10min,
+               MIN(timestamp) as first_trade,
+               MAX(timestamp) as last_trade
+        FROM trades
+        ${filters}
+        GROUP BY exchange, market_id
+      )
+      SELECT p.exchange,
+             COALESCE(m.condition_id, p.market_id) as group_key,
+             ARRAY_AGG(p.market_id ORDER BY p.trade_count DESC) as market_ids,
+             SUM(p.trade_count) as trade_count,
+             SUM(p.trades_last_10min) as trades_last_10min,
+             MIN(p.first_trade) as first_trade,
+             MAX(p.last_trade) as last_trade
+      FROM per_market p
+      LEFT JOIN markets m ON m.exchange = p.exchange AND m.market_id = p.market_id
+      GROUP BY p.exchange, COALESCE(m.condition_id, p.market_id)
+      ORDER BY trades_last_10min DESC, trade_count DESC
+      LIMIT 100
+    `,
+    params
+  );
+
+  // Describe each group by its most traded token (no external calls)
+  const marketIdsByExchange = new Map<string, string[]>();
+  for (const row of result.rows) {
+    const marketIds = marketIdsByExchange.get(row.exchange) ?? [];
+    marketIds.push(row.market_ids[0]);
+    marketIdsByExchange.set(row.exchange, marketIds);
+  }
+
+  const detailsByExchange = new Map<string, Map<string, MarketDetails>>();
+  for (const [exchangeId, marketIds] of marketIdsByExchange) {
+    detailsByExchange.set(exchangeId, await marketCatalog.getDetails(exchangeId, marketIds));
+  }
+
+  return result.rows.map((row) => {
+    const details = detailsByExchange.get(row.exchange)?.get(row.market_ids[0]);
+    const outcomes = details ? toMarketOutcomes(details) : [];
+
+    return {
+      exchange: row.exchange,
+      marketId: outcomes[0]?.marketId ?? row.market_ids[0],
+      groupId: details?.conditionId ?? null,
+      // The question itself, without the outcome of the token that described it
+      title: details ? (details.subtitle ? `${details.title} (${details.subtitle})` : details.title) : null,
+      event: details?.eventTicker
+        ? { ticker: details.eventTicker, title: details.eventTitle ?? null }
+        : null,
+      outcomes,
+      ...toMarketLifecycle(details),
+      tradeCount: parseInt(row.trade_count, 10),
+      tradesLast10Min: parseInt(row.trades_last_10min || '0', 10),
+      firstTrade: row.first_trade.toISOString(),
+      lastTrade: row.last_trade.toISOString(),
+    };
+  });
+}
+
 /**
  * GET /trades/markets
  * 
  * Get list of available markets with trade data
  * 
  * Query parameters:
- * - exchange: 'polymarket' | 'kalshi' (optional)
+ * - exchange: registered exchange id (optional)
+ * - groupBy: 'token' | 'market' (default 'token'). 'market' merges the outcome
+ *   tokens of a Polymarket question into one entry with its outcomes listed
+ * - event: only markets of this event, e.g. a Kalshi event ticker or Polymarket event slug (optional)
+ * - status: 'open' | 'closed' | 'resolved' (optional)
+ *
+ * Each market carries its lifecycle: status, closeTime, and once resolved its
+ * result, settlementPrice and resolvedAt
  */
-router.get('/markets', async (req: Request, res: Response) => {
+router.get('/markets', async (req: Request<{}, {}, {}, GetMarketsQuery>, res: Response) => {
   try {
-    const { exchange } = req.query;
+    const { exchange, groupBy = 'token', event, status } = req.query;
+
+    if (groupBy !== 'token' && groupBy !== 'market') {
+      return res.status(400).json({
+        error: 'Invalid groupBy. Must be "token" or "market"',
+      });
+    }
+
+    if (status && !isMarketStatus(status)) {
+      return res.status(400).json({
+        error: `Invalid status. Must be one of: ${MARKET_STATUSES.map((s) => `"${s}"`).join(', ')}`,
+      });
+    }
 
     // Calculate trades in last 10 minutes
     const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-    
-    let query = `
-      SELECT DISTINCT exchange, market_id,
+    const params: any[] = [tenMinutesAgo];
+    const conditions: string[] = [];
+
+    if (typeof exchange === 'string' && exchangeRegistry.has(exchange)) {
+      params.push(exchange);
+      conditions.push(`exchange = $${params.length}`);
+    }
+    if (event) {
+      params.push(event);
+      conditions.push(`(exchange, market_id) IN (SELECT exchange, market_id FROM markets WHERE event_ticker = $${params.length})`);
+    }
+    if (status) {
+      params.push(status);
+      conditions.push(`(exchange, market_id) IN (SELECT exchange, market_id FROM markets WHERE status = $${params.length})`);
+    }
+    const filters = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    if (groupBy === 'market') {
+      return res.json({ data: await getMarketGroups(filters, params) });
+    }
+
+    const query = `
+      SELECT exchange, market_id,
              COUNT(*) as trade_count,
              COUNT(*) FILTER (WHERE timestamp >= $1) as trades_last_10min,
              MIN(timestamp) as first_trade,
              MAX(timestamp) as last_trade
       FROM trades
+      ${filters}
+      GROUP BY exchange, market_id ORDER BY trades_last_10min DESC, trade_count DESC LIMIT 100
     `;
-    const params: any[] = [tenMinutesAgo];
-    let paramIndex = 2;
-
-    if (exchange && (exchange === 'polymarket' || exchange === 'kalshi')) {
-      params.push(exchange);
-      query += ` WHERE exchange = $${paramIndex++}`;
-    }
-
-    query += ` GROUP BY exchange, market_id ORDER BY trades_last_10min DESC, trade_count DESC LIMIT 100`;
 
     const result = await db.query(query, params);
 
-    // Fetch market titles for Kalshi markets
-    const kalshiTickers = result.rows
-      .filter((row) => row.exchange === 'kalshi')
-      .map((row) => row.market_id);
-    
-    const kalshiTitles = kalshiTickers.length > 0 
-      ? await getKalshiMarketTitles(kalshiTickers)
-      : new Map<string, string>();
-
-    // Fetch market titles for Polymarket markets (using CLOB token IDs)
-    const polymarketTokenIds = result.rows
-      .filter((row) => row.exchange === 'polymarket')
-      .map((row) => row.market_id);
-    
-    const polymarketTitles = polymarketTokenIds.length > 0
-      ? await getPolymarketMarketTitles(polymarketTokenIds)
-      : new Map<string, string>();
+    // Look up stored market titles through each exchange's adapter (no external calls)
+    const marketIdsByExchange = new Map<string, string[]>();
+    for (const row of result.rows) {
+      const marketIds = marketIdsByExchange.get(row.exchange) ?? [];
+      marketIds.push(row.market_id);
+      marketIdsByExchange.set(row.exchange, marketIds);
+    }
+
+    const titlesByExchange = new Map<string, Map<string, string>>();
+    const detailsByExchange = new Map<string, Map<string, MarketDetails>>();
+    for (const [exchangeId, marketIds] of marketIdsByExchange) {
+      const adapter = exchangeRegistry.get(exchangeId);
+      titlesByExchange.set(exchangeId, adapter ? await adapter.getMarketTitles(marketIds) : new Map());
+      detailsByExchange.set(exchangeId, await marketCatalog.getDetails(exchangeId, marketIds));
+    }
 
     const markets = result.rows.map((row) => {
-      // Get title from cache/API, fallback to marketId if not found
-      let title: string | null = null;
-      if (row.exchange === 'kalshi') {
-        title = kalshiTitles.get(row.market_id) || null;
-      } else if (row.exchange === 'polymarket') {
-        title = polymarketTitles.get(row.market_id) || null;
-      }
+      // Get title from the market catalog, fallback to marketId if not cataloged yet
+      const title = titlesByExchange.get(row.exchange)?.get(row.market_id) || null;
 
       return {
         exchange: row.exchange,
         marketId: row.market_id,
         title, // null means "use marketId as display name"
+        ...toMarketLifecycle(detailsByExchange.get(row.exchange)?.get(row.market_id)),
         tradeCount: parseInt(row.trade_count, 10),
         tradesLast10Min: parseInt(row.trades_last_10min || '0', 10),
         firstTrade: row.first_trade.toISOString(),
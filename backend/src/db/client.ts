@@ -1,4 +1,4 @@
-import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { Pool, PoolClient, PoolConfig, QueryResultRow } from 'pg';
 import path from 'path';
 import dotenv from 'dotenv';
 
@@ -18,20 +18,29 @@ const isCloudDB = DATABASE_URL.includes('neon.tech') ||
 console.log('[DB] Connecting to:', DATABASE_URL.replace(/:[^:@]+@/, ':****@'));
 console.log('[DB] SSL enabled:', isCloudDB);
 
-const pool = new Pool({
-  connectionString: DATABASE_URL,
-  ssl: isCloudDB ? { rejectUnauthorized: false } : false,
-});
+/**
+ * A pool on the configured database, e.g. for work that must not hold
+ * connections of the shared pool
+ */
+export function createPool(config: PoolConfig = {}): Pool {
+  const created = new Pool({
+    connectionString: DATABASE_URL,
+    ssl: isCloudDB ? { rejectUnauthorized: false } : false,
+    ...config,
+  });
+  created.on('error', (err) => {
+    console.error('PostgreSQL pool error:', err);
+  });
+  return created;
+}
+
+const pool = createPool();
 
 // Test connection on startup
 pool.on('connect', () => {
   console.log('Connected to PostgreSQL');
 });
 
-pool.on('error', (err) => {
-  console.error('PostgreSQL pool error:', err);
-});
-
 export const db = {
   query: <T extends QueryResultRow = any>(text: string, params?: any[]) => pool.query<T>(text, params),
   getClient: (): Promise<PoolClient> => pool.connect(),
@@ -0,0 +1,7 @@
+-- Last fully processed block per on-chain indexer, used to resume without gaps
+
+CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+    indexer VARCHAR(50) PRIMARY KEY,
+    block_number BIGINT NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,11 @@
+-- Block tracking for on-chain trades so reorged blocks can be rolled back
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS block_number BIGINT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS block_hash VARCHAR(66);
+
+-- Off-chain trades are final as soon as they are indexed; on-chain trades
+-- are inserted unfinalized and marked final once they are deep enough
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS finalized BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_trades_block ON trades(exchange, block_number) WHERE block_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trades_unfinalized ON trades(exchange, block_number) WHERE NOT finalized;
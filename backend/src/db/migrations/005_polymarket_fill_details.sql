@@ -0,0 +1,14 @@
+-- Fill details for on-chain trades
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS log_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS order_hash VARCHAR(66);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS maker VARCHAR(42);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS taker VARCHAR(42);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS fee DECIMAL(20, 10);
+
+-- One transaction can fill several maker orders for the same token, so the
+-- log index is part of a trade's identity
+ALTER TABLE trades DROP CONSTRAINT IF EXISTS trades_exchange_market_id_timestamp_tx_hash_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trades_unique_fill ON trades(exchange, market_id, timestamp, tx_hash, log_index);
+
+CREATE INDEX IF NOT EXISTS idx_trades_order_hash ON trades(order_hash) WHERE order_hash IS NOT NULL;
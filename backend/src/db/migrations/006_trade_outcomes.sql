@@ -0,0 +1,17 @@
+-- Yes/no outcome semantics for trades
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS outcome VARCHAR(3);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS taker_side VARCHAR(4);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS yes_price DECIMAL(20, 10);
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS no_price DECIMAL(20, 10);
+
+-- Kalshi takers always buy the contract they name, and side/price were
+-- derived from it (buy = yes taker, price = yes price), so older rows can be filled in
+UPDATE trades
+SET outcome = CASE WHEN side = 'buy' THEN 'yes' ELSE 'no' END,
+    taker_side = 'buy',
+    yes_price = price,
+    no_price = 1 - price
+WHERE exchange = 'kalshi' AND outcome IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_outcome ON trades(exchange, market_id, outcome, timestamp DESC);
@@ -0,0 +1,36 @@
+-- Searchable catalog of every market with indexed trades
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS markets (
+    exchange VARCHAR(20) NOT NULL,
+    market_id VARCHAR(255) NOT NULL,
+    title TEXT,
+    subtitle TEXT,
+    category VARCHAR(100),
+    event_ticker VARCHAR(255),
+    outcome VARCHAR(100),
+    -- Titles rank above subtitles/outcomes, which rank above categories and ids
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(subtitle, '') || ' ' || coalesce(outcome, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(category, '') || ' ' || coalesce(event_ticker, '') || ' ' || market_id), 'C')
+    ) STORED,
+    -- NULL until metadata has been looked up
+    fetched_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (exchange, market_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_markets_search ON markets USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_markets_title_trgm ON markets USING GIN (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_markets_id_trgm ON markets USING GIN (market_id gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_markets_unfetched ON markets(created_at) WHERE fetched_at IS NULL;
+
+-- Seed the catalog from existing trades the first time; the market catalog
+-- service adds new markets as their first trades arrive
+INSERT INTO markets (exchange, market_id)
+SELECT DISTINCT exchange, market_id FROM trades
+WHERE NOT EXISTS (SELECT 1 FROM markets)
+ON CONFLICT DO NOTHING;
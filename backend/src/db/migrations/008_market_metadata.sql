@@ -0,0 +1,9 @@
+-- Market metadata kept in the catalog so titles survive restarts and API outages
+
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS status VARCHAR(20);
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS end_date TIMESTAMPTZ;
+-- Polymarket: the CTF condition and every outcome token of the question
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS condition_id VARCHAR(66);
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS token_ids TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_markets_condition ON markets(condition_id) WHERE condition_id IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Group outcome tokens into markets, and markets into events
+
+-- Outcome names in token order, e.g. {Yes,No} or {Up,Down}; token_ids[1] is the yes side
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS outcomes TEXT[];
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS event_title TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_markets_event ON markets(exchange, event_ticker) WHERE event_ticker IS NOT NULL;
@@ -0,0 +1,47 @@
+-- Market lifecycle: open, closed, resolved, and how a market settled
+
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS result VARCHAR(10);
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS settlement_price DECIMAL(20, 10);
+ALTER TABLE markets ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+-- Statuses were stored as reported by each exchange before this migration
+UPDATE markets SET status = CASE
+    WHEN status IN ('active', 'initialized', 'unopened') THEN 'open'
+    WHEN status IN ('determined', 'settled', 'finalized') THEN 'resolved'
+    ELSE 'closed'
+END
+WHERE status NOT IN ('open', 'closed', 'resolved');
+
+CREATE INDEX IF NOT EXISTS idx_markets_status ON markets(exchange, status);
+
+-- Every change of status or resolution, whether it came from an exchange API or the chain
+CREATE TABLE IF NOT EXISTS market_status_history (
+    id SERIAL PRIMARY KEY,
+    exchange VARCHAR(20) NOT NULL,
+    market_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20),
+    result VARCHAR(10),
+    settlement_price DECIMAL(20, 10),
+    changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_status_history_lookup ON market_status_history(exchange, market_id, changed_at);
+
+CREATE OR REPLACE FUNCTION record_market_status_change() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO market_status_history (exchange, market_id, status, result, settlement_price)
+    VALUES (NEW.exchange, NEW.market_id, NEW.status, NEW.result, NEW.settlement_price);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS markets_status_history ON markets;
+CREATE TRIGGER markets_status_history
+    AFTER UPDATE OF status, result, settlement_price ON markets
+    FOR EACH ROW
+    WHEN (
+        OLD.status IS DISTINCT FROM NEW.status
+        OR OLD.result IS DISTINCT FROM NEW.result
+        OR OLD.settlement_price IS DISTINCT FROM NEW.settlement_price
+    )
+    EXECUTE FUNCTION record_market_status_change();
@@ -0,0 +1,20 @@
+-- Equivalent markets on different exchanges, e.g. a Kalshi ticker and the
+-- Polymarket outcome token that pays out on the same event
+
+CREATE TABLE IF NOT EXISTS market_links (
+    id SERIAL PRIMARY KEY,
+    -- Legs are stored in a canonical order (lower exchange:marketId key first)
+    -- so a pair can only be linked once
+    exchange VARCHAR(20) NOT NULL,
+    market_id VARCHAR(255) NOT NULL,
+    linked_exchange VARCHAR(20) NOT NULL,
+    linked_market_id VARCHAR(255) NOT NULL,
+    -- The legs pay out on opposite outcomes, so one is compared as 1 - price
+    inverted BOOLEAN NOT NULL DEFAULT FALSE,
+    -- 'manual' for hand-curated links, 'suggested' for accepted title-similarity suggestions
+    source VARCHAR(20) NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (exchange, market_id, linked_exchange, linked_market_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_links_linked ON market_links(linked_exchange, linked_market_id);
@@ -0,0 +1,46 @@
+-- Alert rules evaluated against live trades, and every time one fired
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id SERIAL PRIMARY KEY,
+    exchange VARCHAR(20) NOT NULL,
+    market_id VARCHAR(255) NOT NULL,
+    -- 'price_cross' | 'price_change' | 'trade_size' | 'volume_spike'
+    type VARCHAR(20) NOT NULL,
+    -- price_cross: 'above' | 'below'; price_change: 'up' | 'down' | 'any'
+    direction VARCHAR(10),
+    -- Price level, percent move, trade size, or multiple of baseline volume, by type
+    threshold DECIMAL(20, 10) NOT NULL,
+    window_minutes INTEGER,
+    baseline_minutes INTEGER,
+    cooldown_seconds INTEGER NOT NULL DEFAULT 300,
+    -- Falls back to ALERT_WEBHOOK_URL when NULL
+    webhook_url TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    last_triggered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_market ON alert_rules(exchange, market_id);
+
+CREATE TABLE IF NOT EXISTS alert_history (
+    id SERIAL PRIMARY KEY,
+    rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    exchange VARCHAR(20) NOT NULL,
+    market_id VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL,
+    message TEXT NOT NULL,
+    -- Observed value that met the threshold
+    value DECIMAL(30, 10) NOT NULL,
+    trade_id INTEGER,
+    triggered_at TIMESTAMPTZ DEFAULT NOW(),
+    -- NULL when there is no webhook to deliver to
+    webhook_status VARCHAR(20),
+    webhook_attempts INTEGER NOT NULL DEFAULT 0,
+    webhook_error TEXT,
+    delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_rule ON alert_history(rule_id, triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_history_market ON alert_history(exchange, market_id, triggered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_history_pending ON alert_history(id) WHERE webhook_status = 'pending';
@@ -0,0 +1,29 @@
+-- API keys for authenticated access, stored hashed, and their daily usage
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    -- Leading characters of the key, to tell keys apart without storing them
+    key_prefix VARCHAR(16) NOT NULL,
+    -- SHA-256 of the key, hex encoded
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    -- Any of 'read', 'export', 'links', 'alerts', 'admin'
+    scopes TEXT[] NOT NULL DEFAULT '{read}',
+    rate_limit_per_minute INTEGER NOT NULL DEFAULT 600,
+    max_subscriptions INTEGER NOT NULL DEFAULT 100,
+    -- Requests per UTC day, NULL for no quota
+    daily_quota INTEGER,
+    revoked_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+    key_id INTEGER NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+    day DATE NOT NULL,
+    -- Requests and WebSocket connections let through
+    requests INTEGER NOT NULL DEFAULT 0,
+    -- Requests turned away by the rate limit or quota
+    rejected INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (key_id, day)
+);
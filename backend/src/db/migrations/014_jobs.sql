@@ -0,0 +1,24 @@
+-- Admin-launched background work (trade backfills, candle rebuilds) and its progress
+
+CREATE TABLE IF NOT EXISTS jobs (
+    id SERIAL PRIMARY KEY,
+    -- 'trade_backfill' | 'candle_rebuild'
+    type VARCHAR(20) NOT NULL,
+    -- 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',
+    exchange VARCHAR(20) NOT NULL,
+    -- Every market of the exchange when NULL (trade backfills only)
+    market_id VARCHAR(255),
+    -- Candle rebuilds without a range cover all of the market's trades
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    -- Trades ingested or candles rebuilt so far
+    processed INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_unfinished ON jobs(id) WHERE status IN ('queued', 'running');
@@ -0,0 +1,10 @@
+-- The 'write' scope covered both links and alerts. Keys holding it keep link
+-- changes only: alert webhooks need the separate 'alerts' scope.
+
+UPDATE api_keys
+SET scopes = array_append(array_remove(scopes, 'write'), 'links')
+WHERE 'write' = ANY(scopes) AND NOT 'links' = ANY(scopes);
+
+UPDATE api_keys
+SET scopes = array_remove(scopes, 'write')
+WHERE 'write' = ANY(scopes);
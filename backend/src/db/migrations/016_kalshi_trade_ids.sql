@@ -0,0 +1,13 @@
+-- A Kalshi trade is identified by its trade_id (stored in tx_hash) alone: the
+-- REST API and the WebSocket report its timestamp at different precisions, so
+-- the same trade could be stored once per source under the fill index.
+
+-- Keep the first copy of trades stored twice. Candles of the affected markets
+-- still count the removed copies until they are rebuilt (POST /admin/candles/rebuild).
+DELETE FROM trades t
+USING trades original
+WHERE t.exchange = 'kalshi' AND original.exchange = 'kalshi'
+  AND t.tx_hash = original.tx_hash
+  AND t.id > original.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trades_kalshi_trade_id ON trades(tx_hash) WHERE exchange = 'kalshi';
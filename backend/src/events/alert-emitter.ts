@@ -0,0 +1,10 @@
+import { EventEmitter } from 'events';
+import { AlertEvent } from '../types';
+
+class AlertEmitter extends EventEmitter {
+  emitAlert(alert: AlertEvent) {
+    this.emit('alert', alert);
+  }
+}
+
+export const alertEmitter = new AlertEmitter();
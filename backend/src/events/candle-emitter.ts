@@ -0,0 +1,16 @@
+import { EventEmitter } from 'events';
+import { Candle, CandleRebuild } from '../types';
+
+class CandleEmitter extends EventEmitter {
+  // Stored candles as they are after a write, e.g. a flushed batch of trades
+  emitCandles(candles: Candle[]) {
+    if (candles.length > 0) this.emit('candles', candles);
+  }
+
+  // Sent after the rebuilt candles themselves, once the rebuild is committed
+  emitRebuilt(rebuild: CandleRebuild) {
+    this.emit('rebuilt', rebuild);
+  }
+}
+
+export const candleEmitter = new CandleEmitter();
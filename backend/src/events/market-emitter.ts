@@ -0,0 +1,11 @@
+import { EventEmitter } from 'events';
+import { MarketKey } from '../types';
+
+class MarketEmitter extends EventEmitter {
+  // Markets that closed or resolved, so live state kept for them can be dropped
+  emitEnded(markets: MarketKey[]) {
+    if (markets.length > 0) this.emit('ended', markets);
+  }
+}
+
+export const marketEmitter = new MarketEmitter();
@@ -3,13 +3,26 @@ import cors from 'cors';
 import http from 'http';
 import dotenv from 'dotenv';
 import db from './db/client';
-import { kalshiIndexer } from './indexers/kalshi-indexer';
-import { polymarketIndexer } from './indexers/polymarket-indexer';
+import { exchangeRegistry } from './indexers';
 import { candleAggregator } from './services/candle-aggregator';
 import { performanceTracker } from './services/performance-tracker';
+import { ingestionQueue } from './services/ingestion-queue';
+import { marketCatalog } from './services/market-catalog';
+import { alertEngine } from './services/alert-engine';
+import { candleStream } from './services/candle-stream';
+import { accessControl } from './services/access-control';
+import { jobRunner } from './services/job-runner';
 import { tradeWebSocketServer } from './websocket/server';
 import candlesRouter from './api/routes/candles';
 import tradesRouter from './api/routes/trades';
+import exportRouter from './api/routes/export';
+import marketsRouter from './api/routes/markets';
+import linksRouter from './api/routes/links';
+import compareRouter from './api/routes/compare';
+import alertsRouter from './api/routes/alerts';
+import keysRouter from './api/routes/keys';
+import adminRouter from './api/routes/admin';
+import { requireApiAccess } from './api/auth';
 
 dotenv.config();
 
@@ -29,16 +42,16 @@ app.use(cors({
     // Allow requests with no origin (like mobile apps or curl requests)
     if (!origin) return callback(null, true);
     
-    if (allowedOrigins.includes(origin)) {
-      callback(null, true);
-    } else {
-      callback(null, true); // Allow all origins in development
-    }
+    // Other origins get no CORS headers, so browsers block their requests
+    callback(null, allowedOrigins.includes(origin));
   },
   credentials: true,
 }));
 app.use(express.json());
 
+// API keys: scopes, rate limits and quotas (anonymous GETs under PUBLIC_PATHS)
+app.use(requireApiAccess);
+
 // Health check
 app.get('/health', async (req, res) => {
   try {
@@ -52,6 +65,25 @@ app.get('/health', async (req, res) => {
 // API Routes
 app.use('/candles', candlesRouter);
 app.use('/trades', tradesRouter);
+app.use('/export', exportRouter);
+app.use('/markets', marketsRouter);
+app.use('/links', linksRouter);
+app.use('/compare', compareRouter);
+app.use('/alerts', alertsRouter);
+app.use('/keys', keysRouter);
+app.use('/admin', adminRouter);
+
+// Registered exchanges and their connection health
+app.get('/exchanges', (req, res) => {
+  const exchanges = exchangeRegistry.list().map((adapter) => ({
+    id: adapter.id,
+    name: adapter.name,
+    feeds: adapter.feeds ?? null,
+    paused: exchangeRegistry.isPaused(adapter.id),
+    health: adapter.getHealth(),
+  }));
+  res.json({ data: exchanges });
+});
 
 // WebSocket stats endpoint
 app.get('/ws/stats', (req, res) => {
@@ -61,8 +93,11 @@ app.get('/ws/stats', (req, res) => {
 // Performance stats endpoint
 app.get('/stats', async (req, res) => {
   try {
-    const stats = await performanceTracker.getStats();
-    res.json(stats);
+    const stats = await performanceTracker.getStats(exchangeRegistry.ids());
+    const health = Object.fromEntries(
+      exchangeRegistry.list().map((adapter) => [adapter.id, adapter.getHealth()])
+    );
+    res.json({ ...stats, health });
   } catch (error) {
     console.error('[API] Error fetching stats:', error);
     res.status(500).json({ error: 'Failed to fetch stats' });
@@ -71,7 +106,7 @@ app.get('/stats', async (req, res) => {
 
 // Quick stats for header display
 app.get('/stats/quick', (req, res) => {
-  res.json(performanceTracker.getQuickStats());
+  res.json(performanceTracker.getQuickStats(exchangeRegistry.ids()));
 });
 
 // Initialize WebSocket server
@@ -82,23 +117,52 @@ server.listen(PORT, async () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`WebSocket available at ws://localhost:${PORT}/ws`);
   
-  // Start candle aggregator first (listens for trade events)
+  // Count API key usage and write it to the database
+  accessControl.start();
+
+  // Start candle aggregator first (rebuilds candles for removed trades)
   candleAggregator.start();
+
+  // Stream live bars to candle channel subscribers
+  candleStream.start();
   
   // Backfill candles from existing trades
   await candleAggregator.backfillCandles();
   
-  // Start indexers (emit trade events)
-  kalshiIndexer.start();
-  polymarketIndexer.start();
+  // Catalog markets for search as their trades arrive
+  marketCatalog.start();
+
+  // Evaluate alert rules on trades as they are ingested
+  await alertEngine.start().catch((error) => {
+    console.error('Failed to start alert engine:', error);
+  });
+
+  // Run backfills and candle rebuilds queued through the admin API
+  await jobRunner.start().catch((error) => {
+    console.error('Failed to start job runner:', error);
+  });
+
+  // Start every registered exchange adapter (trades are queued for batched ingestion)
+  exchangeRegistry.startAll();
 });
 
 // Graceful shutdown
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.log('Shutting down...');
-  kalshiIndexer.stop();
-  polymarketIndexer.stop();
+  exchangeRegistry.stopAll();
+  jobRunner.stop();
+  // Write any trades still waiting in the ingestion queue
+  await ingestionQueue.flush().catch((error) => {
+    console.error('Failed to flush ingestion queue:', error);
+  });
   candleAggregator.stop();
+  candleStream.stop();
+  marketCatalog.stop();
+  alertEngine.stop();
+  // Record API key usage counted since the last flush
+  await accessControl.stop().catch((error) => {
+    console.error('Failed to record API key usage:', error);
+  });
   server.close();
   process.exit(0);
 });
@@ -0,0 +1,71 @@
+import { Exchange, MarketDetails } from '../types';
+
+/**
+ * Exchange Adapter contract
+ *
+ * Every venue the backend indexes implements this interface and is registered
+ * with the exchange registry. The server lifecycle, API routes, WebSocket
+ * server and /stats only talk to venues through it.
+ */
+
+export type ExchangeStatus = 'stopped' | 'connecting' | 'backfilling' | 'connected' | 'disconnected';
+
+export interface ExchangeHealth {
+  status: ExchangeStatus;
+  lastMessageAt: string | null; // Last message received from the venue
+  details?: Record<string, unknown>;
+}
+
+export interface BackfillRequest {
+  marketId?: string; // All markets when omitted
+  start: Date;
+  end: Date;
+  // Aborted to stop early; the trades ingested so far are kept
+  signal?: AbortSignal;
+  // Called with the running count of trades ingested, e.g. after each page
+  onProgress?: (ingested: number) => void;
+}
+
+export interface BackfillResult {
+  ingested: number;
+  // Stopped before reaching the start of the range, e.g. at a page limit;
+  // trades older than those fetched were not ingested
+  truncated: boolean;
+}
+
+export interface ExchangeAdapter {
+  // Value stored in trades.exchange and used in API parameters
+  readonly id: Exchange;
+  // Human-readable name for clients
+  readonly name: string;
+  // Exchanges whose ingestion paths this adapter drives instead of producing
+  // trades of its own (e.g. replay); such adapters have no markets
+  readonly feeds?: Exchange[];
+
+  start(): Promise<void>;
+  stop(): void;
+
+  /**
+   * Ingest historical trades for a time range
+   * Returns the number of trades ingested, also when stopped early by the
+   * request's signal, and whether part of the range was left unfetched.
+   * Omitted by venues that can only resume from their own checkpoint.
+   */
+  backfill?(request: BackfillRequest): Promise<BackfillResult>;
+
+  /**
+   * Look up display titles for market ids; unknown ids are left out of the map
+   * Called while serving API requests, so it should read stored metadata
+   * rather than call the venue.
+   */
+  getMarketTitles(marketIds: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Fetch catalog metadata (title, subtitle, category, event, outcome, status)
+   * for market ids from the venue. Called by the market catalog's background
+   * refresher; venues without it are cataloged with their titles only.
+   */
+  getMarketDetails?(marketIds: string[]): Promise<Map<string, MarketDetails>>;
+
+  getHealth(): ExchangeHealth;
+}
@@ -0,0 +1,16 @@
+import { exchangeRegistry } from './registry';
+import { kalshiIndexer } from './kalshi-indexer';
+import { polymarketIndexer } from './polymarket-indexer';
+import { createReplayAdapterFromEnv } from './replay-adapter';
+
+// Every indexed venue is registered here
+exchangeRegistry.register(kalshiIndexer);
+exchangeRegistry.register(polymarketIndexer);
+
+// Replay mode (REPLAY_SOURCE) feeds recorded or synthetic data through the indexers above
+const replayAdapter = createReplayAdapterFromEnv();
+if (replayAdapter) {
+  exchangeRegistry.register(replayAdapter);
+}
+
+export { exchangeRegistry };
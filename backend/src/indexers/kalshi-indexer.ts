@@ -1,12 +1,24 @@
 import WebSocket from 'ws';
 import db from '../db/client';
-import { Trade } from '../types';
-import { tradeEmitter } from '../events/trade-emitter';
-import { performanceTracker } from '../services/performance-tracker';
+import { MarketDetails, Trade } from '../types';
+import { ingestionQueue } from '../services/ingestion-queue';
+import { candleAggregator } from '../services/candle-aggregator';
+import { fetchKalshiTrades, KalshiTrade } from '../services/kalshi-api';
+import { getKalshiMarketDetails, getKalshiMarketTitles } from '../services/market-metadata';
+import { BackfillRequest, BackfillResult, ExchangeAdapter, ExchangeHealth } from './exchange-adapter';
 
 const KALSHI_WS_URL = 'wss://a.prediction-markets-api.dflow.net/api/v1/ws';
 const DFLOW_API_KEY = process.env.DFLOW_API_KEY || '';
 
+// Gap fills start this far before the last seen trade, so trades sharing its second are not missed
+const GAP_OVERLAP_MS = 5000;
+
+// Gap fills never reach further back than this; older ranges need the backfill command
+const MAX_GAP_MS = parseInt(process.env.KALSHI_MAX_GAP_HOURS || '24', 10) * 60 * 60 * 1000;
+
+// Upper bound on REST pages (of up to 1000 trades) fetched per backfill
+const MAX_BACKFILL_PAGES = parseInt(process.env.KALSHI_MAX_BACKFILL_PAGES || '500', 10);
+
 interface KalshiTradeMessage {
     channel: 'trades';
     type: 'trade';
@@ -22,18 +34,28 @@ interface KalshiTradeMessage {
     created_time: number;
 }
 
-class KalshiIndexer {
+class KalshiIndexer implements ExchangeAdapter {
+    readonly id = 'kalshi';
+    readonly name = 'Kalshi';
     private ws: WebSocket | null = null;
     private reconnectTimeout: NodeJS.Timeout | null = null;
     private isRunning = false;
+    // Newest trade seen from either source; gap fills resume from here
+    private lastSeenTrade: { createdTime: number; tradeId: string } | null = null;
+    // Live messages held back while a gap fill runs, so they apply after the older trades
+    private liveBuffer: KalshiTradeMessage[] | null = null;
+    // trade_ids the REST pages of a running gap fill returned, so buffered live copies are skipped
+    private gapTradeIds: Set<string> | null = null;
+    private lastMessageAt: Date | null = null;
 
-    start() {
+    async start() {
         if (this.isRunning) {
             console.log('[Kalshi] Indexer already running');
             return;
         }
 
         this.isRunning = true;
+        await this.loadLastSeenTrade();
         this.connect();
     }
 
@@ -50,6 +72,33 @@ class KalshiIndexer {
         console.log('[Kalshi] Indexer stopped');
     }
 
+    async getMarketTitles(marketIds: string[]): Promise<Map<string, string>> {
+        return getKalshiMarketTitles(marketIds);
+    }
+
+    async getMarketDetails(marketIds: string[]): Promise<Map<string, MarketDetails>> {
+        return getKalshiMarketDetails(marketIds);
+    }
+
+    getHealth(): ExchangeHealth {
+        let status: ExchangeHealth['status'] = 'disconnected';
+        if (!this.isRunning) {
+            status = 'stopped';
+        } else if (this.ws?.readyState === WebSocket.CONNECTING) {
+            status = 'connecting';
+        } else if (this.ws?.readyState === WebSocket.OPEN) {
+            status = this.liveBuffer ? 'backfilling' : 'connected';
+        }
+
+        return {
+            status,
+            lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+            details: {
+                lastSeenTradeId: this.lastSeenTrade?.tradeId ?? null,
+            },
+        };
+    }
+
     private connect() {
         if (!DFLOW_API_KEY) {
             console.error('[Kalshi] DFLOW_API_KEY not set. Skipping connection.');
@@ -58,18 +107,24 @@ class KalshiIndexer {
 
         console.log('[Kalshi] Connecting to WebSocket...');
 
-        this.ws = new WebSocket(KALSHI_WS_URL, {
+        const ws = new WebSocket(KALSHI_WS_URL, {
             headers: {
                 'x-api-key': DFLOW_API_KEY,
             },
         });
+        this.ws = ws;
 
-        this.ws.on('open', () => {
+        // A socket replaced by stop() or a reconnect may still fire events; only the current one counts
+        ws.on('open', () => {
+            if (ws !== this.ws) return;
             console.log('[Kalshi] WebSocket connected');
             this.subscribe();
+            this.fillGap();
         });
 
-        this.ws.on('message', (data: WebSocket.Data) => {
+        ws.on('message', (data: WebSocket.Data) => {
+            if (ws !== this.ws) return;
+            this.lastMessageAt = new Date();
             try {
                 const message = JSON.parse(data.toString());
                 this.handleMessage(message);
@@ -78,12 +133,13 @@ class KalshiIndexer {
             }
         });
 
-        this.ws.on('close', () => {
+        ws.on('close', () => {
+            if (ws !== this.ws) return;
             console.log('[Kalshi] WebSocket disconnected');
             this.scheduleReconnect();
         });
 
-        this.ws.on('error', (error) => {
+        ws.on('error', (error) => {
             console.error('[Kalshi] WebSocket error:', error);
         });
     }
@@ -109,10 +165,182 @@ class KalshiIndexer {
         }
 
         const tradeMsg = message as KalshiTradeMessage;
+        if (this.liveBuffer) {
+            this.liveBuffer.push(tradeMsg);
+            return;
+        }
         this.processTrade(tradeMsg);
     }
 
-    private async processTrade(msg: KalshiTradeMessage) {
+    /**
+     * Feed a recorded WebSocket frame through the live trade path
+     * Used by the replay adapter; resolves once the trade is queued
+     */
+    async replayFrame(message: any) {
+        if (message.channel !== 'trades' || message.type !== 'trade') {
+            return;
+        }
+        this.lastMessageAt = new Date();
+        await this.processTrade(message as KalshiTradeMessage);
+    }
+
+    /**
+     * Load the newest stored Kalshi trade so the first connection also fills
+     * the gap left while the indexer was down
+     */
+    private async loadLastSeenTrade() {
+        try {
+            const result = await db.query(`
+                SELECT tx_hash, timestamp FROM trades
+                WHERE exchange = 'kalshi'
+                ORDER BY timestamp DESC
+                LIMIT 1
+            `);
+            if (result.rows.length > 0) {
+                this.lastSeenTrade = {
+                    createdTime: new Date(result.rows[0].timestamp).getTime(),
+                    tradeId: result.rows[0].tx_hash,
+                };
+            }
+        } catch (error) {
+            console.error('[Kalshi] Failed to load last seen trade:', error);
+        }
+    }
+
+    /**
+     * Fetch trades missed since the last seen trade over REST, holding live
+     * trades back until the gap is filled
+     */
+    private async fillGap() {
+        if (!this.lastSeenTrade || this.liveBuffer) return;
+
+        this.liveBuffer = [];
+        this.gapTradeIds = new Set();
+        const start = new Date(Math.max(
+            this.lastSeenTrade.createdTime - GAP_OVERLAP_MS,
+            Date.now() - MAX_GAP_MS
+        ));
+        console.log(`[Kalshi] Filling gap since ${start.toISOString()} (last trade ${this.lastSeenTrade.tradeId})`);
+
+        try {
+            const { ingested, truncated } = await this.backfill({ start, end: new Date() });
+            console.log(`[Kalshi] ✅ Gap filled with ${ingested} missed trade(s)${truncated ? ', older trades skipped' : ''}`);
+        } catch (error) {
+            console.error('[Kalshi] ❌ Gap fill failed:', error);
+        } finally {
+            const buffered = this.liveBuffer;
+            const restTradeIds = this.gapTradeIds;
+            this.liveBuffer = null;
+            this.gapTradeIds = null;
+            for (const msg of buffered) {
+                if (restTradeIds.has(msg.trade_id)) continue;
+                this.processTrade(msg);
+            }
+        }
+    }
+
+    /**
+     * Fetch trades from the REST API and ingest those not already stored
+     * Candles of the affected markets are rebuilt afterwards, since REST pages
+     * arrive newest first. An aborted signal stops it between pages; the trades
+     * already ingested keep their candles. It is truncated when the range has
+     * more than MAX_BACKFILL_PAGES pages: the oldest trades are not fetched.
+     */
+    async backfill({ marketId, start, end, signal, onProgress }: BackfillRequest): Promise<BackfillResult> {
+        // Time range of the ingested trades per market, for the candle rebuild
+        const touched = new Map<string, { start: Date; end: Date }>();
+        let cursor: string | undefined;
+        let pages = 0;
+        let count = 0;
+
+        do {
+            const page = await fetchKalshiTrades({
+                ticker: marketId,
+                minTs: Math.floor(start.getTime() / 1000),
+                maxTs: Math.ceil(end.getTime() / 1000),
+                cursor,
+            });
+            if (!page) {
+                throw new Error('Failed to fetch trades from Kalshi API');
+            }
+
+            for (const restTrade of page.trades) {
+                this.gapTradeIds?.add(restTrade.trade_id);
+            }
+
+            // Live trades still queued count as stored; the trade_id index catches any that arrive later
+            await ingestionQueue.flush();
+            const missing = await this.filterStoredTrades(page.trades);
+            for (const restTrade of missing) {
+                const trade = await this.processTrade(this.fromRestTrade(restTrade), false);
+                if (!trade) continue;
+
+                const range = touched.get(trade.marketId);
+                if (!range) {
+                    touched.set(trade.marketId, { start: trade.timestamp, end: trade.timestamp });
+                } else {
+                    if (trade.timestamp < range.start) range.start = trade.timestamp;
+                    if (trade.timestamp > range.end) range.end = trade.timestamp;
+                }
+                count++;
+            }
+
+            cursor = page.cursor || undefined;
+            pages++;
+            onProgress?.(count);
+        } while (cursor && pages < MAX_BACKFILL_PAGES && !signal?.aborted);
+
+        const truncated = !signal?.aborted && cursor !== undefined;
+        if (signal?.aborted) {
+            console.log(`[Kalshi] Backfill cancelled after ${pages} pages`);
+        } else if (truncated) {
+            console.warn(`[Kalshi] Backfill stopped after ${pages} pages; older trades in range were not fetched`);
+        }
+
+        await ingestionQueue.flush();
+
+        for (const [marketId, range] of touched) {
+            await candleAggregator.rebuildCandles('kalshi', marketId, range.start, range.end);
+        }
+
+        return { ingested: count, truncated };
+    }
+
+    /**
+     * Drop REST trades whose trade_id is already stored
+     * Matched on trade_id alone, as REST and WebSocket timestamps may differ in
+     * precision; trade_id is also the unique key Kalshi trades are inserted on
+     */
+    private async filterStoredTrades(trades: KalshiTrade[]): Promise<KalshiTrade[]> {
+        if (trades.length === 0) return [];
+
+        const result = await db.query(
+            `SELECT tx_hash FROM trades WHERE exchange = 'kalshi' AND tx_hash = ANY($1)`,
+            [trades.map((trade) => trade.trade_id)]
+        );
+        const stored = new Set(result.rows.map((row) => row.tx_hash));
+
+        return trades.filter((trade) => !stored.has(trade.trade_id));
+    }
+
+    private fromRestTrade(trade: KalshiTrade): KalshiTradeMessage {
+        return {
+            channel: 'trades',
+            type: 'trade',
+            market_ticker: trade.ticker,
+            trade_id: trade.trade_id,
+            price: trade.yes_price,
+            count: trade.count,
+            yes_price: trade.yes_price,
+            no_price: trade.no_price,
+            yes_price_dollars: trade.yes_price_dollars ?? (trade.yes_price / 100).toFixed(4),
+            no_price_dollars: trade.no_price_dollars ?? (trade.no_price / 100).toFixed(4),
+            taker_side: trade.taker_side,
+            created_time: new Date(trade.created_time).getTime(),
+        };
+    }
+
+    private async processTrade(msg: KalshiTradeMessage, live = true): Promise<Trade | null> {
         // Map taker_side to buy/sell
         // "yes" taker means someone bought yes contracts
         // "no" taker means someone bought no contracts (effectively selling yes)
@@ -131,48 +359,38 @@ class KalshiIndexer {
             quantity: msg.count.toString(),
             side,
             timestamp: new Date(timestampMs),
+            // Kalshi takers always buy the contract named by taker_side
+            outcome: msg.taker_side,
+            takerSide: 'buy',
+            yesPrice: msg.yes_price_dollars,
+            noPrice: msg.no_price_dollars,
             txHash: msg.trade_id, // Using trade_id as unique identifier
         };
 
-        try {
-            const indexedAt = new Date();
-            await this.insertTrade(trade);
+        if (!this.lastSeenTrade || timestampMs >= this.lastSeenTrade.createdTime) {
+            this.lastSeenTrade = { createdTime: timestampMs, tradeId: msg.trade_id };
+        }
 
-            // Track performance metrics
-            performanceTracker.recordTrade('kalshi', trade.timestamp, indexedAt);
+        try {
+            await ingestionQueue.push(trade);
 
             // Log the trade
-            console.log(`📊 [Kalshi] Trade: ${trade.side.toUpperCase()} ${trade.quantity} @ $${trade.price} | ${trade.marketId}`);
-            // Emit trade for WebSocket broadcasting
-            tradeEmitter.emit('trade', trade);
+            if (live) {
+                console.log(`📊 [Kalshi] Trade: ${trade.side.toUpperCase()} ${trade.quantity} @ $${trade.price} | ${trade.marketId}`);
+            }
+            return trade;
         } catch (error) {
-            console.error('[Kalshi] ❌ Failed to insert trade:', error, trade);
+            console.error('[Kalshi] ❌ Failed to queue trade:', error, trade);
+            return null;
         }
     }
 
-    private async insertTrade(trade: Trade) {
-        const query = `
-      INSERT INTO trades (exchange, market_id, price, quantity, side, timestamp, tx_hash)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      ON CONFLICT (exchange, market_id, timestamp, tx_hash) DO NOTHING
-    `;
-
-        await db.query(query, [
-            trade.exchange,
-            trade.marketId,
-            trade.price,
-            trade.quantity,
-            trade.side,
-            trade.timestamp,
-            trade.txHash,
-        ]);
-    }
-
     private scheduleReconnect() {
-        if (!this.isRunning) return;
+        if (!this.isRunning || this.reconnectTimeout) return;
 
         console.log('[Kalshi] Scheduling reconnect in 5 seconds...');
         this.reconnectTimeout = setTimeout(() => {
+            this.reconnectTimeout = null;
             this.connect();
         }, 5000);
     }
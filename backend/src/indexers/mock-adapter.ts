@@ -0,0 +1,69 @@
+import { Exchange, Trade } from '../types';
+import { ingestionQueue } from '../services/ingestion-queue';
+import { BackfillRequest, BackfillResult, ExchangeAdapter, ExchangeHealth } from './exchange-adapter';
+
+interface MockAdapterOptions {
+  id?: Exchange;
+  name?: string;
+  titles?: Record<string, string>; // marketId -> title
+}
+
+/**
+ * Mock Exchange Adapter
+ * An in-process venue for tests: trades are injected with emitTrade and go
+ * through the real ingestion queue, and backfill requests are recorded
+ */
+export class MockExchangeAdapter implements ExchangeAdapter {
+  readonly id: Exchange;
+  readonly name: string;
+  readonly backfillRequests: BackfillRequest[] = [];
+  private titles: Map<string, string>;
+  private isRunning = false;
+  private lastMessageAt: Date | null = null;
+
+  constructor(options: MockAdapterOptions = {}) {
+    this.id = options.id ?? 'mock';
+    this.name = options.name ?? 'Mock Exchange';
+    this.titles = new Map(Object.entries(options.titles ?? {}));
+  }
+
+  async start() {
+    this.isRunning = true;
+  }
+
+  stop() {
+    this.isRunning = false;
+  }
+
+  /**
+   * Queue a trade as if the venue had reported it
+   */
+  async emitTrade(trade: Omit<Trade, 'exchange'>): Promise<Trade> {
+    const mockTrade: Trade = { ...trade, exchange: this.id };
+    this.lastMessageAt = new Date();
+    await ingestionQueue.push(mockTrade);
+    return mockTrade;
+  }
+
+  async backfill(request: BackfillRequest): Promise<BackfillResult> {
+    this.backfillRequests.push(request);
+    request.onProgress?.(0);
+    return { ingested: 0, truncated: false };
+  }
+
+  async getMarketTitles(marketIds: string[]): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+    for (const marketId of marketIds) {
+      const title = this.titles.get(marketId);
+      if (title) results.set(marketId, title);
+    }
+    return results;
+  }
+
+  getHealth(): ExchangeHealth {
+    return {
+      status: this.isRunning ? 'connected' : 'stopped',
+      lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+    };
+  }
+}
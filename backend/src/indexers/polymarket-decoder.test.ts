@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { decodeEventLog } from 'viem';
+import {
+  CTF_EXCHANGE_ABI,
+  CTF_EXCHANGE_ADDRESS,
+  DecodedFill,
+  OrderFilledArgs,
+  decodeOrderFilled,
+  isMatchedTakerFill,
+} from './polymarket-decoder';
+
+/**
+ * Exchange logs in the replay recording format (see replay-adapter.ts). They
+ * are synthesized, not mined: encoded against the deployed CTF Exchange ABI and
+ * address, with made-up orders, accounts and hashes. Mined logs captured with
+ * `npm run capture:polymarket` should replace them, with the expected values
+ * below updated to match.
+ *
+ * - tx 0x1a..: one fill, the maker selling YES tokens for collateral, with a fee
+ * - tx 0x2b..: one fill, the maker paying collateral for NO tokens, with a fee
+ * - tx 0x3c..: a taker order matched against two maker orders: two maker
+ *   OrderFilled, the taker order's OrderFilled and OrdersMatched
+ */
+const FIXTURE = path.join(__dirname, 'fixtures', 'polymarket-order-fills.ndjson');
+
+const YES_TOKEN = '21742633143463906290569050155826241533067272736897614950488156847949938836455';
+const NO_TOKEN = '48331043336612883890938759509493159234755048973500640148014422747788308965732';
+const MAKER_A = '0x9d84ce0306f8551e02efef1680475fc0f1dc1344';
+const MAKER_B = '0x2e4a3c0ad8f1a6b3c26e2f0e0ad4c8b1f0f5a9d2';
+const TAKER = '0x7c3db723f1d4d8cb9c550095203b686cb11e5c6b';
+
+interface RecordedEvent {
+  transactionHash: string;
+  eventName: 'OrderFilled' | 'OrdersMatched';
+  args: unknown;
+}
+
+function loadRecordedEvents(): RecordedEvent[] {
+  return fs
+    .readFileSync(FIXTURE, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const { log } = JSON.parse(line);
+      const decoded = decodeEventLog({ abi: CTF_EXCHANGE_ABI, data: log.data, topics: log.topics });
+      return { transactionHash: log.transactionHash, eventName: decoded.eventName, args: decoded.args };
+    });
+}
+
+// Trades the indexer records for a transaction: its OrderFilled events that decode to a fill
+function getFills(transactionPrefix: string): DecodedFill[] {
+  return loadRecordedEvents()
+    .filter((event) => event.transactionHash.startsWith(transactionPrefix) && event.eventName === 'OrderFilled')
+    .map((event) => decodeOrderFilled(event.args as OrderFilledArgs))
+    .filter((fill): fill is DecodedFill => fill !== null);
+}
+
+test('maker selling outcome tokens for collateral is a taker buy', () => {
+  const fills = getFills('0x1a');
+
+  assert.equal(fills.length, 1);
+  assert.deepEqual(fills[0], {
+    tokenId: YES_TOKEN,
+    price: '0.6200',
+    quantity: '100',
+    side: 'buy',
+    fee: '0.5',
+    maker: MAKER_A,
+    taker: TAKER,
+    orderHash: `0x${'a1'.repeat(32)}`,
+  });
+});
+
+test('maker paying collateral for outcome tokens is a taker sell', () => {
+  const fills = getFills('0x2b');
+
+  assert.equal(fills.length, 1);
+  assert.equal(fills[0].tokenId, NO_TOKEN);
+  assert.equal(fills[0].price, '0.4500');
+  assert.equal(fills[0].quantity, '100');
+  assert.equal(fills[0].side, 'sell');
+  assert.equal(fills[0].fee, '0.1');
+  assert.equal(fills[0].maker, MAKER_B);
+  assert.equal(fills[0].taker, TAKER);
+});
+
+test('a matched taker order is counted once, through its maker fills', () => {
+  const events = loadRecordedEvents().filter((event) => event.transactionHash.startsWith('0x3c'));
+  const takerFill = events.find(
+    (event) => event.eventName === 'OrderFilled' && isMatchedTakerFill(event.args as OrderFilledArgs)
+  );
+  assert.ok(takerFill, 'fixture has the taker order fill');
+  assert.equal(decodeOrderFilled(takerFill.args as OrderFilledArgs), null);
+
+  const fills = getFills('0x3c');
+  assert.deepEqual(fills.map((fill) => fill.maker), [MAKER_A, MAKER_B]);
+  assert.ok(fills.every((fill) => fill.taker === TAKER && fill.side === 'buy' && fill.price === '0.6000'));
+
+  // 150 tokens changed hands, as OrdersMatched reports, not 300
+  const quantity = fills.reduce((sum, fill) => sum + parseFloat(fill.quantity), 0);
+  assert.equal(quantity, 150);
+  const matched = events.find((event) => event.eventName === 'OrdersMatched');
+  assert.equal((matched?.args as { takerAmountFilled: bigint }).takerAmountFilled, 150_000000n);
+});
+
+test('fills that do not swap collateral for an outcome token are skipped', () => {
+  const base: OrderFilledArgs = {
+    orderHash: `0x${'d4'.repeat(32)}`,
+    maker: MAKER_A,
+    taker: TAKER,
+    makerAssetId: 0n,
+    takerAssetId: 0n,
+    makerAmountFilled: 1_000000n,
+    takerAmountFilled: 1_000000n,
+    fee: 0n,
+  };
+
+  // Collateral on both sides, outcome tokens on both sides, or no outcome tokens filled
+  assert.equal(decodeOrderFilled(base), null);
+  assert.equal(decodeOrderFilled({ ...base, makerAssetId: BigInt(YES_TOKEN), takerAssetId: BigInt(NO_TOKEN) }), null);
+  assert.equal(decodeOrderFilled({ ...base, takerAssetId: BigInt(YES_TOKEN), takerAmountFilled: 0n }), null);
+});
+
+test('matched taker fills are recognized whatever the address case', () => {
+  assert.equal(
+    isMatchedTakerFill({
+      orderHash: `0x${'e5'.repeat(32)}`,
+      maker: TAKER,
+      taker: CTF_EXCHANGE_ADDRESS.toLowerCase() as `0x${string}`,
+      makerAssetId: 0n,
+      takerAssetId: BigInt(YES_TOKEN),
+      makerAmountFilled: 1n,
+      takerAmountFilled: 1n,
+      fee: 0n,
+    }),
+    true
+  );
+});
@@ -0,0 +1,191 @@
+import { formatUnits } from 'viem';
+import { Outcome, Side } from '../types';
+
+/**
+ * Polymarket CTF Exchange event decoding
+ *
+ * Pure mapping from decoded exchange events to trade fields, kept free of
+ * RPC and database access so it can be exercised against recorded logs.
+ */
+
+// Polymarket CTF Exchange contract address on Polygon
+export const CTF_EXCHANGE_ADDRESS = '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E' as const;
+
+// Gnosis Conditional Tokens contract on Polygon, where Polymarket questions are resolved
+export const CONDITIONAL_TOKENS_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045' as const;
+
+// The exchange represents collateral (USDC.e) as asset id 0; any other id is an outcome token
+export const COLLATERAL_ASSET_ID = 0n;
+
+// Both USDC.e and outcome tokens use 6 decimals on Polymarket
+const TOKEN_DECIMALS = 6;
+
+// Full ABI for decoding
+export const CTF_EXCHANGE_ABI = [
+  {
+    type: 'event',
+    name: 'OrderFilled',
+    inputs: [
+      { name: 'orderHash', type: 'bytes32', indexed: true },
+      { name: 'maker', type: 'address', indexed: true },
+      { name: 'taker', type: 'address', indexed: true },
+      { name: 'makerAssetId', type: 'uint256', indexed: false },
+      { name: 'takerAssetId', type: 'uint256', indexed: false },
+      { name: 'makerAmountFilled', type: 'uint256', indexed: false },
+      { name: 'takerAmountFilled', type: 'uint256', indexed: false },
+      { name: 'fee', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'OrdersMatched',
+    inputs: [
+      { name: 'takerOrderHash', type: 'bytes32', indexed: true },
+      { name: 'takerOrderMaker', type: 'address', indexed: true },
+      { name: 'makerAssetId', type: 'uint256', indexed: false },
+      { name: 'takerAssetId', type: 'uint256', indexed: false },
+      { name: 'makerAmountFilled', type: 'uint256', indexed: false },
+      { name: 'takerAmountFilled', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+export const CONDITIONAL_TOKENS_ABI = [
+  {
+    type: 'event',
+    name: 'ConditionResolution',
+    inputs: [
+      { name: 'conditionId', type: 'bytes32', indexed: true },
+      { name: 'oracle', type: 'address', indexed: true },
+      { name: 'questionId', type: 'bytes32', indexed: true },
+      { name: 'outcomeSlotCount', type: 'uint256', indexed: false },
+      { name: 'payoutNumerators', type: 'uint256[]', indexed: false },
+    ],
+  },
+] as const;
+
+export interface OrderFilledArgs {
+  orderHash: `0x${string}`;
+  maker: `0x${string}`;
+  taker: `0x${string}`;
+  makerAssetId: bigint;
+  takerAssetId: bigint;
+  makerAmountFilled: bigint;
+  takerAmountFilled: bigint;
+  fee: bigint;
+}
+
+export interface OrdersMatchedArgs {
+  takerOrderHash: `0x${string}`;
+  takerOrderMaker: `0x${string}`;
+  makerAssetId: bigint;
+  takerAssetId: bigint;
+  makerAmountFilled: bigint;
+  takerAmountFilled: bigint;
+}
+
+export interface DecodedFill {
+  tokenId: string;   // Outcome token (CLOB token id) that changed hands
+  price: string;     // Collateral paid per outcome token, 0-1
+  quantity: string;  // Outcome tokens filled
+  side: Side;        // From the taker's perspective
+  fee: string;       // Charged to the maker, in the asset the maker received
+  maker: string;
+  taker: string;
+  orderHash: string;
+}
+
+/**
+ * Check whether an OrderFilled event is the taker order's side of a match
+ *
+ * When the operator matches a taker order against maker orders, the exchange
+ * emits one OrderFilled per maker order, then an OrderFilled for the taker order
+ * with the exchange itself as taker, then OrdersMatched with the same hash.
+ * The maker fills already cover the taker order, so counting it would double volume.
+ */
+export function isMatchedTakerFill(args: OrderFilledArgs): boolean {
+  return args.taker.toLowerCase() === CTF_EXCHANGE_ADDRESS.toLowerCase();
+}
+
+/**
+ * Map an OrderFilled event to trade fields
+ * Returns null for matched taker-order fills and for fills that do not swap
+ * collateral for an outcome token
+ */
+export function decodeOrderFilled(args: OrderFilledArgs): DecodedFill | null {
+  if (isMatchedTakerFill(args)) {
+    return null;
+  }
+
+  const makerGivesCollateral = args.makerAssetId === COLLATERAL_ASSET_ID;
+  const takerGivesCollateral = args.takerAssetId === COLLATERAL_ASSET_ID;
+
+  // Exactly one side must be collateral for this to be a priced trade
+  if (makerGivesCollateral === takerGivesCollateral) {
+    return null;
+  }
+
+  const tokenId = makerGivesCollateral ? args.takerAssetId : args.makerAssetId;
+  const collateralAmount = makerGivesCollateral ? args.makerAmountFilled : args.takerAmountFilled;
+  const outcomeAmount = makerGivesCollateral ? args.takerAmountFilled : args.makerAmountFilled;
+
+  if (outcomeAmount === 0n) {
+    return null;
+  }
+
+  const price = Number(collateralAmount) / Number(outcomeAmount);
+
+  // The maker paying collateral is buying outcome tokens, so the taker is selling them
+  const side: Side = makerGivesCollateral ? 'sell' : 'buy';
+
+  return {
+    tokenId: tokenId.toString(),
+    price: price.toFixed(4),
+    quantity: formatUnits(outcomeAmount, TOKEN_DECIMALS),
+    side,
+    fee: formatUnits(args.fee, TOKEN_DECIMALS),
+    maker: args.maker.toLowerCase(),
+    taker: args.taker.toLowerCase(),
+    orderHash: args.orderHash,
+  };
+}
+
+export interface ConditionResolutionArgs {
+  conditionId: `0x${string}`;
+  oracle: `0x${string}`;
+  questionId: `0x${string}`;
+  outcomeSlotCount: bigint;
+  payoutNumerators: readonly bigint[];
+}
+
+export interface DecodedResolution {
+  conditionId: string;
+  result: Outcome | null; // Winning side, null when the payout is split
+  payouts: string[];      // Payout per outcome token in outcome order, 0-1
+}
+
+/**
+ * Map a ConditionResolution event to the settlement of a binary question
+ * Returns null for conditions that are not two-outcome or pay out nothing
+ */
+export function decodeConditionResolution(args: ConditionResolutionArgs): DecodedResolution | null {
+  const payouts = args.payoutNumerators;
+  if (payouts.length !== 2) {
+    return null;
+  }
+
+  const total = payouts[0] + payouts[1];
+  if (total === 0n) {
+    return null;
+  }
+
+  let result: Outcome | null = null;
+  if (payouts[1] === 0n) result = 'yes';
+  else if (payouts[0] === 0n) result = 'no';
+
+  return {
+    conditionId: args.conditionId.toLowerCase(),
+    result,
+    payouts: payouts.map((payout) => (Number(payout) / Number(total)).toFixed(4)),
+  };
+}
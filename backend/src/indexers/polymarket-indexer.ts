@@ -1,9 +1,27 @@
-import { createPublicClient, webSocket, parseAbiItem, formatUnits, Log, decodeEventLog } from 'viem';
+import { createPublicClient, webSocket, Log, decodeEventLog } from 'viem';
 import { polygon } from 'viem/chains';
 import db from '../db/client';
-import { Trade } from '../types';
+import { MarketDetails, MarketKey, Trade } from '../types';
 import { tradeEmitter } from '../events/trade-emitter';
+import { marketEmitter } from '../events/market-emitter';
 import { performanceTracker } from '../services/performance-tracker';
+import { getCheckpoint, saveCheckpoint } from '../services/indexer-checkpoints';
+import { ingestionQueue } from '../services/ingestion-queue';
+import { forgetPolymarketTokens, getPolymarketTokenOutcome } from '../services/polymarket-api';
+import { getPolymarketMarketDetails, getPolymarketMarketTitles } from '../services/market-metadata';
+import { marketCatalog } from '../services/market-catalog';
+import { ExchangeAdapter, ExchangeHealth } from './exchange-adapter';
+import {
+  CTF_EXCHANGE_ADDRESS,
+  CTF_EXCHANGE_ABI,
+  CONDITIONAL_TOKENS_ADDRESS,
+  CONDITIONAL_TOKENS_ABI,
+  ConditionResolutionArgs,
+  OrderFilledArgs,
+  OrdersMatchedArgs,
+  decodeConditionResolution,
+  decodeOrderFilled,
+} from './polymarket-decoder';
 import path from 'path';
 import dotenv from 'dotenv';
 
@@ -11,75 +29,60 @@ import dotenv from 'dotenv';
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
-// Polymarket CTF Exchange contract address on Polygon
-const CTF_EXCHANGE_ADDRESS = '0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E' as const;
-
-// USDC token ID (Polymarket uses USDC.e on Polygon)
-// The taker sends USDC to buy outcome tokens
-const USDC_ADDRESS = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'; // USDC.e on Polygon
-
-// OrderFilled event ABI from the CTF Exchange contract
-const ORDER_FILLED_EVENT = parseAbiItem(
-  'event OrderFilled(bytes32 indexed orderHash, address indexed maker, address indexed taker, uint256 makerAssetId, uint256 takerAssetId, uint256 makerAmountFilled, uint256 takerAmountFilled, uint256 fee)'
-);
-
-// OrdersMatched event for when two orders match
-const ORDERS_MATCHED_EVENT = parseAbiItem(
-  'event OrdersMatched(bytes32 indexed takerOrderHash, address indexed takerOrderMaker, uint256 makerAssetId, uint256 takerAssetId, uint256 makerAmountFilled, uint256 takerAmountFilled)'
-);
-
-// Full ABI for decoding
-const CTF_EXCHANGE_ABI = [
-  {
-    type: 'event',
-    name: 'OrderFilled',
-    inputs: [
-      { name: 'orderHash', type: 'bytes32', indexed: true },
-      { name: 'maker', type: 'address', indexed: true },
-      { name: 'taker', type: 'address', indexed: true },
-      { name: 'makerAssetId', type: 'uint256', indexed: false },
-      { name: 'takerAssetId', type: 'uint256', indexed: false },
-      { name: 'makerAmountFilled', type: 'uint256', indexed: false },
-      { name: 'takerAmountFilled', type: 'uint256', indexed: false },
-      { name: 'fee', type: 'uint256', indexed: false },
-    ],
-  },
-  {
-    type: 'event',
-    name: 'OrdersMatched',
-    inputs: [
-      { name: 'takerOrderHash', type: 'bytes32', indexed: true },
-      { name: 'takerOrderMaker', type: 'address', indexed: true },
-      { name: 'makerAssetId', type: 'uint256', indexed: false },
-      { name: 'takerAssetId', type: 'uint256', indexed: false },
-      { name: 'makerAmountFilled', type: 'uint256', indexed: false },
-      { name: 'takerAmountFilled', type: 'uint256', indexed: false },
-    ],
-  },
-] as const;
-
-interface OrderFilledArgs {
-  orderHash: `0x${string}`;
-  maker: `0x${string}`;
-  taker: `0x${string}`;
-  makerAssetId: bigint;
-  takerAssetId: bigint;
-  makerAmountFilled: bigint;
-  takerAmountFilled: bigint;
-  fee: bigint;
-}
+// Number of blocks to backfill on first startup, before any checkpoint exists (~10 minutes on Polygon with 2s blocks)
+const INITIAL_BACKFILL_BLOCKS = 300n;
+
+// Block range per getLogs request while catching up from the checkpoint.
+// Halved automatically when the RPC rejects a range as too large.
+const BACKFILL_CHUNK_BLOCKS = BigInt(process.env.POLYMARKET_BACKFILL_CHUNK_BLOCKS || '500');
+
+// Key for this indexer's row in indexer_checkpoints
+const CHECKPOINT_NAME = 'polymarket';
+
+// Blocks a trade must be buried under before it is final. Reorgs shallower than this
+// are rolled back, and the checkpoint never moves past an unfinalized block.
+const CONFIRMATIONS = BigInt(process.env.POLYMARKET_CONFIRMATIONS || '32');
 
-// Number of blocks to backfill on startup (~1 hour on Polygon with 2s blocks)
-const BACKFILL_BLOCKS = 300n;
+export type ExchangeLog = Log<bigint, number, false>;
 
-class PolymarketIndexer {
+interface BlockHeader {
+  number: bigint | null;
+  hash: `0x${string}` | null;
+  parentHash: `0x${string}`;
+}
+
+class PolymarketIndexer implements ExchangeAdapter {
+  readonly id = 'polymarket';
+  readonly name = 'Polymarket';
   private client: ReturnType<typeof createPublicClient> | null = null;
   private unwatch: (() => void) | null = null;
+  private unwatchBlocks: (() => void) | null = null;
+  private unwatchResolutions: (() => void) | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
   private isRunning = false;
   private processedTxHashes: Set<string> = new Set();
   private backfillComplete = false;
   // Cache block timestamps to avoid repeated RPC calls during backfill
   private blockTimestampCache: Map<bigint, Date> = new Map();
+  // Live logs received while the backfill is still running; null once handed off
+  private liveBuffer: ExchangeLog[] | null = null;
+  // Live logs are processed one at a time so the checkpoint never skips an unfinished block
+  private liveQueue: Promise<void> = Promise.resolve();
+  private lastLiveBlock: bigint | null = null;
+  // Highest block whose logs have all been processed
+  private lastCompleteBlock: bigint | null = null;
+  private lastFinalizedBlock: bigint | null = null;
+  // Hashes of recent unfinalized block headers, used to detect reorgs
+  private recentBlockHashes: Map<bigint, string> = new Map();
+  // Removed logs whose trades could not be deleted yet; retried with every new
+  // head (finalization also rolls back any still left once their block is confirmed)
+  private pendingOrphans: ExchangeLog[] = [];
+  private lastMessageAt: Date | null = null;
+
+  // Closed and resolved tokens no longer trade, so their cached outcomes are dropped
+  private handleMarketsEnded = (markets: MarketKey[]) => {
+    forgetPolymarketTokens(markets.filter((market) => market.exchange === this.id).map((market) => market.marketId));
+  };
 
   async start() {
     const alchemyWsUrl = process.env.ALCHEMY_WS_URL;
@@ -94,6 +97,11 @@ class PolymarketIndexer {
     }
 
     this.isRunning = true;
+    marketEmitter.on('ended', this.handleMarketsEnded);
+    await this.connect(alchemyWsUrl);
+  }
+
+  private async connect(alchemyWsUrl: string) {
     console.log('[Polymarket] Connecting to Polygon via Alchemy WebSocket...');
     console.log(`[Polymarket] Watching CTF Exchange contract: ${CTF_EXCHANGE_ADDRESS}`);
 
@@ -108,17 +116,17 @@ class PolymarketIndexer {
         }),
       });
 
-      // Step 1: Backfill historical trades before subscribing to live events
-      await this.backfillHistoricalTrades();
-
-      // Step 2: Subscribe to OrderFilled events on the CTF Exchange for live trades
+      // Step 1: Subscribe to exchange events first, buffering them until the backfill
+      // catches up, so nothing mined while backfilling is missed
+      this.liveBuffer = [];
+      this.lastLiveBlock = null;
+      this.recentBlockHashes.clear();
       this.unwatch = this.client.watchContractEvent({
         address: CTF_EXCHANGE_ADDRESS,
         abi: CTF_EXCHANGE_ABI,
-        eventName: 'OrderFilled',
         onLogs: (logs) => {
           for (const log of logs) {
-            this.handleOrderFilled(log);
+            this.enqueueLiveLog(log as unknown as ExchangeLog);
           }
         },
         onError: (error) => {
@@ -127,7 +135,39 @@ class PolymarketIndexer {
         },
       });
 
-      console.log('[Polymarket] ✅ Subscribed to CTF Exchange OrderFilled events');
+      // Resolutions are rare and final, so they are applied as they arrive
+      this.unwatchResolutions = this.client.watchContractEvent({
+        address: CONDITIONAL_TOKENS_ADDRESS,
+        abi: CONDITIONAL_TOKENS_ABI,
+        eventName: 'ConditionResolution',
+        onLogs: (logs) => {
+          for (const log of logs) {
+            this.handleResolutionLog(log as unknown as ExchangeLog);
+          }
+        },
+        onError: (error) => {
+          console.error('[Polymarket] Resolution subscription error:', error.message);
+        },
+      });
+
+      // Track new heads to detect reorgs, finalize trades and report how far behind we are
+      this.unwatchBlocks = this.client.watchBlocks({
+        onBlock: (block) => {
+          this.enqueueBlock(block);
+        },
+        onError: (error) => {
+          console.error('[Polymarket] Block subscription error:', error.message);
+        },
+      });
+
+      console.log('[Polymarket] ✅ Subscribed to CTF Exchange OrderFilled/OrdersMatched and ConditionResolution events');
+
+      // Step 2: Backfill from the saved checkpoint to the current head
+      const backfilledTo = await this.backfillFromCheckpoint();
+
+      // Step 3: Replay buffered live logs the backfill did not cover, then go live
+      await this.drainLiveBuffer(backfilledTo);
+
       console.log('[Polymarket] Listening for live trades on Polygon...');
     } catch (error) {
       console.error('[Polymarket] Failed to connect:', error);
@@ -136,183 +176,627 @@ class PolymarketIndexer {
   }
 
   /**
-   * Backfill historical trades from the last ~1 hour of blocks
-   * This ensures we don't miss trades if the indexer was down
+   * Backfill trades from the last checkpoint up to the current head in bounded chunks
+   * This ensures we don't miss trades no matter how long the indexer was down
+   * Returns the last block covered by the backfill
    */
-  private async backfillHistoricalTrades(): Promise<void> {
+  private async backfillFromCheckpoint(): Promise<bigint> {
     if (!this.client) {
-      console.error('[Polymarket] Cannot backfill: client not initialized');
-      return;
+      throw new Error('Cannot backfill: client not initialized');
     }
 
-    try {
-      const currentBlock = await this.client.getBlockNumber();
-      const fromBlock = currentBlock - BACKFILL_BLOCKS;
+    const headBlock = await this.client.getBlockNumber();
+    const checkpoint = await getCheckpoint(CHECKPOINT_NAME);
+    let fromBlock = checkpoint !== null ? checkpoint + 1n : headBlock - INITIAL_BACKFILL_BLOCKS;
 
-      console.log(`[Polymarket] 📜 Backfilling trades from block ${fromBlock} to ${currentBlock} (~${BACKFILL_BLOCKS} blocks)...`);
+    // Trades backfilled at or below this depth are inserted as final
+    this.lastFinalizedBlock = headBlock - CONFIRMATIONS;
 
-      const logs = await this.client.getContractEvents({
-        address: CTF_EXCHANGE_ADDRESS,
-        abi: CTF_EXCHANGE_ABI,
-        eventName: 'OrderFilled',
-        fromBlock,
-        toBlock: currentBlock,
-      });
+    performanceTracker.recordChainProgress({
+      headBlock,
+      checkpointBlock: checkpoint ?? fromBlock - 1n,
+      backfilling: true,
+    });
+
+    if (fromBlock > headBlock) {
+      console.log(`[Polymarket] Checkpoint ${checkpoint} is at head, nothing to backfill`);
+      this.backfillComplete = true;
+      this.lastCompleteBlock = headBlock;
+      performanceTracker.recordChainProgress({ backfilling: false });
+      return headBlock;
+    }
+
+    console.log(
+      checkpoint !== null
+        ? `[Polymarket] 📜 Resuming from checkpoint: backfilling blocks ${fromBlock} to ${headBlock} (${headBlock - fromBlock + 1n} blocks)...`
+        : `[Polymarket] 📜 No checkpoint found: backfilling blocks ${fromBlock} to ${headBlock} (~${INITIAL_BACKFILL_BLOCKS} blocks)...`
+    );
+
+    let chunkSize = BACKFILL_CHUNK_BLOCKS;
+    let processedCount = 0;
 
-      console.log(`[Polymarket] Found ${logs.length} historical trades to process`);
+    while (fromBlock <= headBlock) {
+      if (!this.isRunning) {
+        return fromBlock - 1n;
+      }
+
+      const toBlock = fromBlock + chunkSize - 1n < headBlock ? fromBlock + chunkSize - 1n : headBlock;
+
+      let logs;
+      try {
+        logs = await this.client.getContractEvents({
+          address: CTF_EXCHANGE_ADDRESS,
+          abi: CTF_EXCHANGE_ABI,
+          fromBlock,
+          toBlock,
+        });
+      } catch (error) {
+        // Most RPC failures here are range/result-size limits, so retry with a smaller range
+        if (chunkSize > 1n) {
+          chunkSize = chunkSize / 2n;
+          console.warn(`[Polymarket] getLogs failed for blocks ${fromBlock}-${toBlock}, retrying with ${chunkSize} block chunks`);
+          continue;
+        }
+        throw error;
+      }
 
-      // Process each historical log
-      let processedCount = 0;
       for (const log of logs) {
-        // Cast to the expected Log type for handleOrderFilled
-        await this.handleOrderFilled(log as unknown as Log<bigint, number, false>);
+        // Cast to the expected Log type for handleExchangeLog
+        await this.handleExchangeLog(log as unknown as ExchangeLog);
         processedCount++;
+      }
 
-        // Log progress every 100 trades
-        if (processedCount % 100 === 0) {
-          console.log(`[Polymarket] Backfill progress: ${processedCount}/${logs.length} trades`);
+      // A missed resolution is still picked up from Gamma, so it never holds up trades
+      try {
+        const resolutions = await this.client.getContractEvents({
+          address: CONDITIONAL_TOKENS_ADDRESS,
+          abi: CONDITIONAL_TOKENS_ABI,
+          eventName: 'ConditionResolution',
+          fromBlock,
+          toBlock,
+        });
+        for (const log of resolutions) {
+          await this.handleResolutionLog(log as unknown as ExchangeLog);
         }
+      } catch (error) {
+        console.warn(`[Polymarket] Failed to fetch resolutions for blocks ${fromBlock}-${toBlock}:`, error);
       }
 
-      this.backfillComplete = true;
-      console.log(`[Polymarket] ✅ Backfill complete: processed ${processedCount} historical trades`);
+      this.lastCompleteBlock = toBlock;
+      await this.advanceCheckpoint(this.getCheckpointTarget());
+      console.log(`[Polymarket] Backfill progress: block ${toBlock}/${headBlock}, ${processedCount} trades`);
+
+      fromBlock = toBlock + 1n;
+    }
+
+    this.backfillComplete = true;
+    performanceTracker.recordChainProgress({ backfilling: false });
+    console.log(`[Polymarket] ✅ Backfill complete: processed ${processedCount} historical trades`);
+
+    return headBlock;
+  }
+
+  /**
+   * Buffer a live log while backfilling, otherwise queue it for processing
+   */
+  private enqueueLiveLog(log: ExchangeLog) {
+    this.lastMessageAt = new Date();
+    if (this.liveBuffer) {
+      this.liveBuffer.push(log);
+      return;
+    }
+
+    this.liveQueue = this.liveQueue.then(() =>
+      this.processLiveLog(log).catch((error) => {
+        console.error(`[Polymarket] Error processing log ${log.transactionHash ?? ''}:`, error);
+      })
+    );
+  }
+
+  /**
+   * Process logs buffered during the backfill, skipping blocks it already covered,
+   * then switch to live processing
+   */
+  private async drainLiveBuffer(backfilledTo: bigint) {
+    const buffer = this.liveBuffer;
+    if (!buffer) return;
+
+    // New logs keep landing in the buffer while we drain it, so loop until it is empty
+    while (buffer.length > 0) {
+      const log = buffer.shift()!;
+      if (log.blockNumber !== null && log.blockNumber <= backfilledTo) {
+        continue;
+      }
+      await this.processLiveLog(log);
+    }
+
+    this.liveBuffer = null;
+  }
+
+  private async processLiveLog(log: ExchangeLog) {
+    // The node re-sends logs from orphaned blocks with removed: true
+    if (log.removed) {
+      try {
+        await this.removeOrphanedLog(log);
+      } catch (error) {
+        console.error(`[Polymarket] Failed to remove orphaned tx ${log.transactionHash}, will retry:`, error);
+        this.pendingOrphans.push(log);
+      }
+      return;
+    }
+
+    const blockNumber = log.blockNumber;
+
+    if (blockNumber !== null) {
+      // Logs arrive in block order, so a log from a newer block means the previous one is done
+      if (this.lastLiveBlock !== null && blockNumber > this.lastLiveBlock) {
+        this.lastCompleteBlock = this.lastLiveBlock;
+      }
+      if (this.lastLiveBlock === null || blockNumber > this.lastLiveBlock) {
+        this.lastLiveBlock = blockNumber;
+      }
+    }
+
+    await this.handleExchangeLog(log);
+  }
+
+  /**
+   * Queue a new head for processing alongside live logs
+   * Heads seen while backfilling only update the head for /stats
+   */
+  private enqueueBlock(block: BlockHeader) {
+    this.lastMessageAt = new Date();
+    if (block.number === null) return;
+
+    if (this.liveBuffer) {
+      performanceTracker.recordChainProgress({ headBlock: block.number });
+      return;
+    }
+
+    this.liveQueue = this.liveQueue.then(() =>
+      this.handleNewBlock(block).catch((error) => {
+        console.error(`[Polymarket] Error handling block ${block.number}:`, error);
+      })
+    );
+  }
+
+  /**
+   * Check a new head against the hashes we have recorded, roll back any reorg,
+   * then finalize blocks that now have enough confirmations
+   */
+  private async handleNewBlock(block: BlockHeader) {
+    if (block.number === null || block.hash === null) return;
+
+    performanceTracker.recordChainProgress({ headBlock: block.number });
+    await this.retryPendingOrphans();
+
+    const knownHash = this.recentBlockHashes.get(block.number);
+    const knownParentHash = this.recentBlockHashes.get(block.number - 1n);
+    if ((knownHash && knownHash !== block.hash) || (knownParentHash && knownParentHash !== block.parentHash)) {
+      await this.handleReorg(block);
+    }
+
+    this.recentBlockHashes.set(block.number, block.hash);
+    await this.finalizeBlocks(block.number - CONFIRMATIONS);
+  }
+
+  /**
+   * Walk back along the new chain until it rejoins the blocks we recorded,
+   * roll back trades from every orphaned block, and re-index the canonical ones
+   */
+  private async handleReorg(head: BlockHeader) {
+    if (!this.client || head.number === null || head.hash === null) return;
+
+    const canonical: Array<[bigint, string]> = [[head.number, head.hash]];
+    let blockNumber = head.number - 1n;
+    let canonicalHash: `0x${string}` = head.parentHash;
+
+    while (blockNumber > head.number - CONFIRMATIONS) {
+      const recorded = this.recentBlockHashes.get(blockNumber);
+      if (recorded === undefined || recorded === canonicalHash) break;
+
+      canonical.push([blockNumber, canonicalHash]);
+      const block = await this.client.getBlock({ blockHash: canonicalHash });
+      canonicalHash = block.parentHash;
+      blockNumber--;
+    }
+
+    const forkBlock = canonical[canonical.length - 1][0];
+    console.warn(`[Polymarket] ⚠️ Reorg detected at block ${head.number}, rolling back to block ${forkBlock}`);
+
+    for (const [number, hash] of canonical) {
+      await this.rollbackBlock(number, hash);
+      this.recentBlockHashes.set(number, hash);
+    }
+
+    for (const [, hash] of canonical.reverse()) {
+      await this.reindexBlock(hash as `0x${string}`);
+    }
+  }
+
+  /**
+   * Verify blocks that just reached the confirmation depth against the canonical
+   * chain, then mark their trades final and let the checkpoint move past them
+   */
+  private async finalizeBlocks(target: bigint) {
+    if (!this.client || target < 0n) return;
+
+    const fromBlock = this.lastFinalizedBlock !== null && this.lastFinalizedBlock < target
+      ? this.lastFinalizedBlock + 1n
+      : target;
+
+    for (let blockNumber = fromBlock; blockNumber <= target; blockNumber++) {
+      const block = await this.client.getBlock({ blockNumber });
+      const removed = await this.rollbackBlock(blockNumber, block.hash);
+      if (removed > 0) {
+        await this.reindexBlock(block.hash);
+      }
+    }
+
+    await ingestionQueue.flush();
+    await db.query(
+      `UPDATE trades SET finalized = TRUE
+       WHERE exchange = 'polymarket' AND NOT finalized AND block_number <= $1`,
+      [target.toString()]
+    );
+
+    this.lastFinalizedBlock = target;
+    for (const blockNumber of this.recentBlockHashes.keys()) {
+      if (blockNumber < target) {
+        this.recentBlockHashes.delete(blockNumber);
+      }
+    }
+
+    await this.advanceCheckpoint(this.getCheckpointTarget());
+  }
+
+  /**
+   * Delete trades recorded at a block height under any hash other than the canonical one
+   * Returns the number of trades removed
+   */
+  private async rollbackBlock(blockNumber: bigint, canonicalHash: string): Promise<number> {
+    const removed = await this.deleteTrades(
+      'block_number = $1 AND block_hash <> $2',
+      [blockNumber.toString(), canonicalHash]
+    );
+
+    if (removed > 0) {
+      console.warn(`[Polymarket] Rolled back ${removed} trade(s) from orphaned block ${blockNumber}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Delete the trades of removed logs that failed to be deleted earlier
+   * Logs that fail again stay pending for the next head.
+   */
+  private async retryPendingOrphans() {
+    const pending = this.pendingOrphans;
+    this.pendingOrphans = [];
+
+    for (const log of pending) {
+      try {
+        await this.removeOrphanedLog(log);
+      } catch (error) {
+        console.error(`[Polymarket] Retrying removal of orphaned tx ${log.transactionHash} failed:`, error);
+        this.pendingOrphans.push(log);
+      }
+    }
+  }
+
+  private async removeOrphanedLog(log: ExchangeLog) {
+    if (!log.transactionHash || !log.blockHash) return;
+
+    const removed = await this.deleteTrades(
+      'tx_hash = $1 AND block_hash = $2',
+      [log.transactionHash, log.blockHash]
+    );
+
+    if (removed > 0) {
+      console.warn(`[Polymarket] Removed ${removed} trade(s) from orphaned tx ${log.transactionHash.slice(0, 10)}...`);
+    }
+  }
+
+  /**
+   * Delete Polymarket trades matching a condition and notify listeners so
+   * candles and WebSocket subscribers can correct themselves
+   */
+  private async deleteTrades(condition: string, params: any[]): Promise<number> {
+    // Write queued trades first so none of the affected ones slip in after the delete
+    await ingestionQueue.flush();
+
+    const result = await db.query(
+      `
+        DELETE FROM trades
+        WHERE exchange = 'polymarket' AND ${condition}
+        RETURNING id, market_id, price, quantity, side, timestamp, tx_hash, maker, taker, fee, block_number, block_hash
+      `,
+      params
+    );
+
+    for (const row of result.rows) {
+      const trade: Trade = {
+        id: row.id,
+        exchange: 'polymarket',
+        marketId: row.market_id,
+        price: row.price.toString(),
+        quantity: row.quantity.toString(),
+        side: row.side,
+        timestamp: row.timestamp,
+        txHash: row.tx_hash ?? undefined,
+        maker: row.maker ?? undefined,
+        taker: row.taker ?? undefined,
+        fee: row.fee?.toString(),
+        blockNumber: row.block_number !== null ? Number(row.block_number) : undefined,
+        blockHash: row.block_hash ?? undefined,
+      };
+      tradeEmitter.emit('trade_removed', trade);
+    }
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Re-process every exchange log in a canonical block
+   */
+  private async reindexBlock(blockHash: `0x${string}`) {
+    if (!this.client) return;
+
+    const logs = await this.client.getContractEvents({
+      address: CTF_EXCHANGE_ADDRESS,
+      abi: CTF_EXCHANGE_ABI,
+      blockHash,
+    });
+
+    for (const log of logs) {
+      // Bypass the in-memory dedupe: rows from the orphaned block may have blocked these inserts
+      await this.handleExchangeLog(log as unknown as ExchangeLog, true);
+    }
+  }
+
+  /**
+   * The checkpoint only covers blocks that are both fully processed and final,
+   * so a restart re-scans anything that could still be reorged
+   */
+  private getCheckpointTarget(): bigint | null {
+    if (this.lastCompleteBlock === null) return null;
+    if (this.lastFinalizedBlock === null) return this.lastCompleteBlock;
+    return this.lastCompleteBlock < this.lastFinalizedBlock ? this.lastCompleteBlock : this.lastFinalizedBlock;
+  }
+
+  /**
+   * Persist the last fully processed block
+   */
+  private async advanceCheckpoint(blockNumber: bigint | null) {
+    if (blockNumber === null) return;
+
+    try {
+      // Trades from these blocks may still be queued; they must be written first
+      await ingestionQueue.flush();
+      await saveCheckpoint(CHECKPOINT_NAME, blockNumber);
+      performanceTracker.recordChainProgress({ checkpointBlock: blockNumber });
     } catch (error) {
-      console.error('[Polymarket] Error during backfill:', error);
-      // Continue with live subscription even if backfill fails
-      this.backfillComplete = true;
+      console.error(`[Polymarket] Failed to save checkpoint at block ${blockNumber}:`, error);
     }
   }
 
   stop() {
     this.isRunning = false;
+    marketEmitter.off('ended', this.handleMarketsEnded);
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.disconnect();
+    console.log('[Polymarket] Indexer stopped');
+  }
+
+  async getMarketTitles(marketIds: string[]): Promise<Map<string, string>> {
+    return getPolymarketMarketTitles(marketIds);
+  }
+
+  async getMarketDetails(marketIds: string[]): Promise<Map<string, MarketDetails>> {
+    return getPolymarketMarketDetails(marketIds);
+  }
+
+  getHealth(): ExchangeHealth {
+    let status: ExchangeHealth['status'] = 'disconnected';
+    if (!this.isRunning) {
+      status = 'stopped';
+    } else if (this.client) {
+      status = this.liveBuffer ? 'backfilling' : 'connected';
+    }
+
+    return {
+      status,
+      lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+      details: {
+        lastCompleteBlock: this.lastCompleteBlock !== null ? Number(this.lastCompleteBlock) : null,
+        lastFinalizedBlock: this.lastFinalizedBlock !== null ? Number(this.lastFinalizedBlock) : null,
+        pendingOrphanedLogs: this.pendingOrphans.length,
+      },
+    };
+  }
+
+  private disconnect() {
     if (this.unwatch) {
       this.unwatch();
       this.unwatch = null;
     }
+    if (this.unwatchBlocks) {
+      this.unwatchBlocks();
+      this.unwatchBlocks = null;
+    }
+    if (this.unwatchResolutions) {
+      this.unwatchResolutions();
+      this.unwatchResolutions = null;
+    }
+    this.liveBuffer = null;
     this.client = null;
-    console.log('[Polymarket] Indexer stopped');
   }
 
-  private async handleOrderFilled(log: Log<bigint, number, false>) {
+  /**
+   * Feed a recorded exchange log through the live trade path
+   * Used by the replay adapter: the block timestamp comes from the recording
+   * instead of RPC, and recorded blocks are treated as final
+   */
+  async replayLog(log: ExchangeLog, blockTimestamp: Date) {
+    this.lastMessageAt = new Date();
+    if (log.blockNumber !== null) {
+      this.blockTimestampCache.set(log.blockNumber, blockTimestamp);
+    }
+    await this.handleExchangeLog(log, false, true);
+  }
+
+  /**
+   * Decode an exchange log and dispatch it by event
+   */
+  private async handleExchangeLog(log: ExchangeLog, skipDedupe = false, assumeFinal = false) {
     try {
-      // Decode the event
       const decoded = decodeEventLog({
         abi: CTF_EXCHANGE_ABI,
         data: log.data,
         topics: log.topics,
       });
 
-      if (decoded.eventName !== 'OrderFilled') return;
+      if (decoded.eventName === 'OrderFilled') {
+        await this.handleOrderFilled(log, decoded.args as unknown as OrderFilledArgs, skipDedupe, assumeFinal);
+      } else if (decoded.eventName === 'OrdersMatched') {
+        await this.handleOrdersMatched(log, decoded.args as unknown as OrdersMatchedArgs);
+      }
+    } catch (error) {
+      console.error('[Polymarket] Error processing exchange log:', error);
+    }
+  }
 
-      const args = decoded.args as unknown as OrderFilledArgs;
-      const txHash = log.transactionHash;
-      const logIndex = log.logIndex ?? 0;
-      const uniqueId = `${txHash}-${logIndex}`;
+  private async handleOrderFilled(log: ExchangeLog, args: OrderFilledArgs, skipDedupe: boolean, assumeFinal = false) {
+    const txHash = log.transactionHash;
+    const logIndex = log.logIndex ?? 0;
+    // Include the block hash so a log re-included after a reorg is processed again
+    const uniqueId = `${log.blockHash}-${txHash}-${logIndex}`;
 
-      // Skip already processed
-      if (this.processedTxHashes.has(uniqueId)) {
-        return;
-      }
-      this.processedTxHashes.add(uniqueId);
-
-      // Keep set size manageable
-      if (this.processedTxHashes.size > 10000) {
-        const iterator = this.processedTxHashes.values();
-        const firstValue = iterator.next().value;
-        if (firstValue) {
-          this.processedTxHashes.delete(firstValue);
-        }
+    // Skip already processed
+    if (this.processedTxHashes.has(uniqueId) && !skipDedupe) {
+      return;
+    }
+    this.processedTxHashes.add(uniqueId);
+
+    // Keep set size manageable
+    if (this.processedTxHashes.size > 10000) {
+      const iterator = this.processedTxHashes.values();
+      const firstValue = iterator.next().value;
+      if (firstValue) {
+        this.processedTxHashes.delete(firstValue);
       }
+    }
 
-      // Determine which asset is USDC-like (the quote) vs outcome token
-      // In Polymarket: larger asset IDs are outcome tokens, 0 or small IDs are USDC
-      // Actually in CTF Exchange, makerAssetId and takerAssetId are the ERC1155 token IDs
-      // USDC has a special representation - let's check if one of the amounts is much larger
-
-      const makerAmount = args.makerAmountFilled;
-      const takerAmount = args.takerAmountFilled;
-      const makerAssetId = args.makerAssetId;
-      const takerAssetId = args.takerAssetId;
-
-      // The marketId will be one of the asset IDs (the outcome token)
-      // Prices in Polymarket are 0-1 (representing probability)
-      // If maker is selling outcome tokens for USDC: maker sends outcome, taker sends USDC
-      // If maker is buying outcome tokens with USDC: maker sends USDC, taker sends outcome
-
-      // For simplicity, we'll use the outcome token ID as the market ID
-      // The larger asset ID is typically the outcome token
-      const isOutcomeTokenMaker = makerAssetId > takerAssetId;
-      const outcomeTokenId = isOutcomeTokenMaker ? makerAssetId : takerAssetId;
-      const usdcAmount = isOutcomeTokenMaker ? takerAmount : makerAmount;
-      const outcomeAmount = isOutcomeTokenMaker ? makerAmount : takerAmount;
-
-      // Price = USDC amount / outcome amount (in 6 decimal USDC vs 6 decimal outcome tokens)
-      // Both USDC.e and outcome tokens use 6 decimals on Polymarket
-      const price = outcomeAmount > 0n
-        ? Number(usdcAmount) / Number(outcomeAmount)
-        : 0;
-
-      // Side: if maker is selling outcome tokens, this is a SELL; otherwise BUY
-      // From taker perspective (who is filling the order):
-      // If taker receives outcome tokens (isOutcomeTokenMaker), taker is BUYING
-      // If taker sends outcome tokens (!isOutcomeTokenMaker), taker is SELLING
-      const side: 'buy' | 'sell' = isOutcomeTokenMaker ? 'buy' : 'sell';
-
-      // Format quantity (6 decimals for outcome tokens)
-      const quantity = formatUnits(outcomeAmount, 6);
-
-      // Get block timestamp for accurate trade timing (required for latency metrics)
-      const timestamp = await this.getBlockTimestamp(log.blockNumber);
+    // Skips the taker order's half of a match and anything that is not a collateral/outcome swap
+    const fill = decodeOrderFilled(args);
+    if (!fill) {
+      return;
+    }
 
-      const trade: Trade = {
-        exchange: 'polymarket',
-        marketId: outcomeTokenId.toString(),
-        price: price.toFixed(4),
-        quantity,
-        side,
-        timestamp,
-        txHash: txHash ?? undefined,
-      };
+    // Get block timestamp for accurate trade timing (required for latency metrics)
+    const timestamp = await this.getBlockTimestamp(log.blockNumber);
+
+    // Which outcome the token is comes from market metadata (cached per market)
+    const outcome = await getPolymarketTokenOutcome(fill.tokenId);
+    const complement = (1 - parseFloat(fill.price)).toFixed(4);
+
+    // The outcome token ID is used as the market ID
+    const trade: Trade = {
+      exchange: 'polymarket',
+      marketId: fill.tokenId,
+      price: fill.price,
+      quantity: fill.quantity,
+      side: fill.side,
+      timestamp,
+      outcome: outcome ?? undefined,
+      takerSide: fill.side,
+      yesPrice: outcome ? (outcome === 'yes' ? fill.price : complement) : undefined,
+      noPrice: outcome ? (outcome === 'no' ? fill.price : complement) : undefined,
+      txHash: txHash ?? undefined,
+      logIndex,
+      orderHash: fill.orderHash,
+      maker: fill.maker,
+      taker: fill.taker,
+      fee: fill.fee,
+      blockNumber: log.blockNumber !== null ? Number(log.blockNumber) : undefined,
+      blockHash: log.blockHash ?? undefined,
+      finalized: assumeFinal || this.isFinalized(log.blockNumber),
+    };
+
+    await ingestionQueue.push(trade);
+
+    console.log(`🔮 [Polymarket] Trade: ${trade.side.toUpperCase()} ${parseFloat(trade.quantity).toFixed(2)} @ $${trade.price} | Token: ${trade.marketId.slice(0, 12)}... | tx: ${txHash?.slice(0, 10)}...`);
+  }
 
-      const indexedAt = new Date();
-      await this.insertTrade(trade);
+  /**
+   * OrdersMatched follows the taker order's OrderFilled in the same transaction.
+   * The decoder already skips that fill; if one was stored anyway, remove it so
+   * the match is only counted through its maker fills.
+   */
+  private async handleOrdersMatched(log: ExchangeLog, args: OrdersMatchedArgs) {
+    if (!log.transactionHash) return;
 
-      // Track performance metrics
-      performanceTracker.recordTrade('polymarket', trade.timestamp, indexedAt);
+    const removed = await this.deleteTrades(
+      'order_hash = $1 AND tx_hash = $2',
+      [args.takerOrderHash, log.transactionHash]
+    );
 
-      console.log(`🔮 [Polymarket] Trade: ${trade.side.toUpperCase()} ${parseFloat(trade.quantity).toFixed(2)} @ $${trade.price} | Token: ${trade.marketId.slice(0, 12)}... | tx: ${txHash?.slice(0, 10)}...`);
+    if (removed > 0) {
+      console.warn(`[Polymarket] Removed ${removed} double-counted taker fill(s) for order ${args.takerOrderHash.slice(0, 10)}...`);
+    }
+  }
 
-      tradeEmitter.emit('trade', trade);
+  /**
+   * Record a question's resolution against the outcome tokens we have cataloged
+   * Conditions of markets we never indexed are ignored
+   */
+  private async handleResolutionLog(log: ExchangeLog) {
+    try {
+      const decoded = decodeEventLog({
+        abi: CONDITIONAL_TOKENS_ABI,
+        data: log.data,
+        topics: log.topics,
+      });
+
+      const resolution = decodeConditionResolution(decoded.args as unknown as ConditionResolutionArgs);
+      if (!resolution) return;
+
+      const resolvedAt = await this.getBlockTimestamp(log.blockNumber);
+      const updated = await marketCatalog.resolveCondition(
+        resolution.conditionId,
+        resolution.result,
+        resolution.payouts,
+        resolvedAt
+      );
+
+      if (updated > 0) {
+        console.log(`🏁 [Polymarket] Resolved: ${resolution.result?.toUpperCase() ?? 'SPLIT'} (${resolution.payouts.join('/')}) | Condition: ${resolution.conditionId.slice(0, 12)}... | ${updated} token(s)`);
+      }
     } catch (error) {
-      console.error('[Polymarket] Error processing OrderFilled:', error);
+      console.error('[Polymarket] Error processing resolution log:', error);
     }
   }
 
-  private async insertTrade(trade: Trade) {
-    const query = `
-      INSERT INTO trades (exchange, market_id, price, quantity, side, timestamp, tx_hash)
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
-      ON CONFLICT (exchange, market_id, timestamp, tx_hash) DO NOTHING
-    `;
-
-    await db.query(query, [
-      trade.exchange,
-      trade.marketId,
-      trade.price,
-      trade.quantity,
-      trade.side,
-      trade.timestamp,
-      trade.txHash,
-    ]);
+  private isFinalized(blockNumber: bigint | null): boolean {
+    if (blockNumber === null || this.lastFinalizedBlock === null) return false;
+    return blockNumber <= this.lastFinalizedBlock;
   }
 
   private scheduleReconnect() {
-    if (!this.isRunning) return;
+    if (!this.isRunning || this.reconnectTimeout) return;
+
+    // Tear down now; the reconnect resumes from the checkpoint so nothing is lost
+    this.disconnect();
 
     console.log('[Polymarket] Scheduling reconnection in 5 seconds...');
-    setTimeout(() => {
-      if (this.isRunning) {
-        this.start();
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      const alchemyWsUrl = process.env.ALCHEMY_WS_URL;
+      if (this.isRunning && alchemyWsUrl) {
+        this.connect(alchemyWsUrl);
       }
     }, 5000);
   }
@@ -323,17 +807,22 @@ class PolymarketIndexer {
    */
   private async getBlockTimestamp(blockNumber: bigint | null): Promise<Date> {
     // If no block number, use current time (shouldn't happen in practice)
-    if (!blockNumber || !this.client) {
+    if (!blockNumber) {
       console.warn('[Polymarket] No block number available, using current time');
       return new Date();
     }
 
-    // Check cache first (important for backfill efficiency)
+    // Check cache first (important for backfill efficiency, and the only source during replay)
     const cached = this.blockTimestampCache.get(blockNumber);
     if (cached) {
       return cached;
     }
 
+    if (!this.client) {
+      console.warn('[Polymarket] Not connected, using current time');
+      return new Date();
+    }
+
     // Fetch block with retry logic
     const MAX_RETRIES = 3;
     const RETRY_DELAY_MS = 500;
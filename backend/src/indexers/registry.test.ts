@@ -0,0 +1,110 @@
+import { afterEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ingestionQueue } from '../services/ingestion-queue';
+import { Trade } from '../types';
+import { MockExchangeAdapter } from './mock-adapter';
+import { ExchangeRegistry } from './registry';
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+function createRegistry(...adapters: MockExchangeAdapter[]): ExchangeRegistry {
+  const registry = new ExchangeRegistry();
+  for (const adapter of adapters) registry.register(adapter);
+  return registry;
+}
+
+test('adapters are looked up by exchange id, in registration order', () => {
+  const alpha = new MockExchangeAdapter({ id: 'alpha' });
+  const beta = new MockExchangeAdapter({ id: 'beta' });
+  const registry = createRegistry(alpha, beta);
+
+  assert.equal(registry.get('beta'), beta);
+  assert.equal(registry.get('gamma'), undefined);
+  assert.equal(registry.has('alpha'), true);
+  assert.equal(registry.has('gamma'), false);
+  assert.deepEqual(registry.ids(), ['alpha', 'beta']);
+  assert.deepEqual(registry.list(), [alpha, beta]);
+});
+
+test('an exchange id can only be registered once', () => {
+  const registry = createRegistry(new MockExchangeAdapter({ id: 'alpha' }));
+  assert.throws(() => registry.register(new MockExchangeAdapter({ id: 'alpha' })), /already registered: alpha/);
+});
+
+test('startAll starts every adapter even when one fails to start', async () => {
+  mock.method(console, 'error', () => {});
+  const failing = new MockExchangeAdapter({ id: 'failing' });
+  mock.method(failing, 'start', async () => {
+    throw new Error('venue unreachable');
+  });
+  const healthy = new MockExchangeAdapter({ id: 'healthy' });
+  const registry = createRegistry(failing, healthy);
+
+  await registry.startAll();
+  assert.equal(healthy.getHealth().status, 'connected');
+
+  registry.stopAll();
+  assert.equal(healthy.getHealth().status, 'stopped');
+});
+
+test('a paused adapter stays stopped until resumed', async () => {
+  mock.method(console, 'log', () => {});
+  const adapter = new MockExchangeAdapter({ id: 'alpha' });
+  const registry = createRegistry(adapter);
+  await registry.startAll();
+
+  registry.pause('alpha');
+  assert.equal(registry.isPaused('alpha'), true);
+  assert.equal(adapter.getHealth().status, 'stopped');
+
+  await registry.resume('alpha');
+  assert.equal(registry.isPaused('alpha'), false);
+  assert.equal(adapter.getHealth().status, 'connected');
+
+  // Resuming an adapter that is not paused does nothing
+  const start = mock.method(adapter, 'start');
+  await registry.resume('alpha');
+  assert.equal(start.mock.callCount(), 0);
+});
+
+test('mock adapter trades go to the ingestion queue under its exchange id', async () => {
+  const queued: Trade[] = [];
+  mock.method(ingestionQueue, 'push', async (trade: Trade) => {
+    queued.push(trade);
+  });
+  const adapter = new MockExchangeAdapter({ id: 'alpha' });
+
+  const trade = await adapter.emitTrade({
+    marketId: 'MKT-1',
+    price: '0.5500',
+    quantity: '10',
+    side: 'buy',
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+  });
+
+  assert.equal(trade.exchange, 'alpha');
+  assert.deepEqual(queued, [trade]);
+  assert.notEqual(adapter.getHealth().lastMessageAt, null);
+});
+
+test('mock adapter records backfill requests and knows its titles', async () => {
+  const adapter = new MockExchangeAdapter({ titles: { 'MKT-1': 'Will it rain?' } });
+  const progress: number[] = [];
+
+  const result = await adapter.backfill({
+    marketId: 'MKT-1',
+    start: new Date('2025-01-01T00:00:00Z'),
+    end: new Date('2025-01-02T00:00:00Z'),
+    onProgress: (count) => progress.push(count),
+  });
+
+  assert.deepEqual(result, { ingested: 0, truncated: false });
+  assert.equal(adapter.backfillRequests.length, 1);
+  assert.equal(adapter.backfillRequests[0].marketId, 'MKT-1');
+  assert.deepEqual(progress, [0]);
+
+  const titles = await adapter.getMarketTitles(['MKT-1', 'MKT-2']);
+  assert.deepEqual(Array.from(titles), [['MKT-1', 'Will it rain?']]);
+});
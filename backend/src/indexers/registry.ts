@@ -0,0 +1,97 @@
+import { Exchange } from '../types';
+import { ExchangeAdapter } from './exchange-adapter';
+
+/**
+ * Exchange Registry
+ * Holds the adapters of every indexed venue, keyed by exchange id. Adapters
+ * that only feed other venues' indexers (replay) are run and reported like the
+ * rest, but are not venues: trades are never stored under their ids, so API
+ * parameters don't accept them.
+ */
+export class ExchangeRegistry {
+  private adapters = new Map<Exchange, ExchangeAdapter>();
+  // Adapters stopped through the admin API, until resumed
+  private paused = new Set<Exchange>();
+
+  register(adapter: ExchangeAdapter) {
+    if (this.adapters.has(adapter.id)) {
+      throw new Error(`Exchange adapter already registered: ${adapter.id}`);
+    }
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  get(id: string): ExchangeAdapter | undefined {
+    return this.adapters.get(id);
+  }
+
+  /**
+   * Whether an id names a venue whose trades can be queried
+   */
+  has(id: string): boolean {
+    const adapter = this.adapters.get(id);
+    return adapter !== undefined && !adapter.feeds;
+  }
+
+  /**
+   * Every registered adapter, feeders included
+   */
+  list(): ExchangeAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Ids of the venues whose trades can be queried
+   */
+  ids(): Exchange[] {
+    return this.list().filter((adapter) => !adapter.feeds).map((adapter) => adapter.id);
+  }
+
+  /**
+   * Start every adapter concurrently, so a slow backfill on one venue does not delay the others
+   */
+  async startAll() {
+    await Promise.all(
+      this.list().map((adapter) =>
+        adapter.start().catch((error) => {
+          console.error(`[Registry] Failed to start ${adapter.id}:`, error);
+        })
+      )
+    );
+  }
+
+  stopAll() {
+    for (const adapter of this.adapters.values()) {
+      adapter.stop();
+    }
+  }
+
+  isPaused(id: string): boolean {
+    return this.paused.has(id);
+  }
+
+  /**
+   * Stop an adapter until it is resumed
+   */
+  pause(id: string) {
+    const adapter = this.adapters.get(id);
+    if (!adapter || this.paused.has(id)) return;
+
+    this.paused.add(id);
+    adapter.stop();
+    console.log(`[Registry] Paused ${id}`);
+  }
+
+  /**
+   * Start a paused adapter again; it catches up on what it missed the same way
+   * as after a restart. Resolves once it has started.
+   */
+  async resume(id: string) {
+    const adapter = this.adapters.get(id);
+    if (!adapter || !this.paused.delete(id)) return;
+
+    console.log(`[Registry] Resuming ${id}`);
+    await adapter.start();
+  }
+}
+
+export const exchangeRegistry = new ExchangeRegistry();
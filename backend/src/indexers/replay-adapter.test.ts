@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ingestionQueue } from '../services/ingestion-queue';
+import { Trade } from '../types';
+import { ExchangeRegistry } from './registry';
+import { ReplayAdapter, ReplayOptions } from './replay-adapter';
+
+/**
+ * Replays run through the real Kalshi indexer path up to the ingestion queue,
+ * which is stubbed to collect the trades it would write
+ */
+
+const OPTIONS: ReplayOptions = {
+  source: 'synthetic',
+  speed: 0,
+  loop: false,
+  retime: false,
+  syntheticMarkets: 3,
+  syntheticTradesPerSecond: 5,
+};
+
+let queued: Trade[];
+
+beforeEach(() => {
+  queued = [];
+  mock.method(ingestionQueue, 'push', async (trade: Trade) => {
+    queued.push(trade);
+  });
+  mock.method(console, 'log', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for replay');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+test('synthetic replay at full speed queues well-formed Kalshi trades until stopped', async () => {
+  const adapter = new ReplayAdapter(OPTIONS);
+  await adapter.start();
+  await waitFor(() => queued.length >= 50);
+  adapter.stop();
+  await waitFor(() => adapter.getHealth().status === 'stopped');
+
+  const stoppedAt = queued.length;
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(queued.length, stoppedAt, 'no trades after stop');
+
+  assert.equal(new Set(queued.map((trade) => trade.txHash)).size, queued.length);
+  for (const trade of queued) {
+    assert.equal(trade.exchange, 'kalshi');
+    assert.match(trade.marketId, /^SIM-[1-3]$/);
+    const yes = parseFloat(trade.yesPrice!);
+    assert.ok(yes >= 0.01 && yes <= 0.99, `price ${trade.yesPrice} in range`);
+    assert.equal((yes + parseFloat(trade.noPrice!)).toFixed(4), '1.0000');
+    assert.equal(trade.price, trade.yesPrice);
+    assert.equal(trade.takerSide, 'buy');
+    assert.equal(trade.side, trade.outcome === 'yes' ? 'buy' : 'sell');
+  }
+  assert.equal(adapter.getHealth().details?.recordsReplayed, stoppedAt);
+});
+
+test('a recorded file is played through once, skipping non-trade frames and malformed lines', async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'replay-')), 'recording.ndjson');
+  const frame = (tradeId: string, ticker: string, yesPrice: number, takerSide: string, createdTime: number) => ({
+    channel: 'trades',
+    type: 'trade',
+    market_ticker: ticker,
+    trade_id: tradeId,
+    price: yesPrice,
+    count: 10,
+    yes_price: yesPrice,
+    no_price: 100 - yesPrice,
+    yes_price_dollars: (yesPrice / 100).toFixed(4),
+    no_price_dollars: ((100 - yesPrice) / 100).toFixed(4),
+    taker_side: takerSide,
+    created_time: createdTime,
+  });
+  fs.writeFileSync(
+    file,
+    [
+      JSON.stringify({ source: 'kalshi', receivedAt: 1736000000000, frame: { channel: 'trades', type: 'subscribed' } }),
+      JSON.stringify({ source: 'kalshi', receivedAt: 1736000000100, frame: frame('t-1', 'KXTEST-A', 62, 'yes', 1736000000) }),
+      '{not json',
+      JSON.stringify({ source: 'kalshi', receivedAt: 1736000000200, frame: frame('t-2', 'KXTEST-B', 40, 'no', 1736000000500) }),
+    ].join('\n') + '\n'
+  );
+  mock.method(console, 'error', () => {});
+
+  try {
+    const adapter = new ReplayAdapter({ ...OPTIONS, source: file });
+    await adapter.start();
+    await waitFor(() => adapter.getHealth().status === 'stopped');
+
+    assert.equal(adapter.getHealth().details?.recordsReplayed, 3);
+    assert.deepEqual(
+      queued.map((trade) => [trade.txHash, trade.marketId, trade.price, trade.side, trade.outcome]),
+      [
+        ['t-1', 'KXTEST-A', '0.6200', 'buy', 'yes'],
+        ['t-2', 'KXTEST-B', '0.4000', 'sell', 'no'],
+      ]
+    );
+    // Recorded times are kept, whether written in seconds or milliseconds
+    assert.equal(queued[0].timestamp.getTime(), 1736000000000);
+    assert.equal(queued[1].timestamp.getTime(), 1736000000500);
+  } finally {
+    fs.rmSync(path.dirname(file), { recursive: true, force: true });
+  }
+});
+
+test('the replay adapter is run by the registry but is not a queryable venue', () => {
+  const registry = new ExchangeRegistry();
+  const adapter = new ReplayAdapter(OPTIONS);
+  registry.register(adapter);
+
+  assert.equal(registry.get('replay'), adapter);
+  assert.deepEqual(registry.list(), [adapter]);
+  assert.equal(registry.has('replay'), false);
+  assert.deepEqual(registry.ids(), []);
+});
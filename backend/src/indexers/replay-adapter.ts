@@ -0,0 +1,244 @@
+import fs from 'fs';
+import readline from 'readline';
+import { randomUUID } from 'crypto';
+import { Log } from 'viem';
+import { kalshiIndexer } from './kalshi-indexer';
+import { polymarketIndexer, ExchangeLog } from './polymarket-indexer';
+import { ExchangeAdapter, ExchangeHealth } from './exchange-adapter';
+
+/**
+ * Replay Adapter
+ *
+ * Offline data source for development and tests. Plays back recorded Kalshi
+ * WebSocket frames and Polygon exchange logs from an NDJSON file, or generates
+ * random-walk Kalshi trades, through the real indexer paths, so candles,
+ * WebSocket fan-out and performance metrics behave as they do live.
+ *
+ * Each NDJSON line is one record:
+ *   {"source":"kalshi","receivedAt":1736000000000,"frame":{...raw WebSocket message}}
+ *   {"source":"polymarket","receivedAt":1736000000000,"blockTimestamp":1736000000,"log":{...}}
+ * receivedAt (ms) spaces out playback; Polymarket logs use the viem log shape
+ * with blockNumber as a decimal string.
+ */
+
+export interface ReplayOptions {
+  // Path to an NDJSON recording, or 'synthetic' for random-walk trades
+  source: string;
+  // Playback multiplier: 1 is real time, 10 is ten times faster, 0 is as fast as possible
+  speed: number;
+  // Start the recording again when it ends
+  loop: boolean;
+  // Stamp replayed trades with the time they are replayed instead of the recorded time
+  retime: boolean;
+  // Synthetic source only: number of markets and trades per second at speed 1
+  syntheticMarkets: number;
+  syntheticTradesPerSecond: number;
+}
+
+interface KalshiReplayRecord {
+  source: 'kalshi';
+  receivedAt?: number;
+  frame: any;
+}
+
+interface PolymarketReplayRecord {
+  source: 'polymarket';
+  receivedAt?: number;
+  blockTimestamp: number; // Unix seconds
+  log: Omit<Log, 'blockNumber'> & { blockNumber: string };
+}
+
+type ReplayRecord = KalshiReplayRecord | PolymarketReplayRecord;
+
+export class ReplayAdapter implements ExchangeAdapter {
+  readonly id = 'replay';
+  readonly name = 'Replay';
+  readonly feeds = ['kalshi', 'polymarket'];
+  private isRunning = false;
+  private playback: Promise<void> | null = null;
+  private waitTimer: NodeJS.Timeout | null = null;
+  private wakeUp: (() => void) | null = null;
+  private recordsReplayed = 0;
+  private lastMessageAt: Date | null = null;
+
+  constructor(private options: ReplayOptions) {}
+
+  async start() {
+    if (this.isRunning) {
+      console.log('[Replay] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    const mode = this.options.source === 'synthetic' ? 'synthetic trades' : this.options.source;
+    console.log(`[Replay] ▶️ Playing ${mode} at ${this.options.speed || 'max'}x speed`);
+
+    this.playback = (this.options.source === 'synthetic' ? this.playSynthetic() : this.playFile())
+      .catch((error) => {
+        console.error('[Replay] Playback failed:', error);
+      })
+      .finally(() => {
+        this.isRunning = false;
+        this.playback = null;
+        console.log(`[Replay] ⏹️ Playback ended after ${this.recordsReplayed} record(s)`);
+      });
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.waitTimer) {
+      clearTimeout(this.waitTimer);
+      this.waitTimer = null;
+    }
+    this.wakeUp?.();
+    this.wakeUp = null;
+  }
+
+  async getMarketTitles(): Promise<Map<string, string>> {
+    return new Map();
+  }
+
+  getHealth(): ExchangeHealth {
+    return {
+      status: this.isRunning ? 'connected' : 'stopped',
+      lastMessageAt: this.lastMessageAt?.toISOString() ?? null,
+      details: {
+        source: this.options.source,
+        speed: this.options.speed,
+        recordsReplayed: this.recordsReplayed,
+      },
+    };
+  }
+
+  private async playFile() {
+    do {
+      const lines = readline.createInterface({
+        input: fs.createReadStream(this.options.source),
+        crlfDelay: Infinity,
+      });
+      const startedAt = Date.now();
+      let firstReceivedAt: number | null = null;
+
+      try {
+        for await (const line of lines) {
+          if (!this.isRunning) return;
+          if (!line.trim()) continue;
+
+          let record: ReplayRecord;
+          try {
+            record = JSON.parse(line);
+          } catch (error) {
+            console.error('[Replay] Skipping malformed line:', error);
+            continue;
+          }
+
+          // Keep the recorded spacing between records, scaled by the speed
+          if (this.options.speed > 0 && record.receivedAt !== undefined) {
+            firstReceivedAt ??= record.receivedAt;
+            const dueAt = startedAt + (record.receivedAt - firstReceivedAt) / this.options.speed;
+            await this.wait(dueAt - Date.now());
+            if (!this.isRunning) return;
+          }
+
+          await this.dispatch(record);
+        }
+      } finally {
+        lines.close();
+      }
+    } while (this.options.loop && this.isRunning);
+  }
+
+  private async dispatch(record: ReplayRecord) {
+    this.recordsReplayed++;
+    this.lastMessageAt = new Date();
+
+    if (record.source === 'kalshi') {
+      const frame = this.options.retime
+        ? { ...record.frame, created_time: Date.now() }
+        : record.frame;
+      await kalshiIndexer.replayFrame(frame);
+    } else if (record.source === 'polymarket') {
+      const log = {
+        ...record.log,
+        blockNumber: BigInt(record.log.blockNumber),
+      } as unknown as ExchangeLog;
+      const blockTimestamp = this.options.retime
+        ? new Date()
+        : new Date(record.blockTimestamp * 1000);
+      await polymarketIndexer.replayLog(log, blockTimestamp);
+    } else {
+      console.warn('[Replay] Skipping record with unknown source:', (record as any).source);
+    }
+  }
+
+  /**
+   * Generate Kalshi trade frames whose yes price follows a random walk per market
+   */
+  private async playSynthetic() {
+    const prices = Array.from({ length: this.options.syntheticMarkets }, () => 50);
+    const delayMs = this.options.speed > 0
+      ? 1000 / (this.options.syntheticTradesPerSecond * this.options.speed)
+      : 0;
+
+    while (this.isRunning) {
+      const market = Math.floor(Math.random() * prices.length);
+      // Step up to 2 cents either way, staying inside 1-99 cents
+      const step = Math.round((Math.random() - 0.5) * 4);
+      prices[market] = Math.min(99, Math.max(1, prices[market] + step));
+      const yesPrice = prices[market];
+
+      const frame = {
+        channel: 'trades',
+        type: 'trade',
+        market_ticker: `SIM-${market + 1}`,
+        trade_id: randomUUID(),
+        price: yesPrice,
+        count: 1 + Math.floor(Math.random() * 100),
+        yes_price: yesPrice,
+        no_price: 100 - yesPrice,
+        yes_price_dollars: (yesPrice / 100).toFixed(4),
+        no_price_dollars: ((100 - yesPrice) / 100).toFixed(4),
+        taker_side: step >= 0 ? 'yes' : 'no',
+        created_time: Date.now(),
+      };
+
+      await this.dispatch({ source: 'kalshi', frame });
+      await this.wait(delayMs);
+    }
+  }
+
+  /**
+   * Sleep that stop() can cut short
+   */
+  private wait(ms: number): Promise<void> {
+    if (ms <= 0) {
+      // Yield so a flood of records cannot starve the event loop
+      return new Promise((resolve) => setImmediate(resolve));
+    }
+    return new Promise((resolve) => {
+      this.wakeUp = resolve;
+      this.waitTimer = setTimeout(() => {
+        this.waitTimer = null;
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
+
+/**
+ * Build a replay adapter from REPLAY_* environment variables, or null when replay is off
+ */
+export function createReplayAdapterFromEnv(): ReplayAdapter | null {
+  const source = process.env.REPLAY_SOURCE;
+  if (!source) return null;
+
+  return new ReplayAdapter({
+    source,
+    speed: parseFloat(process.env.REPLAY_SPEED || '1'),
+    loop: process.env.REPLAY_LOOP === 'true',
+    retime: process.env.REPLAY_RETIME === 'true',
+    syntheticMarkets: parseInt(process.env.REPLAY_SYNTHETIC_MARKETS || '3', 10),
+    syntheticTradesPerSecond: parseFloat(process.env.REPLAY_SYNTHETIC_TPS || '5'),
+  });
+}
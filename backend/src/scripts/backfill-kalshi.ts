@@ -0,0 +1,50 @@
+import db from '../db/client';
+import { kalshiIndexer } from '../indexers/kalshi-indexer';
+
+/**
+ * Backfill Kalshi trades for one market over a date range
+ *
+ * Usage: npm run backfill:kalshi -- <ticker> <start> [end]
+ * Dates are anything Date accepts, e.g. 2024-11-05 or 2024-11-05T14:00:00Z.
+ * The end defaults to now. Trades already stored are skipped.
+ */
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date;
+}
+
+async function runBackfill() {
+  const [ticker, startArg, endArg] = process.argv.slice(2);
+
+  try {
+    if (!ticker || !startArg) {
+      throw new Error('Usage: npm run backfill:kalshi -- <ticker> <start> [end]');
+    }
+
+    const start = parseDate(startArg, 'start');
+    const end = endArg ? parseDate(endArg, 'end') : new Date();
+    if (start >= end) {
+      throw new Error('Start must be before end');
+    }
+
+    console.log(`Backfilling ${ticker} from ${start.toISOString()} to ${end.toISOString()}`);
+    const { ingested, truncated } = await kalshiIndexer.backfill({ marketId: ticker, start, end });
+    if (truncated) {
+      console.warn(`Backfill stopped at the page limit: ${ingested} trade(s) ingested, older trades in range were not fetched`);
+      process.exitCode = 1;
+    } else {
+      console.log(`Backfill completed: ${ingested} trade(s) ingested`);
+    }
+  } catch (error) {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.pool.end();
+  }
+}
+
+runBackfill();
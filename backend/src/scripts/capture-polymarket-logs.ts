@@ -0,0 +1,57 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { createPublicClient, http, Hash } from 'viem';
+import { polygon } from 'viem/chains';
+import { CTF_EXCHANGE_ADDRESS } from '../indexers/polymarket-decoder';
+
+dotenv.config({ path: path.resolve(__dirname, '../../.env') });
+dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
+
+/**
+ * Print the CTF Exchange logs of Polygon transactions as replay records
+ *
+ * Usage: npm run capture:polymarket -- <txHash>... > recording.ndjson
+ * Reads POLYGON_RPC_URL, or the https form of ALCHEMY_WS_URL. The output is
+ * the REPLAY_SOURCE format, so it can be replayed or used as a test fixture.
+ */
+
+function getRpcUrl(): string {
+  if (process.env.POLYGON_RPC_URL) return process.env.POLYGON_RPC_URL;
+  if (process.env.ALCHEMY_WS_URL) return process.env.ALCHEMY_WS_URL.replace(/^ws(s?):/, 'http$1:');
+  throw new Error('Set POLYGON_RPC_URL or ALCHEMY_WS_URL');
+}
+
+async function runCapture() {
+  const txHashes = process.argv.slice(2);
+
+  try {
+    if (txHashes.length === 0) {
+      throw new Error('Usage: npm run capture:polymarket -- <txHash>...');
+    }
+
+    const client = createPublicClient({ chain: polygon, transport: http(getRpcUrl()) });
+
+    for (const hash of txHashes) {
+      const receipt = await client.getTransactionReceipt({ hash: hash as Hash });
+      const block = await client.getBlock({ blockNumber: receipt.blockNumber });
+      const blockTimestamp = Number(block.timestamp);
+
+      const logs = receipt.logs.filter((log) => log.address.toLowerCase() === CTF_EXCHANGE_ADDRESS.toLowerCase());
+      for (const log of logs) {
+        const record = {
+          source: 'polymarket',
+          receivedAt: blockTimestamp * 1000,
+          blockTimestamp,
+          log: { ...log, blockNumber: log.blockNumber.toString() },
+        };
+        process.stdout.write(`${JSON.stringify(record)}\n`);
+      }
+      console.error(`Captured ${logs.length} exchange log(s) from ${hash} (block ${receipt.blockNumber})`);
+    }
+  } catch (error) {
+    console.error('Capture failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runCapture();
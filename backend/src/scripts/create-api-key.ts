@@ -0,0 +1,40 @@
+import db from '../db/client';
+import { createApiKey, validateApiKeyFields } from '../services/api-keys';
+
+/**
+ * Issue an API key, e.g. the first admin key
+ *
+ * Usage: npm run keys:create -- <name> [scopes]
+ * Scopes are comma-separated, e.g. read,export,admin, and default to read.
+ * The key is printed once; only its hash is stored.
+ */
+
+async function runCreate() {
+  const [name, scopesArg] = process.argv.slice(2);
+
+  try {
+    if (!name) {
+      throw new Error('Usage: npm run keys:create -- <name> [scopes]');
+    }
+
+    const validated = validateApiKeyFields({
+      name,
+      scopes: scopesArg ? scopesArg.split(',').map((scope) => scope.trim()) : undefined,
+    });
+    if ('error' in validated) {
+      throw new Error(validated.error);
+    }
+
+    const { apiKey, secret } = await createApiKey(validated.fields);
+    console.log(`Created API key ${apiKey.id} (${apiKey.name}) with scopes: ${apiKey.scopes.join(', ')}`);
+    console.log(`Key: ${secret}`);
+    console.log('Store it now: only its hash is kept, so it cannot be shown again.');
+  } catch (error) {
+    console.error('Creating API key failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.pool.end();
+  }
+}
+
+runCreate();
@@ -0,0 +1,271 @@
+import { ApiKey } from '../types';
+import { ApiKeyUsageDelta, findActiveApiKey, getRecordedRequests, hashApiKey, recordApiKeyUsage } from './api-keys';
+
+/**
+ * Access Control
+ * Authenticates API keys and enforces their rate limits and daily quotas, for
+ * REST requests and WebSocket connections alike. Keys are cached briefly so a
+ * request doesn't cost a lookup, and usage is counted in memory and flushed to
+ * api_key_usage every few seconds. Requests without a key are rate limited
+ * per client address, and so are lookups of unknown keys.
+ */
+
+// How long a looked-up key is trusted before it is looked up again, and how many are kept
+const KEY_CACHE_MS = 60 * 1000;
+const KEY_CACHE_SIZE = 10000;
+const USAGE_FLUSH_MS = 10 * 1000;
+
+// Requests per minute for clients without a key, per address
+const ANONYMOUS_RATE_LIMIT_PER_MINUTE = parseInt(process.env.ANON_RATE_LIMIT_PER_MINUTE || '120', 10);
+
+// Unknown or revoked keys an address may send per minute; further keys from it
+// are refused without being looked up
+const FAILED_AUTH_PER_MINUTE = 20;
+
+export type AccessDecision =
+  | { allowed: true; rateLimit: number; rateRemaining: number; quotaRemaining: number | null }
+  | {
+      allowed: false;
+      reason: 'rate_limit' | 'quota';
+      rateLimit: number;
+      rateRemaining: number;
+      quotaRemaining: number | null;
+      retryAfterSeconds: number;
+    };
+
+export type AuthResult =
+  | { apiKey: ApiKey }
+  | { apiKey: null; reason: 'invalid' }
+  | { apiKey: null; reason: 'rate_limit'; retryAfterSeconds: number };
+
+// Token bucket holding up to a minute's worth of requests
+interface RateBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Requests a key has made today: those recorded when first seen today, plus those counted since
+interface DailyCount {
+  day: string;
+  recorded: Promise<number>;
+  counted: number;
+}
+
+function getUtcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+class AccessControl {
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  // Active keys by secret hash, oldest first
+  private keyCache = new Map<string, { apiKey: ApiKey; expiresAt: number }>();
+  // Rate limit buckets by 'key:<id>', 'ip:<address>' or, for unknown keys, 'auth:<address>'
+  private buckets = new Map<string, RateBucket>();
+  private dailyCounts = new Map<number, DailyCount>();
+  // Usage not yet written, by '<keyId>:<day>'
+  private pendingUsage = new Map<string, ApiKeyUsageDelta>();
+
+  start() {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setInterval(() => {
+      this.flushUsage().catch((error) => {
+        console.error('[AccessControl] Error recording API key usage:', error);
+      });
+      this.dropIdleBuckets();
+      this.dropExpiredKeys();
+    }, USAGE_FLUSH_MS);
+
+    console.log('[AccessControl] ✅ Enforcing API keys, rate limits and quotas');
+  }
+
+  async stop() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flushUsage();
+    console.log('[AccessControl] Stopped');
+  }
+
+  /**
+   * The active key a secret belongs to
+   * Unknown and revoked keys count against the sending address, which is
+   * refused without a lookup once it has sent too many.
+   */
+  async authenticate(secret: string, address: string): Promise<AuthResult> {
+    const hash = hashApiKey(secret);
+    const cached = this.keyCache.get(hash);
+    if (cached && cached.expiresAt > Date.now()) return { apiKey: cached.apiKey };
+
+    const failures = this.refill(`auth:${address}`, FAILED_AUTH_PER_MINUTE);
+    if (failures.tokens < 1) {
+      const perSecond = FAILED_AUTH_PER_MINUTE / 60;
+      return { apiKey: null, reason: 'rate_limit', retryAfterSeconds: Math.ceil((1 - failures.tokens) / perSecond) };
+    }
+
+    // Taken before the lookup so concurrent guesses can't all get through; given back for a valid key
+    failures.tokens -= 1;
+    const apiKey = await findActiveApiKey(secret);
+    if (!apiKey) return { apiKey: null, reason: 'invalid' };
+    failures.tokens = Math.min(FAILED_AUTH_PER_MINUTE, failures.tokens + 1);
+
+    this.keyCache.delete(hash);
+    this.keyCache.set(hash, { apiKey, expiresAt: Date.now() + KEY_CACHE_MS });
+    if (this.keyCache.size > KEY_CACHE_SIZE) {
+      this.keyCache.delete(this.keyCache.keys().next().value!);
+    }
+    return { apiKey };
+  }
+
+  /**
+   * Forget cached lookups of a key, e.g. after it is changed or revoked
+   */
+  invalidate(keyId: number) {
+    for (const [hash, cached] of this.keyCache) {
+      if (cached.apiKey.id === keyId) this.keyCache.delete(hash);
+    }
+    this.buckets.delete(`key:${keyId}`);
+  }
+
+  /**
+   * Count a request against its key's rate limit and daily quota, or against
+   * the anonymous rate limit for its address if it has no key
+   */
+  async consume(apiKey: ApiKey | null, address: string): Promise<AccessDecision> {
+    const rateLimit = apiKey ? apiKey.rateLimitPerMinute : ANONYMOUS_RATE_LIMIT_PER_MINUTE;
+    const bucket = this.refill(apiKey ? `key:${apiKey.id}` : `ip:${address}`, rateLimit);
+
+    let quotaRemaining: number | null = null;
+    if (apiKey?.dailyQuota != null) {
+      const used = await this.getRequestsToday(apiKey.id);
+      quotaRemaining = Math.max(apiKey.dailyQuota - used, 0);
+      if (quotaRemaining === 0) {
+        this.countUsage(apiKey.id, false);
+        return {
+          allowed: false,
+          reason: 'quota',
+          rateLimit,
+          rateRemaining: Math.floor(bucket.tokens),
+          quotaRemaining,
+          retryAfterSeconds: secondsUntilUtcMidnight(),
+        };
+      }
+    }
+
+    if (bucket.tokens < 1) {
+      if (apiKey) this.countUsage(apiKey.id, false);
+      const perSecond = rateLimit / 60;
+      return {
+        allowed: false,
+        reason: 'rate_limit',
+        rateLimit,
+        rateRemaining: 0,
+        quotaRemaining,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / perSecond),
+      };
+    }
+
+    bucket.tokens -= 1;
+    if (apiKey) this.countUsage(apiKey.id, true);
+    return {
+      allowed: true,
+      rateLimit,
+      rateRemaining: Math.floor(bucket.tokens),
+      quotaRemaining: quotaRemaining !== null ? quotaRemaining - 1 : null,
+    };
+  }
+
+  private refill(bucketKey: string, rateLimit: number): RateBucket {
+    const now = Date.now();
+    const bucket = this.buckets.get(bucketKey);
+    if (!bucket) {
+      const created = { tokens: rateLimit, updatedAt: now };
+      this.buckets.set(bucketKey, created);
+      return created;
+    }
+
+    bucket.tokens = Math.min(rateLimit, bucket.tokens + ((now - bucket.updatedAt) / 60000) * rateLimit);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private async getRequestsToday(keyId: number): Promise<number> {
+    const day = getUtcDay();
+    let count = this.dailyCounts.get(keyId);
+    if (!count || count.day !== day) {
+      count = { day, recorded: getRecordedRequests(keyId, day), counted: 0 };
+      this.dailyCounts.set(keyId, count);
+    }
+
+    try {
+      return (await count.recorded) + count.counted;
+    } catch (error) {
+      // Look the recorded count up again next time
+      if (this.dailyCounts.get(keyId) === count) this.dailyCounts.delete(keyId);
+      throw error;
+    }
+  }
+
+  private countUsage(keyId: number, allowed: boolean) {
+    const day = getUtcDay();
+    const pendingKey = `${keyId}:${day}`;
+    const pending = this.pendingUsage.get(pendingKey) ?? { keyId, day, requests: 0, rejected: 0 };
+    if (allowed) {
+      pending.requests += 1;
+      const count = this.dailyCounts.get(keyId);
+      if (count?.day === day) count.counted += 1;
+    } else {
+      pending.rejected += 1;
+    }
+    this.pendingUsage.set(pendingKey, pending);
+  }
+
+  private async flushUsage() {
+    if (this.pendingUsage.size === 0) return;
+
+    const deltas = Array.from(this.pendingUsage.values());
+    this.pendingUsage.clear();
+
+    try {
+      await recordApiKeyUsage(deltas);
+    } catch (error) {
+      // Keep the counts for the next flush
+      for (const delta of deltas) {
+        const pendingKey = `${delta.keyId}:${delta.day}`;
+        const pending = this.pendingUsage.get(pendingKey);
+        if (pending) {
+          pending.requests += delta.requests;
+          pending.rejected += delta.rejected;
+        } else {
+          this.pendingUsage.set(pendingKey, delta);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private dropExpiredKeys() {
+    const now = Date.now();
+    for (const [hash, cached] of this.keyCache) {
+      if (cached.expiresAt <= now) this.keyCache.delete(hash);
+    }
+  }
+
+  // A bucket untouched for a minute is full again, the same as no bucket
+  private dropIdleBuckets() {
+    const cutoff = Date.now() - 60 * 1000;
+    for (const [bucketKey, bucket] of this.buckets) {
+      if (bucket.updatedAt < cutoff) this.buckets.delete(bucketKey);
+    }
+  }
+}
+
+export const accessControl = new AccessControl();
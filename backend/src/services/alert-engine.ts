@@ -0,0 +1,428 @@
+import db from '../db/client';
+import { tradeEmitter } from '../events/trade-emitter';
+import { alertEmitter } from '../events/alert-emitter';
+import { marketEmitter } from '../events/market-emitter';
+import { AlertEvent, AlertRule, MarketKey, Trade } from '../types';
+import { listAlertRules, toAlertEvent } from './alert-rules';
+import { marketCatalog } from './market-catalog';
+import { checkWebhookHost } from './webhook-targets';
+
+/**
+ * Alert Engine
+ * Evaluates enabled alert rules against trades as they are ingested. Each
+ * firing is recorded in alert_history, broadcast to the market's WebSocket
+ * subscribers and POSTed to the rule's webhook (or ALERT_WEBHOOK_URL), with
+ * retries and exponential backoff. Rules on markets that have closed or
+ * resolved stay stored but are no longer evaluated.
+ */
+
+// Webhook for rules without their own; alerts are only broadcast if neither is set
+const DEFAULT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || null;
+
+// Delivery attempts per alert before it is marked failed
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.ALERT_WEBHOOK_MAX_ATTEMPTS || '5', 10);
+
+// Delay before the first retry; doubles after every failed attempt
+const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.ALERT_WEBHOOK_RETRY_MS || '1000', 10);
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Trades older than this (backfills, replays) are not evaluated
+const MAX_TRADE_AGE_MS = parseInt(process.env.ALERT_MAX_TRADE_AGE_MS || String(5 * 60 * 1000), 10);
+
+// How often the normal volume of volume_spike rules is recomputed from candles
+const BASELINE_REFRESH_MS = 60000;
+
+const MINUTE_MS = 60 * 1000;
+
+interface RecentTrade {
+  timestamp: number;
+  price: number;
+  quantity: number;
+}
+
+// A rule's verdict on a trade: the observed value and a description
+interface Trigger {
+  value: number;
+  message: string;
+}
+
+function getMarketKey(exchange: string, marketId: string): string {
+  return `${exchange}:${marketId}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class AlertEngine {
+  private isRunning = false;
+  private baselineTimer: NodeJS.Timeout | null = null;
+
+  // Enabled rules by market key
+  private rulesByMarket = new Map<string, AlertRule[]>();
+  // Trades within each market's longest rule window, oldest first
+  private recentTrades = new Map<string, RecentTrade[]>();
+  // Last traded price by market key, to detect level crossings
+  private lastPrices = new Map<string, number>();
+  // Average volume per window before it, by volume_spike rule id
+  private baselines = new Map<number, number>();
+  // When each rule last fired (ms), for cooldowns
+  private lastTriggered = new Map<number, number>();
+
+  private handleTrade = (trade: Trade) => {
+    const key = getMarketKey(trade.exchange, trade.marketId);
+    const rules = this.rulesByMarket.get(key);
+    if (!rules) return;
+
+    // Old trades (gap fills, backfills) would rewind the last price and windows
+    const timestamp = trade.timestamp.getTime();
+    if (Date.now() - timestamp > MAX_TRADE_AGE_MS) return;
+
+    const price = parseFloat(trade.price);
+    const previousPrice = this.lastPrices.get(key);
+    this.lastPrices.set(key, price);
+
+    const recent = this.recentTrades.get(key) ?? [];
+    recent.push({ timestamp, price, quantity: parseFloat(trade.quantity) });
+    const longestWindow = Math.max(0, ...rules.map((rule) => rule.windowMinutes ?? 0)) * MINUTE_MS;
+    while (recent.length > 1 && recent[0].timestamp < timestamp - longestWindow) {
+      recent.shift();
+    }
+    this.recentTrades.set(key, recent);
+
+    for (const rule of rules) {
+      const lastFired = this.lastTriggered.get(rule.id);
+      if (lastFired !== undefined && Date.now() - lastFired < rule.cooldownSeconds * 1000) continue;
+
+      const trigger = this.evaluate(rule, trade, previousPrice, recent);
+      if (!trigger) continue;
+
+      this.lastTriggered.set(rule.id, Date.now());
+      this.fire(rule, trade, trigger).catch((error) => {
+        console.error(`[Alerts] Failed to record alert for rule ${rule.id}:`, error);
+      });
+    }
+  };
+
+  private handleMarketsEnded = (markets: MarketKey[]) => {
+    let dropped = 0;
+    for (const { exchange, marketId } of markets) {
+      const key = getMarketKey(exchange, marketId);
+      const rules = this.rulesByMarket.get(key);
+      if (!rules) continue;
+
+      for (const rule of rules) {
+        this.baselines.delete(rule.id);
+        this.lastTriggered.delete(rule.id);
+      }
+      this.rulesByMarket.delete(key);
+      this.recentTrades.delete(key);
+      this.lastPrices.delete(key);
+      dropped += rules.length;
+    }
+    if (dropped > 0) {
+      console.log(`[Alerts] Stopped evaluating ${dropped} rule(s) on closed or resolved markets`);
+    }
+  };
+
+  async start() {
+    if (this.isRunning) {
+      console.log('[Alerts] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    tradeEmitter.on('trade', this.handleTrade);
+    marketEmitter.on('ended', this.handleMarketsEnded);
+
+    await this.reload();
+    this.baselineTimer = setInterval(() => {
+      this.refreshBaselines().catch((error) => {
+        console.error('[Alerts] Failed to refresh volume baselines:', error);
+      });
+    }, BASELINE_REFRESH_MS);
+
+    this.resumeDeliveries().catch((error) => {
+      console.error('[Alerts] Failed to resume webhook deliveries:', error);
+    });
+
+    console.log('[Alerts] ✅ Evaluating alert rules on live trades');
+  }
+
+  stop() {
+    this.isRunning = false;
+    tradeEmitter.off('trade', this.handleTrade);
+    marketEmitter.off('ended', this.handleMarketsEnded);
+    if (this.baselineTimer) {
+      clearInterval(this.baselineTimer);
+      this.baselineTimer = null;
+    }
+    console.log('[Alerts] Stopped');
+  }
+
+  /**
+   * Load the enabled rules again, e.g. after one was created, changed or deleted
+   * Rules on closed or resolved markets are left out.
+   */
+  async reload() {
+    const enabled = await listAlertRules({ enabled: true });
+    const ended = await marketCatalog.getEndedMarkets(enabled);
+    const rules = enabled.filter((rule) => !ended.has(getMarketKey(rule.exchange, rule.marketId)));
+
+    const rulesByMarket = new Map<string, AlertRule[]>();
+    for (const rule of rules) {
+      const key = getMarketKey(rule.exchange, rule.marketId);
+      rulesByMarket.set(key, [...(rulesByMarket.get(key) ?? []), rule]);
+      if (rule.lastTriggeredAt && !this.lastTriggered.has(rule.id)) {
+        this.lastTriggered.set(rule.id, rule.lastTriggeredAt.getTime());
+      }
+    }
+    this.rulesByMarket = rulesByMarket;
+
+    for (const key of this.recentTrades.keys()) {
+      if (!rulesByMarket.has(key)) this.recentTrades.delete(key);
+    }
+    for (const key of this.lastPrices.keys()) {
+      if (!rulesByMarket.has(key)) this.lastPrices.delete(key);
+    }
+
+    await this.seedLastPrices();
+    await this.refreshBaselines();
+
+    console.log(`[Alerts] Loaded ${rules.length} enabled rule(s) on ${rulesByMarket.size} market(s)`);
+  }
+
+  /**
+   * Check one rule against a trade
+   */
+  private evaluate(rule: AlertRule, trade: Trade, previousPrice: number | undefined, recent: RecentTrade[]): Trigger | null {
+    const threshold = parseFloat(rule.threshold);
+    const price = parseFloat(trade.price);
+
+    switch (rule.type) {
+      case 'price_cross': {
+        if (previousPrice === undefined) return null;
+        const crossed = rule.direction === 'above'
+          ? previousPrice < threshold && price >= threshold
+          : previousPrice > threshold && price <= threshold;
+        return crossed
+          ? { value: price, message: `Price crossed ${rule.direction} ${threshold} at ${price}` }
+          : null;
+      }
+
+      case 'price_change': {
+        const since = trade.timestamp.getTime() - (rule.windowMinutes ?? 0) * MINUTE_MS;
+        const prices = recent.filter((t) => t.timestamp >= since).map((t) => t.price);
+        const low = Math.min(...prices);
+        const high = Math.max(...prices);
+        const rise = low > 0 ? ((price - low) / low) * 100 : 0;
+        const fall = high > 0 ? ((high - price) / high) * 100 : 0;
+
+        if (rule.direction !== 'down' && rise >= threshold) {
+          return { value: rise, message: `Price up ${rise.toFixed(2)}% to ${price} within ${rule.windowMinutes}m` };
+        }
+        if (rule.direction !== 'up' && fall >= threshold) {
+          return { value: -fall, message: `Price down ${fall.toFixed(2)}% to ${price} within ${rule.windowMinutes}m` };
+        }
+        return null;
+      }
+
+      case 'trade_size': {
+        const quantity = parseFloat(trade.quantity);
+        return quantity >= threshold
+          ? { value: quantity, message: `Trade of ${quantity} at ${price} (${trade.side})` }
+          : null;
+      }
+
+      case 'volume_spike': {
+        const baseline = this.baselines.get(rule.id);
+        if (!baseline) return null;
+        const since = trade.timestamp.getTime() - (rule.windowMinutes ?? 0) * MINUTE_MS;
+        const volume = recent.filter((t) => t.timestamp >= since).reduce((sum, t) => sum + t.quantity, 0);
+        const multiple = volume / baseline;
+        return multiple >= threshold
+          ? { value: multiple, message: `Volume ${volume} in ${rule.windowMinutes}m is ${multiple.toFixed(1)}x normal` }
+          : null;
+      }
+    }
+  }
+
+  /**
+   * Record a firing, then broadcast it and deliver it to the webhook
+   */
+  private async fire(rule: AlertRule, trade: Trade, trigger: Trigger) {
+    const webhookUrl = rule.webhookUrl ?? DEFAULT_WEBHOOK_URL;
+
+    const result = await db.query(
+      `
+        INSERT INTO alert_history (rule_id, exchange, market_id, type, message, value, trade_id, webhook_status)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING *
+      `,
+      [
+        rule.id, rule.exchange, rule.marketId, rule.type, trigger.message,
+        trigger.value, trade.id ?? null, webhookUrl ? 'pending' : null,
+      ]
+    );
+    await db.query('UPDATE alert_rules SET last_triggered_at = $2 WHERE id = $1', [rule.id, result.rows[0].triggered_at]);
+
+    const alert = toAlertEvent(result.rows[0]);
+    console.log(`🔔 [Alerts] Rule ${rule.id} on ${rule.exchange}:${rule.marketId}: ${alert.message}`);
+    alertEmitter.emitAlert(alert);
+
+    if (webhookUrl) {
+      await this.deliver(alert, webhookUrl);
+    }
+  }
+
+  /**
+   * POST an alert to a webhook, retrying with exponential backoff
+   * Every attempt is recorded on the alert's history row. Rule webhooks whose
+   * host resolves to a non-public address fail without being called.
+   */
+  private async deliver(alert: AlertEvent, url: string, attempts: number = alert.webhookAttempts) {
+    while (attempts < WEBHOOK_MAX_ATTEMPTS) {
+      attempts += 1;
+      try {
+        const refused = url !== DEFAULT_WEBHOOK_URL ? await checkWebhookHost(url) : null;
+        if (refused) {
+          await db.query(
+            `UPDATE alert_history SET webhook_status = 'failed', webhook_attempts = $2, webhook_error = $3 WHERE id = $1`,
+            [alert.id, attempts, refused]
+          );
+          console.warn(`[Alerts] ⚠️ Webhook of alert ${alert.id} refused: ${refused}`);
+          return;
+        }
+
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ type: 'alert', data: alert }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+
+        await db.query(
+          `UPDATE alert_history SET webhook_status = 'delivered', webhook_attempts = $2, webhook_error = NULL, delivered_at = NOW() WHERE id = $1`,
+          [alert.id, attempts]
+        );
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const failed = attempts >= WEBHOOK_MAX_ATTEMPTS;
+        await db.query(
+          'UPDATE alert_history SET webhook_status = $2, webhook_attempts = $3, webhook_error = $4 WHERE id = $1',
+          [alert.id, failed ? 'failed' : 'pending', attempts, message]
+        );
+
+        if (failed) {
+          console.warn(`[Alerts] ⚠️ Webhook delivery of alert ${alert.id} failed after ${attempts} attempts: ${message}`);
+          return;
+        }
+        await sleep(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1));
+      }
+    }
+  }
+
+  /**
+   * Retry webhook deliveries interrupted by a restart
+   */
+  private async resumeDeliveries() {
+    const result = await db.query(`
+      SELECT h.*, r.webhook_url
+      FROM alert_history h
+      JOIN alert_rules r ON r.id = h.rule_id
+      WHERE h.webhook_status = 'pending'
+      ORDER BY h.id ASC
+    `);
+
+    for (const row of result.rows) {
+      const url = row.webhook_url ?? DEFAULT_WEBHOOK_URL;
+      const alert = toAlertEvent(row);
+      if (url) {
+        await this.deliver(alert, url);
+      } else {
+        await db.query(
+          `UPDATE alert_history SET webhook_status = 'failed', webhook_error = 'No webhook configured' WHERE id = $1`,
+          [alert.id]
+        );
+      }
+    }
+  }
+
+  /**
+   * Start each watched market from its latest stored price, so a level can be
+   * crossed by the first trade after a restart
+   */
+  private async seedLastPrices() {
+    const unseeded = Array.from(this.rulesByMarket.values())
+      .map((rules) => rules[0])
+      .filter((rule) => !this.lastPrices.has(getMarketKey(rule.exchange, rule.marketId)));
+    if (unseeded.length === 0) return;
+
+    const result = await db.query(
+      `
+        SELECT m.exchange, m.market_id, latest.price
+        FROM unnest($1::varchar[], $2::varchar[]) AS m(exchange, market_id)
+        JOIN LATERAL (
+          SELECT price FROM trades t
+          WHERE t.exchange = m.exchange AND t.market_id = m.market_id
+          ORDER BY timestamp DESC LIMIT 1
+        ) latest ON true
+      `,
+      [unseeded.map((rule) => rule.exchange), unseeded.map((rule) => rule.marketId)]
+    );
+
+    for (const row of result.rows) {
+      const key = getMarketKey(row.exchange, row.market_id);
+      if (!this.lastPrices.has(key)) this.lastPrices.set(key, parseFloat(row.price));
+    }
+  }
+
+  /**
+   * Average volume per window over each volume_spike rule's baseline period,
+   * which ends where the rule's window begins
+   */
+  private async refreshBaselines() {
+    const rules = Array.from(this.rulesByMarket.values())
+      .flat()
+      .filter((rule) => rule.type === 'volume_spike');
+
+    const baselines = new Map<number, number>();
+    if (rules.length > 0) {
+      const result = await db.query(
+        `
+          SELECT r.id, COALESCE(SUM(c.volume), 0) as volume
+          FROM unnest($1::int[], $2::varchar[], $3::varchar[], $4::int[], $5::int[])
+            AS r(id, exchange, market_id, window_minutes, baseline_minutes)
+          LEFT JOIN candles c
+            ON c.exchange = r.exchange AND c.market_id = r.market_id AND c.interval = '1m'
+           AND c.open_time >= $6::timestamptz - make_interval(mins => r.window_minutes + r.baseline_minutes)
+           AND c.open_time < $6::timestamptz - make_interval(mins => r.window_minutes)
+          GROUP BY r.id
+        `,
+        [
+          rules.map((rule) => rule.id),
+          rules.map((rule) => rule.exchange),
+          rules.map((rule) => rule.marketId),
+          rules.map((rule) => rule.windowMinutes),
+          rules.map((rule) => rule.baselineMinutes),
+          new Date(),
+        ]
+      );
+
+      for (const row of result.rows) {
+        const rule = rules.find((r) => r.id === row.id);
+        if (!rule?.windowMinutes || !rule.baselineMinutes) continue;
+        baselines.set(row.id, (parseFloat(row.volume) * rule.windowMinutes) / rule.baselineMinutes);
+      }
+    }
+
+    this.baselines = baselines;
+  }
+}
+
+export const alertEngine = new AlertEngine();
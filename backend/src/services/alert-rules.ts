@@ -0,0 +1,278 @@
+import db from '../db/client';
+import { exchangeRegistry } from '../indexers/registry';
+import { AlertDirection, AlertEvent, AlertRule, AlertRuleType } from '../types';
+import { validateWebhookUrl } from './webhook-targets';
+
+/**
+ * Alert Rules Service
+ * Storage and validation of per-market alert rules and their firing history.
+ * Rules are evaluated against live trades by the alert engine.
+ */
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['price_cross', 'price_change', 'trade_size', 'volume_spike'];
+
+// Directions each rule type accepts; types without any take none
+const DIRECTIONS: Partial<Record<AlertRuleType, AlertDirection[]>> = {
+  price_cross: ['above', 'below'],
+  price_change: ['up', 'down', 'any'],
+};
+
+// Types that look back over a window of trades
+const WINDOWED_TYPES: AlertRuleType[] = ['price_change', 'volume_spike'];
+
+const DEFAULT_WINDOW_MINUTES = 5;
+const DEFAULT_BASELINE_MINUTES = 60;
+const DEFAULT_COOLDOWN_SECONDS = 300;
+const MAX_WINDOW_MINUTES = 24 * 60;
+const MAX_BASELINE_MINUTES = 7 * 24 * 60;
+const MAX_COOLDOWN_SECONDS = 7 * 24 * 60 * 60;
+
+// Fields a client sets on a rule
+export type AlertRuleFields = Omit<AlertRule, 'id' | 'lastTriggeredAt' | 'createdAt' | 'updatedAt'>;
+
+export function isAlertRuleType(value: unknown): value is AlertRuleType {
+  return typeof value === 'string' && (ALERT_RULE_TYPES as string[]).includes(value);
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate a rule from a request body, filling in defaults
+ * For updates, pass the stored rule; the body's fields replace its fields.
+ * Returns an error message instead if any field is invalid.
+ */
+export function validateAlertRule(
+  body: Record<string, unknown>,
+  existing?: AlertRule
+): { rule: AlertRuleFields } | { error: string } {
+  const merged: Record<string, unknown> = { ...existing, ...body };
+  const { exchange, marketId, type, direction, threshold, windowMinutes, baselineMinutes, cooldownSeconds, webhookUrl, enabled } = merged;
+
+  if (typeof exchange !== 'string' || typeof marketId !== 'string' || !marketId || !type || threshold === undefined) {
+    return { error: 'Missing required fields: exchange, marketId, type, threshold' };
+  }
+
+  if (!exchangeRegistry.has(exchange)) {
+    return { error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}` };
+  }
+
+  if (!isAlertRuleType(type)) {
+    return { error: `Invalid type. Must be one of: ${ALERT_RULE_TYPES.map((t) => `"${t}"`).join(', ')}` };
+  }
+
+  const value = typeof threshold === 'number' ? threshold : typeof threshold === 'string' ? parseFloat(threshold) : NaN;
+  if (!Number.isFinite(value) || value <= 0) {
+    return { error: 'Invalid threshold. Must be a positive number' };
+  }
+  if (type === 'price_cross' && value >= 1) {
+    return { error: 'Invalid threshold. A price level must be between 0 and 1' };
+  }
+
+  const directions = DIRECTIONS[type];
+  let ruleDirection: AlertDirection | null = null;
+  if (directions) {
+    ruleDirection = (direction ?? (type === 'price_change' ? 'any' : null)) as AlertDirection | null;
+    if (!ruleDirection || !directions.includes(ruleDirection)) {
+      return { error: `Invalid direction for ${type}. Must be one of: ${directions.map((d) => `"${d}"`).join(', ')}` };
+    }
+  }
+
+  let ruleWindow: number | null = null;
+  let ruleBaseline: number | null = null;
+  if (WINDOWED_TYPES.includes(type)) {
+    ruleWindow = (windowMinutes ?? DEFAULT_WINDOW_MINUTES) as number;
+    if (!isIntegerInRange(ruleWindow, 1, MAX_WINDOW_MINUTES)) {
+      return { error: `Invalid windowMinutes. Must be a whole number from 1 to ${MAX_WINDOW_MINUTES}` };
+    }
+  }
+  if (type === 'volume_spike') {
+    ruleBaseline = (baselineMinutes ?? DEFAULT_BASELINE_MINUTES) as number;
+    if (!isIntegerInRange(ruleBaseline, ruleWindow ?? 1, MAX_BASELINE_MINUTES)) {
+      return { error: `Invalid baselineMinutes. Must be a whole number from windowMinutes to ${MAX_BASELINE_MINUTES}` };
+    }
+  }
+
+  const ruleCooldown = cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS;
+  if (!isIntegerInRange(ruleCooldown, 0, MAX_COOLDOWN_SECONDS)) {
+    return { error: 'Invalid cooldownSeconds. Must be a whole number of seconds, at most 7 days' };
+  }
+
+  const ruleWebhook = webhookUrl ?? null;
+  if (ruleWebhook !== null && (typeof ruleWebhook !== 'string' || !/^https?:\/\/\S+$/.test(ruleWebhook))) {
+    return { error: 'Invalid webhookUrl. Must be an http(s) URL' };
+  }
+  const webhookError = ruleWebhook !== null ? validateWebhookUrl(ruleWebhook) : null;
+  if (webhookError) {
+    return { error: webhookError };
+  }
+
+  const ruleEnabled = enabled ?? true;
+  if (typeof ruleEnabled !== 'boolean') {
+    return { error: 'Invalid enabled. Must be a boolean' };
+  }
+
+  return {
+    rule: {
+      exchange,
+      marketId,
+      type,
+      direction: ruleDirection,
+      threshold: value.toString(),
+      windowMinutes: ruleWindow,
+      baselineMinutes: ruleBaseline,
+      cooldownSeconds: ruleCooldown,
+      webhookUrl: ruleWebhook,
+      enabled: ruleEnabled,
+    },
+  };
+}
+
+function toAlertRule(row: any): AlertRule {
+  return {
+    id: row.id,
+    exchange: row.exchange,
+    marketId: row.market_id,
+    type: row.type,
+    direction: row.direction,
+    threshold: row.threshold.toString(),
+    windowMinutes: row.window_minutes,
+    baselineMinutes: row.baseline_minutes,
+    cooldownSeconds: row.cooldown_seconds,
+    webhookUrl: row.webhook_url,
+    enabled: row.enabled,
+    lastTriggeredAt: row.last_triggered_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function toAlertEvent(row: any): AlertEvent {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    exchange: row.exchange,
+    marketId: row.market_id,
+    type: row.type,
+    message: row.message,
+    value: row.value.toString(),
+    tradeId: row.trade_id,
+    triggeredAt: row.triggered_at,
+    webhookStatus: row.webhook_status,
+    webhookAttempts: row.webhook_attempts,
+    webhookError: row.webhook_error,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+/**
+ * Alert rules, oldest first, optionally for one market or only enabled ones
+ */
+export async function listAlertRules(
+  { exchange, marketId, enabled }: { exchange?: string; marketId?: string; enabled?: boolean } = {}
+): Promise<AlertRule[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (exchange) {
+    params.push(exchange);
+    conditions.push(`exchange = $${params.length}`);
+  }
+  if (marketId) {
+    params.push(marketId);
+    conditions.push(`market_id = $${params.length}`);
+  }
+  if (enabled !== undefined) {
+    params.push(enabled);
+    conditions.push(`enabled = $${params.length}`);
+  }
+
+  const result = await db.query(
+    `SELECT * FROM alert_rules ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY id ASC`,
+    params
+  );
+  return result.rows.map(toAlertRule);
+}
+
+export async function getAlertRule(id: number): Promise<AlertRule | null> {
+  const result = await db.query('SELECT * FROM alert_rules WHERE id = $1', [id]);
+  return result.rows[0] ? toAlertRule(result.rows[0]) : null;
+}
+
+export async function createAlertRule(rule: AlertRuleFields): Promise<AlertRule> {
+  const result = await db.query(
+    `
+      INSERT INTO alert_rules (exchange, market_id, type, direction, threshold, window_minutes,
+                               baseline_minutes, cooldown_seconds, webhook_url, enabled)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `,
+    [
+      rule.exchange, rule.marketId, rule.type, rule.direction, rule.threshold, rule.windowMinutes,
+      rule.baselineMinutes, rule.cooldownSeconds, rule.webhookUrl, rule.enabled,
+    ]
+  );
+  return toAlertRule(result.rows[0]);
+}
+
+/**
+ * Replace a rule's fields; returns null if it does not exist
+ */
+export async function updateAlertRule(id: number, rule: AlertRuleFields): Promise<AlertRule | null> {
+  const result = await db.query(
+    `
+      UPDATE alert_rules
+      SET exchange = $2, market_id = $3, type = $4, direction = $5, threshold = $6, window_minutes = $7,
+          baseline_minutes = $8, cooldown_seconds = $9, webhook_url = $10, enabled = $11, updated_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `,
+    [
+      id, rule.exchange, rule.marketId, rule.type, rule.direction, rule.threshold, rule.windowMinutes,
+      rule.baselineMinutes, rule.cooldownSeconds, rule.webhookUrl, rule.enabled,
+    ]
+  );
+  return result.rows[0] ? toAlertRule(result.rows[0]) : null;
+}
+
+/**
+ * Delete a rule and its history; returns false if it did not exist
+ */
+export async function deleteAlertRule(id: number): Promise<boolean> {
+  const result = await db.query('DELETE FROM alert_rules WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Alert firings, newest first, optionally for one rule or market
+ */
+export async function getAlertHistory(
+  { ruleId, exchange, marketId, limit = 100 }: { ruleId?: number; exchange?: string; marketId?: string; limit?: number } = {}
+): Promise<AlertEvent[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (ruleId !== undefined) {
+    params.push(ruleId);
+    conditions.push(`rule_id = $${params.length}`);
+  }
+  if (exchange) {
+    params.push(exchange);
+    conditions.push(`exchange = $${params.length}`);
+  }
+  if (marketId) {
+    params.push(marketId);
+    conditions.push(`market_id = $${params.length}`);
+  }
+  params.push(limit);
+
+  const result = await db.query(
+    `
+      SELECT * FROM alert_history
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY triggered_at DESC, id DESC
+      LIMIT $${params.length}
+    `,
+    params
+  );
+  return result.rows.map(toAlertEvent);
+}
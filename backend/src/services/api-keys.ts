@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import db from '../db/client';
+import { ApiKey, ApiKeyScope, ApiKeyUsage } from '../types';
+
+/**
+ * API Keys Service
+ * Issuing, storing and looking up API keys. A key is shown once when it is
+ * created; only its SHA-256 hash and first characters are stored.
+ */
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'export', 'links', 'alerts', 'admin'];
+
+const KEY_PREFIX = 'pmi_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 600;
+const DEFAULT_MAX_SUBSCRIPTIONS = 100;
+const MAX_RATE_LIMIT_PER_MINUTE = 100000;
+const MAX_SUBSCRIPTIONS = 10000;
+
+// Fields an admin sets on a key
+export type ApiKeyFields = Pick<ApiKey, 'name' | 'scopes' | 'rateLimitPerMinute' | 'maxSubscriptions' | 'dailyQuota'>;
+
+// Requests counted for a key since the last flush
+export interface ApiKeyUsageDelta {
+  keyId: number;
+  day: string;
+  requests: number;
+  rejected: number;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Validate a key from a request body, filling in defaults
+ * For updates, pass the stored key; the body's fields replace its fields.
+ */
+export function validateApiKeyFields(
+  body: Record<string, unknown>,
+  existing?: ApiKey
+): { fields: ApiKeyFields } | { error: string } {
+  const merged: Record<string, unknown> = { ...existing, ...body };
+  const { name, scopes, rateLimitPerMinute, maxSubscriptions, dailyQuota } = merged;
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return { error: 'Invalid name. Must be a non-empty string of at most 100 characters' };
+  }
+
+  const keyScopes = scopes ?? ['read'];
+  if (!Array.isArray(keyScopes) || keyScopes.length === 0 || !keyScopes.every(isApiKeyScope)) {
+    return { error: `Invalid scopes. Must be a list of: ${API_KEY_SCOPES.map((s) => `"${s}"`).join(', ')}` };
+  }
+
+  const keyRateLimit = rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+  if (!isIntegerInRange(keyRateLimit, 1, MAX_RATE_LIMIT_PER_MINUTE)) {
+    return { error: `Invalid rateLimitPerMinute. Must be a whole number from 1 to ${MAX_RATE_LIMIT_PER_MINUTE}` };
+  }
+
+  const keySubscriptions = maxSubscriptions ?? DEFAULT_MAX_SUBSCRIPTIONS;
+  if (!isIntegerInRange(keySubscriptions, 0, MAX_SUBSCRIPTIONS)) {
+    return { error: `Invalid maxSubscriptions. Must be a whole number from 0 to ${MAX_SUBSCRIPTIONS}` };
+  }
+
+  const keyQuota = dailyQuota ?? null;
+  if (keyQuota !== null && !isIntegerInRange(keyQuota, 1, Number.MAX_SAFE_INTEGER)) {
+    return { error: 'Invalid dailyQuota. Must be a positive whole number, or null for no quota' };
+  }
+
+  return {
+    fields: {
+      name: name.trim(),
+      scopes: Array.from(new Set(keyScopes)),
+      rateLimitPerMinute: keyRateLimit,
+      maxSubscriptions: keySubscriptions,
+      dailyQuota: keyQuota,
+    },
+  };
+}
+
+function toApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: row.scopes,
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    maxSubscriptions: row.max_subscriptions,
+    dailyQuota: row.daily_quota,
+    revokedAt: row.revoked_at,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Issue a new key; the returned secret is not stored and can't be shown again
+ */
+export async function createApiKey(fields: ApiKeyFields): Promise<{ apiKey: ApiKey; secret: string }> {
+  const secret = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  const result = await db.query(
+    `
+      INSERT INTO api_keys (name, key_prefix, key_hash, scopes, rate_limit_per_minute, max_subscriptions, daily_quota)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `,
+    [
+      fields.name, secret.slice(0, DISPLAY_PREFIX_LENGTH), hashApiKey(secret), fields.scopes,
+      fields.rateLimitPerMinute, fields.maxSubscriptions, fields.dailyQuota,
+    ]
+  );
+  return { apiKey: toApiKey(result.rows[0]), secret };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const result = await db.query('SELECT * FROM api_keys ORDER BY id ASC');
+  return result.rows.map(toApiKey);
+}
+
+export async function getApiKey(id: number): Promise<ApiKey | null> {
+  const result = await db.query('SELECT * FROM api_keys WHERE id = $1', [id]);
+  return result.rows[0] ? toApiKey(result.rows[0]) : null;
+}
+
+/**
+ * The unrevoked key a secret belongs to, or null
+ */
+export async function findActiveApiKey(secret: string): Promise<ApiKey | null> {
+  const result = await db.query('SELECT * FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL', [hashApiKey(secret)]);
+  return result.rows[0] ? toApiKey(result.rows[0]) : null;
+}
+
+/**
+ * Replace a key's fields; returns null if it does not exist
+ */
+export async function updateApiKey(id: number, fields: ApiKeyFields): Promise<ApiKey | null> {
+  const result = await db.query(
+    `
+      UPDATE api_keys
+      SET name = $2, scopes = $3, rate_limit_per_minute = $4, max_subscriptions = $5, daily_quota = $6
+      WHERE id = $1
+      RETURNING *
+    `,
+    [id, fields.name, fields.scopes, fields.rateLimitPerMinute, fields.maxSubscriptions, fields.dailyQuota]
+  );
+  return result.rows[0] ? toApiKey(result.rows[0]) : null;
+}
+
+/**
+ * Revoke a key; it keeps its usage history. Returns null if it does not exist
+ */
+export async function revokeApiKey(id: number): Promise<ApiKey | null> {
+  const result = await db.query(
+    'UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 RETURNING *',
+    [id]
+  );
+  return result.rows[0] ? toApiKey(result.rows[0]) : null;
+}
+
+/**
+ * A key's usage per day, newest first
+ */
+export async function getApiKeyUsage(id: number, days: number): Promise<ApiKeyUsage[]> {
+  const result = await db.query(
+    `
+      SELECT to_char(day, 'YYYY-MM-DD') AS day, requests, rejected
+      FROM api_key_usage
+      WHERE key_id = $1
+      ORDER BY day DESC
+      LIMIT $2
+    `,
+    [id, days]
+  );
+  return result.rows.map((row) => ({ day: row.day, requests: row.requests, rejected: row.rejected }));
+}
+
+/**
+ * Requests a key has made on a day, as recorded so far
+ */
+export async function getRecordedRequests(keyId: number, day: string): Promise<number> {
+  const result = await db.query('SELECT requests FROM api_key_usage WHERE key_id = $1 AND day = $2', [keyId, day]);
+  return result.rows[0]?.requests ?? 0;
+}
+
+/**
+ * Add counted requests to the keys' usage, and mark them used
+ */
+export async function recordApiKeyUsage(deltas: ApiKeyUsageDelta[]): Promise<void> {
+  if (deltas.length === 0) return;
+
+  await db.query(
+    `
+      INSERT INTO api_key_usage (key_id, day, requests, rejected)
+      SELECT * FROM unnest($1::int[], $2::date[], $3::int[], $4::int[])
+      ON CONFLICT (key_id, day) DO UPDATE SET
+        requests = api_key_usage.requests + EXCLUDED.requests,
+        rejected = api_key_usage.rejected + EXCLUDED.rejected
+    `,
+    [deltas.map((d) => d.keyId), deltas.map((d) => d.day), deltas.map((d) => d.requests), deltas.map((d) => d.rejected)]
+  );
+  await db.query(
+    'UPDATE api_keys SET last_used_at = NOW() WHERE id = ANY($1)',
+    [Array.from(new Set(deltas.filter((d) => d.requests > 0).map((d) => d.keyId)))]
+  );
+}
@@ -1,16 +1,48 @@
+import { PoolClient } from 'pg';
 import db from '../db/client';
-import { Trade, Candle, Interval } from '../types';
+import { Trade, Candle, Interval, StoredInterval, PageDirection, MarketKey } from '../types';
 import { tradeEmitter } from '../events/trade-emitter';
+import { candleEmitter } from '../events/candle-emitter';
+import { INTERVAL_SPECS, STORED_INTERVALS, BUCKET_ORIGIN, isStoredInterval } from './intervals';
 
-const INTERVALS: Interval[] = ['1s', '1m', '1h'];
+// Keyset position for paging through candles: the page after or before a candle
+interface CandleCursor {
+  openTime: Date;
+  direction: PageDirection;
+}
+
+const INTERVALS = STORED_INTERVALS;
+
+// Map a candles row to a Candle
+function toCandle(row: any): Candle {
+  return {
+    exchange: row.exchange,
+    marketId: row.market_id,
+    interval: row.interval,
+    openTime: row.open_time,
+    open: row.open.toString(),
+    high: row.high.toString(),
+    low: row.low.toString(),
+    close: row.close.toString(),
+    volume: row.volume.toString(),
+  };
+}
 
 /**
- * CandleAggregator listens for trade events and updates OHLC candles
- * in real-time for 1s, 1m, and 1h intervals.
+ * CandleAggregator maintains OHLC candles for 1s, 1m, and 1h intervals.
+ * The ingestion queue applies each flushed batch of trades inside its
+ * transaction; longer intervals are rolled up from these when queried.
  */
 class CandleAggregator {
   private isRunning = false;
 
+  // A removed trade (e.g. from a reorged block) invalidates every candle it touched
+  private handleTradeRemoved = (trade: Trade) => {
+    this.rebuildCandles(trade.exchange, trade.marketId, trade.timestamp, trade.timestamp).catch((error) => {
+      console.error('[CandleAggregator] Error rebuilding candles for removed trade:', error);
+    });
+  };
+
   start() {
     if (this.isRunning) {
       console.log('[CandleAggregator] Already running');
@@ -20,36 +52,21 @@ class CandleAggregator {
     this.isRunning = true;
     console.log('[CandleAggregator] Starting candle aggregation service...');
 
-    // Listen for trade events from both indexers
-    tradeEmitter.on('trade', (trade: Trade) => {
-      this.processTrade(trade).catch((error) => {
-        console.error('[CandleAggregator] Error processing trade:', error);
-      });
-    });
+    tradeEmitter.on('trade_removed', this.handleTradeRemoved);
 
-    console.log('[CandleAggregator] ✅ Listening for trades to aggregate into candles');
+    console.log('[CandleAggregator] ✅ Listening for removed trades to rebuild candles');
   }
 
   stop() {
     this.isRunning = false;
-    tradeEmitter.removeAllListeners('trade');
+    tradeEmitter.off('trade_removed', this.handleTradeRemoved);
     console.log('[CandleAggregator] Stopped');
   }
 
-  /**
-   * Process a single trade and update candles for all intervals
-   */
-  private async processTrade(trade: Trade) {
-    // Update candles for each interval in parallel
-    await Promise.all(
-      INTERVALS.map((interval) => this.updateCandle(trade, interval))
-    );
-  }
-
   /**
    * Calculate the open_time for a given timestamp and interval
    */
-  private getOpenTime(timestamp: Date, interval: Interval): Date {
+  private getOpenTime(timestamp: Date, interval: StoredInterval): Date {
     const time = new Date(timestamp);
     
     switch (interval) {
@@ -71,50 +88,63 @@ class CandleAggregator {
   }
 
   /**
-   * Update or create a candle for the given trade and interval
-   * Uses PostgreSQL UPSERT for atomic updates
+   * Update or create candles for a batch of trades, one multi-row UPSERT per interval
+   * Runs on the caller's client so it shares the ingestion transaction.
+   * Returns every candle the batch touched, as stored after the update.
    */
-  private async updateCandle(trade: Trade, interval: Interval) {
-    const openTime = this.getOpenTime(trade.timestamp, interval);
-    const price = trade.price;
-    const volume = trade.quantity;
-
-    // UPSERT query:
-    // - If candle doesn't exist: create with all values from this trade
-    // - If candle exists: update high/low/close/volume, keep original open
-    const query = `
-      INSERT INTO candles (exchange, market_id, interval, open_time, open, high, low, close, volume)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      ON CONFLICT (exchange, market_id, interval, open_time)
-      DO UPDATE SET
-        high = GREATEST(candles.high, EXCLUDED.high),
-        low = LEAST(candles.low, EXCLUDED.low),
-        close = EXCLUDED.close,
-        volume = candles.volume + EXCLUDED.volume
-    `;
+  async applyTrades(client: PoolClient, trades: Trade[]): Promise<Candle[]> {
+    if (trades.length === 0) return [];
 
-    try {
-      await db.query(query, [
-        trade.exchange,
-        trade.marketId,
-        interval,
-        openTime,
-        price,  // open (only used on INSERT, not UPDATE)
-        price,  // high
-        price,  // low
-        price,  // close
-        volume, // volume
-      ]);
-    } catch (error) {
-      console.error(`[CandleAggregator] Failed to update ${interval} candle:`, error);
+    // Trades are aggregated per bucket in SQL first, since one UPSERT cannot touch the same row twice
+    const params: any[] = [];
+    const rows = trades.map((trade, seq) => {
+      params.push(trade.exchange, trade.marketId, trade.timestamp, trade.price, trade.quantity, seq);
+      const base = params.length - 6;
+      return `($${base + 1}::varchar, $${base + 2}::varchar, $${base + 3}::timestamptz, $${base + 4}::numeric, $${base + 5}::numeric, $${base + 6}::int)`;
+    });
+
+    const updated: Candle[] = [];
+    for (const interval of INTERVALS) {
+      const truncExpr = this.getTruncateExpression(interval);
+
+      // UPSERT query:
+      // - If candle doesn't exist: create it from this batch's trades
+      // - If candle exists: update high/low/close/volume, keep original open
+      const query = `
+        INSERT INTO candles (exchange, market_id, interval, open_time, open, high, low, close, volume)
+        SELECT
+          exchange,
+          market_id,
+          '${interval}' as interval,
+          ${truncExpr} as open_time,
+          (ARRAY_AGG(price ORDER BY timestamp ASC, seq ASC))[1] as open,
+          MAX(price) as high,
+          MIN(price) as low,
+          (ARRAY_AGG(price ORDER BY timestamp DESC, seq DESC))[1] as close,
+          SUM(quantity) as volume
+        FROM (VALUES ${rows.join(', ')}) AS batch(exchange, market_id, timestamp, price, quantity, seq)
+        GROUP BY exchange, market_id, ${truncExpr}
+        ON CONFLICT (exchange, market_id, interval, open_time)
+        DO UPDATE SET
+          high = GREATEST(candles.high, EXCLUDED.high),
+          low = LEAST(candles.low, EXCLUDED.low),
+          close = EXCLUDED.close,
+          volume = candles.volume + EXCLUDED.volume
+        RETURNING exchange, market_id, interval, open_time, open, high, low, close, volume
+      `;
+
+      const result = await client.query(query, params);
+      updated.push(...result.rows.map(toCandle));
     }
+    return updated;
   }
 
   /**
    * Backfill candles from existing trades in the database
    * Useful when starting fresh or recovering from downtime
+   * Returns the number of candles written.
    */
-  async backfillCandles(exchange?: string, marketId?: string) {
+  async backfillCandles(exchange?: string, marketId?: string): Promise<number> {
     console.log('[CandleAggregator] Starting candle backfill...');
 
     let whereClause = '';
@@ -130,14 +160,16 @@ class CandleAggregator {
     }
 
     // Process trades in batches for each interval
+    let count = 0;
     for (const interval of INTERVALS) {
-      await this.backfillInterval(interval, whereClause, params);
+      count += await this.backfillInterval(interval, whereClause, params);
     }
 
     console.log('[CandleAggregator] ✅ Backfill complete');
+    return count;
   }
 
-  private async backfillInterval(interval: Interval, whereClause: string, params: any[]) {
+  private async backfillInterval(interval: StoredInterval, whereClause: string, params: any[]): Promise<number> {
     const truncExpr = this.getTruncateExpression(interval);
     
     // Aggregate trades into candles directly in SQL
@@ -167,12 +199,94 @@ class CandleAggregator {
     try {
       const result = await db.query(query, params);
       console.log(`[CandleAggregator] Backfilled ${result.rowCount} ${interval} candles`);
+      return result.rowCount ?? 0;
     } catch (error) {
       console.error(`[CandleAggregator] Failed to backfill ${interval} candles:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Recompute stored candles for a market from its trades, covering every bucket
+   * that overlaps [start, end], or all of the market's candles without a range.
+   * Used when trades are removed after the fact; buckets left without trades
+   * are deleted, so the rebuild itself is announced after the rebuilt candles.
+   * Returns the number of candles rebuilt.
+   */
+  async rebuildCandles(exchange: string, marketId: string, start?: Date, end?: Date): Promise<number> {
+    const client = await db.getClient();
+    const rebuilt: Candle[] = [];
+
+    try {
+      await client.query('BEGIN');
+
+      for (const interval of INTERVALS) {
+        const truncExpr = this.getTruncateExpression(interval);
+        const deleteParams: any[] = [exchange, marketId, interval];
+        const insertParams: any[] = [exchange, marketId, interval];
+        let candleRange = '';
+        let tradeRange = '';
+        if (start && end) {
+          const rangeStart = this.getOpenTime(start, interval);
+          const rangeEnd = this.getOpenTime(end, interval);
+          deleteParams.push(rangeStart, rangeEnd);
+          insertParams.push(rangeStart, rangeEnd, INTERVAL_SPECS[interval].sql);
+          candleRange = 'AND open_time >= $4 AND open_time <= $5';
+          tradeRange = 'AND timestamp >= $4 AND timestamp < $5::timestamptz + $6::interval';
+        }
+
+        await client.query(
+          `
+            DELETE FROM candles
+            WHERE exchange = $1 AND market_id = $2 AND interval = $3
+              ${candleRange}
+          `,
+          deleteParams
+        );
+
+        const result = await client.query(
+          `
+            INSERT INTO candles (exchange, market_id, interval, open_time, open, high, low, close, volume)
+            SELECT
+              exchange,
+              market_id,
+              $3 as interval,
+              ${truncExpr} as open_time,
+              (ARRAY_AGG(price ORDER BY timestamp ASC))[1] as open,
+              MAX(price) as high,
+              MIN(price) as low,
+              (ARRAY_AGG(price ORDER BY timestamp DESC))[1] as close,
+              SUM(quantity) as volume
+            FROM trades
+            WHERE exchange = $1 AND market_id = $2
+              ${tradeRange}
+            GROUP BY exchange, market_id, ${truncExpr}
+            RETURNING exchange, market_id, interval, open_time, open, high, low, close, volume
+          `,
+          insertParams
+        );
+        rebuilt.push(...result.rows.map(toCandle));
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
+
+    candleEmitter.emitCandles(rebuilt);
+    candleEmitter.emitRebuilt({
+      exchange,
+      marketId,
+      start: start && end ? start : null,
+      end: start && end ? end : null,
+    });
+    return rebuilt.length;
   }
 
-  private getTruncateExpression(interval: Interval): string {
+  private getTruncateExpression(interval: StoredInterval): string {
     switch (interval) {
       case '1s':
         return "DATE_TRUNC('second', timestamp)";
@@ -184,7 +298,9 @@ class CandleAggregator {
   }
 
   /**
-   * Get candles for a specific market and interval
+   * Get candles for a specific market and interval, oldest first
+   * Derived intervals (5m, 15m, 4h, 1d, 1w) are bucketed from their stored source interval
+   * With a 'prev' cursor the candles before it are returned, newest first
    */
   async getCandles(
     exchange: string,
@@ -192,33 +308,108 @@ class CandleAggregator {
     interval: Interval,
     start?: Date,
     end?: Date,
+    limit: number = 1000,
+    cursor?: CandleCursor
+  ): Promise<Candle[]> {
+    const { text, values } = this.buildCandlesQuery(exchange, marketId, interval, start, end, limit, cursor);
+    const result = await db.query(text, values);
+
+    return result.rows.map((row) => ({
+      exchange: row.exchange,
+      marketId: row.market_id,
+      interval,
+      openTime: row.open_time,
+      open: row.open.toString(),
+      high: row.high.toString(),
+      low: row.low.toString(),
+      close: row.close.toString(),
+      volume: row.volume.toString(),
+    }));
+  }
+
+  /**
+   * Get a market's most recent candle for an interval, or null if it has none
+   */
+  async getLatestCandle(exchange: string, marketId: string, interval: Interval): Promise<Candle | null> {
+    // A 'prev' page from the far future holds the newest candle first
+    const [candle] = await this.getCandles(exchange, marketId, interval, undefined, undefined, 1, {
+      openTime: new Date('9999-12-31T00:00:00Z'),
+      direction: 'prev',
+    });
+    return candle ?? null;
+  }
+
+  /**
+   * Get candles for several markets in one query, oldest first per market
+   * The limit applies to each market separately
+   */
+  async getCandlesForMarkets(
+    markets: MarketKey[],
+    interval: Interval,
+    start?: Date,
+    end?: Date,
     limit: number = 1000
   ): Promise<Candle[]> {
-    let query = `
-      SELECT exchange, market_id, interval, open_time, open, high, low, close, volume
-      FROM candles
-      WHERE exchange = $1 AND market_id = $2 AND interval = $3
-    `;
-    const params: any[] = [exchange, marketId, interval];
+    if (markets.length === 0) return [];
+
+    const spec = INTERVAL_SPECS[interval];
+    const stored = isStoredInterval(interval);
+    const params: any[] = [
+      markets.map((m) => m.exchange),
+      markets.map((m) => m.marketId),
+      stored ? interval : spec.source,
+    ];
 
+    let openTimeExpr = 'c.open_time';
+    if (!stored) {
+      params.push(spec.sql, BUCKET_ORIGIN);
+      openTimeExpr = `date_bin($4::interval, c.open_time, $5::timestamptz)`;
+    }
+
+    let where = `c.interval = $3`;
     if (start) {
       params.push(start);
-      query += ` AND open_time >= $${params.length}`;
+      // Derived buckets are filtered whole, as in getCandles
+      where += stored
+        ? ` AND c.open_time >= $${params.length}`
+        : ` AND c.open_time >= date_bin($4::interval, $${params.length}::timestamptz, $5::timestamptz)`;
     }
     if (end) {
       params.push(end);
-      query += ` AND open_time <= $${params.length}`;
+      where += ` AND ${openTimeExpr} <= $${params.length}`;
     }
 
-    query += ` ORDER BY open_time DESC LIMIT $${params.length + 1}`;
+    const aggregates = stored
+      ? `c.open, c.high, c.low, c.close, c.volume`
+      : `(ARRAY_AGG(c.open ORDER BY c.open_time ASC))[1] as open,
+               MAX(c.high) as high,
+               MIN(c.low) as low,
+               (ARRAY_AGG(c.close ORDER BY c.open_time DESC))[1] as close,
+               SUM(c.volume) as volume`;
+
     params.push(limit);
+    const query = `
+      SELECT exchange, market_id, open_time, open, high, low, close, volume
+      FROM (
+        SELECT c.exchange, c.market_id, ${openTimeExpr} as open_time,
+               ${aggregates},
+               ROW_NUMBER() OVER (PARTITION BY c.exchange, c.market_id ORDER BY ${openTimeExpr} ASC) as rn
+        FROM candles c
+        JOIN unnest($1::varchar[], $2::varchar[]) AS m(exchange, market_id)
+          ON c.exchange = m.exchange AND c.market_id = m.market_id
+        WHERE ${where}
+        ${stored ? '' : `GROUP BY c.exchange, c.market_id, ${openTimeExpr}`}
+      ) ranked
+      WHERE rn <= $${params.length}
+      ORDER BY exchange, market_id, open_time ASC
+    `;
 
     const result = await db.query(query, params);
-    
+
     return result.rows.map((row) => ({
       exchange: row.exchange,
       marketId: row.market_id,
-      interval: row.interval,
+      interval,
       openTime: row.open_time,
       open: row.open.toString(),
       high: row.high.toString(),
@@ -227,7 +418,190 @@ class CandleAggregator {
       volume: row.volume.toString(),
     }));
   }
+
+  /**
+   * Get candles of the yes price across every outcome token of a market, oldest first
+   * Built from trades rather than stored candles, since each token's candles
+   * track that token's own price. Paged like getCandles.
+   */
+  async getYesCandles(
+    exchange: string,
+    marketIds: string[],
+    interval: Interval,
+    start?: Date,
+    end?: Date,
+    limit: number = 1000,
+    cursor?: CandleCursor
+  ): Promise<Candle[]> {
+    const spec = INTERVAL_SPECS[interval];
+    const bucketExpr = `date_bin($3::interval, timestamp, $4::timestamptz)`;
+
+    let query = `
+      SELECT ${bucketExpr} as open_time,
+             (ARRAY_AGG(yes_price ORDER BY timestamp ASC, id ASC))[1] as open,
+             MAX(yes_price) as high,
+             MIN(yes_price) as low,
+             (ARRAY_AGG(yes_price ORDER BY timestamp DESC, id DESC))[1] as close,
+             SUM(quantity) as volume
+      FROM trades
+      WHERE exchange = $1 AND market_id = ANY($2) AND yes_price IS NOT NULL
+    `;
+    const params: any[] = [exchange, marketIds, spec.sql, BUCKET_ORIGIN];
+
+    // Filter on whole buckets, as for derived intervals
+    if (start) {
+      params.push(start);
+      query += ` AND timestamp >= date_bin($3::interval, $${params.length}::timestamptz, $4::timestamptz)`;
+    }
+    if (end) {
+      params.push(end);
+      query += ` AND ${bucketExpr} <= $${params.length}`;
+    }
+    if (cursor) {
+      if (cursor.direction === 'next') {
+        params.push(new Date(cursor.openTime.getTime() + spec.seconds * 1000));
+        query += ` AND timestamp >= $${params.length}`;
+      } else {
+        params.push(cursor.openTime);
+        query += ` AND timestamp < $${params.length}`;
+      }
+    }
+
+    query += ` GROUP BY ${bucketExpr}`;
+    query += ` ORDER BY open_time ${cursor?.direction === 'prev' ? 'DESC' : 'ASC'}`;
+    params.push(limit);
+    query += ` LIMIT $${params.length}`;
+
+    const result = await db.query(query, params);
+
+    return result.rows.map((row) => ({
+      exchange,
+      marketId: marketIds[0],
+      interval,
+      openTime: row.open_time,
+      open: row.open.toString(),
+      high: row.high.toString(),
+      low: row.low.toString(),
+      close: row.close.toString(),
+      volume: row.volume.toString(),
+    }));
+  }
+
+  /**
+   * Build the SQL for a candle query without running it, e.g. for streaming exports
+   * Without a limit every matching candle is selected
+   */
+  buildCandlesQuery(
+    exchange: string,
+    marketId: string,
+    interval: Interval,
+    start?: Date,
+    end?: Date,
+    limit?: number,
+    cursor?: CandleCursor
+  ): { text: string; values: any[] } {
+    return isStoredInterval(interval)
+      ? this.buildStoredCandlesQuery(exchange, marketId, interval, start, end, limit, cursor)
+      : this.buildDerivedCandlesQuery(exchange, marketId, interval, start, end, limit, cursor);
+  }
+
+  private buildStoredCandlesQuery(
+    exchange: string,
+    marketId: string,
+    interval: StoredInterval,
+    start?: Date,
+    end?: Date,
+    limit?: number,
+    cursor?: CandleCursor
+  ) {
+    let query = `
+      SELECT exchange, market_id, open_time, open, high, low, close, volume
+      FROM candles
+      WHERE exchange = $1 AND market_id = $2 AND interval = $3
+    `;
+    const params: any[] = [exchange, marketId, interval];
+
+    if (start) {
+      params.push(start);
+      query += ` AND open_time >= $${params.length}`;
+    }
+    if (end) {
+      params.push(end);
+      query += ` AND open_time <= $${params.length}`;
+    }
+    if (cursor) {
+      params.push(cursor.openTime);
+      query += cursor.direction === 'next'
+        ? ` AND open_time > $${params.length}`
+        : ` AND open_time < $${params.length}`;
+    }
+
+    query += ` ORDER BY open_time ${cursor?.direction === 'prev' ? 'DESC' : 'ASC'}`;
+    if (limit !== undefined) {
+      params.push(limit);
+      query += ` LIMIT $${params.length}`;
+    }
+
+    return { text: query, values: params };
+  }
+
+  /**
+   * Roll stored candles up into a longer interval:
+   * open = first open, close = last close, high/low = extremes, volume = sum
+   */
+  private buildDerivedCandlesQuery(
+    exchange: string,
+    marketId: string,
+    interval: Interval,
+    start?: Date,
+    end?: Date,
+    limit?: number,
+    cursor?: CandleCursor
+  ) {
+    const spec = INTERVAL_SPECS[interval];
+    const bucketExpr = `date_bin($4::interval, open_time, $5::timestamptz)`;
+
+    let query = `
+      SELECT exchange, market_id, ${bucketExpr} as open_time,
+             (ARRAY_AGG(open ORDER BY open_time ASC))[1] as open,
+             MAX(high) as high,
+             MIN(low) as low,
+             (ARRAY_AGG(close ORDER BY open_time DESC))[1] as close,
+             SUM(volume) as volume
+      FROM candles
+      WHERE exchange = $1 AND market_id = $2 AND interval = $3
+    `;
+    const params: any[] = [exchange, marketId, spec.source, spec.sql, BUCKET_ORIGIN];
+
+    // Filter on whole buckets so the first and last candles are complete
+    if (start) {
+      params.push(start);
+      query += ` AND open_time >= date_bin($4::interval, $${params.length}::timestamptz, $5::timestamptz)`;
+    }
+    if (end) {
+      params.push(end);
+      query += ` AND ${bucketExpr} <= $${params.length}`;
+    }
+    // Cursors sit on bucket boundaries, so filtering the source candles keeps buckets whole
+    if (cursor) {
+      if (cursor.direction === 'next') {
+        params.push(new Date(cursor.openTime.getTime() + spec.seconds * 1000));
+        query += ` AND open_time >= $${params.length}`;
+      } else {
+        params.push(cursor.openTime);
+        query += ` AND open_time < $${params.length}`;
+      }
+    }
+
+    query += ` GROUP BY exchange, market_id, ${bucketExpr}`;
+    query += ` ORDER BY open_time ${cursor?.direction === 'prev' ? 'DESC' : 'ASC'}`;
+    if (limit !== undefined) {
+      params.push(limit);
+      query += ` LIMIT $${params.length}`;
+    }
+
+    return { text: query, values: params };
+  }
 }
 
 export const candleAggregator = new CandleAggregator();
-
@@ -0,0 +1,188 @@
+import { EventEmitter } from 'events';
+import { candleEmitter } from '../events/candle-emitter';
+import { marketEmitter } from '../events/market-emitter';
+import { Candle, CandleRebuild, Interval, MarketKey } from '../types';
+import { candleAggregator } from './candle-aggregator';
+import { INTERVAL_SPECS, getBucketOpenTime, isStoredInterval } from './intervals';
+
+/**
+ * Candle Stream
+ * Live bars for the markets and intervals clients watch. Stored intervals are
+ * passed on exactly as the ingestion transaction wrote them; derived intervals
+ * are re-read for the touched bucket with the same rollup as GET /candles, so
+ * live bars and historical queries always agree.
+ *
+ * Emits 'update' with a bar whenever it changes, and 'close' with its final
+ * state once its period (plus a grace period for late trades) has passed. A
+ * late trade can still revise a closed bar, which is sent as an update and
+ * closed again. Bars of a market that closes or resolves are closed at once.
+ *
+ * Emits 'rebuilt' with each watched interval of a market whose stored candles
+ * were rebuilt, since bars emptied by the rebuild send no update.
+ */
+
+// How long after a bar's period ends it is held open for late trades
+const CLOSE_GRACE_MS = parseInt(process.env.CANDLE_CLOSE_GRACE_MS || '3000', 10);
+
+const CLOSE_CHECK_MS = 500;
+
+function getWatchKey(exchange: string, marketId: string, interval: Interval): string {
+  return `${exchange}:${marketId}:${interval}`;
+}
+
+interface WatchedSeries extends MarketKey {
+  interval: Interval;
+  watchers: number;
+}
+
+class CandleStream extends EventEmitter {
+  private isRunning = false;
+  private closeTimer: NodeJS.Timeout | null = null;
+
+  // Watched market intervals by watch key
+  private watched = new Map<string, WatchedSeries>();
+  // Latest bar of each watched series that has not closed yet
+  private openBars = new Map<string, Candle>();
+
+  private handleCandles = (candles: Candle[]) => {
+    this.publishCandles(candles).catch((error) => {
+      console.error('[CandleStream] Error publishing candle updates:', error);
+    });
+  };
+
+  private handleRebuilt = (rebuild: CandleRebuild) => {
+    for (const series of this.watched.values()) {
+      if (series.exchange === rebuild.exchange && series.marketId === rebuild.marketId) {
+        this.emit('rebuilt', rebuild, series.interval);
+      }
+    }
+  };
+
+  private handleMarketsEnded = (markets: MarketKey[]) => {
+    const ended = new Set(markets.map(({ exchange, marketId }) => `${exchange}:${marketId}`));
+    for (const [key, bar] of this.openBars) {
+      if (ended.has(`${bar.exchange}:${bar.marketId}`)) {
+        this.openBars.delete(key);
+        this.emit('close', bar);
+      }
+    }
+  };
+
+  start() {
+    if (this.isRunning) {
+      console.log('[CandleStream] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    candleEmitter.on('candles', this.handleCandles);
+    candleEmitter.on('rebuilt', this.handleRebuilt);
+    marketEmitter.on('ended', this.handleMarketsEnded);
+    this.closeTimer = setInterval(() => this.closeExpiredBars(), CLOSE_CHECK_MS);
+
+    console.log('[CandleStream] ✅ Streaming live bars from stored candles');
+  }
+
+  stop() {
+    this.isRunning = false;
+    candleEmitter.off('candles', this.handleCandles);
+    candleEmitter.off('rebuilt', this.handleRebuilt);
+    marketEmitter.off('ended', this.handleMarketsEnded);
+    if (this.closeTimer) {
+      clearInterval(this.closeTimer);
+      this.closeTimer = null;
+    }
+    console.log('[CandleStream] Stopped');
+  }
+
+  /**
+   * Start streaming a market's bars for an interval; calls are reference counted
+   */
+  watch(exchange: string, marketId: string, interval: Interval) {
+    const key = getWatchKey(exchange, marketId, interval);
+    const series = this.watched.get(key);
+    if (series) {
+      series.watchers += 1;
+    } else {
+      this.watched.set(key, { exchange, marketId, interval, watchers: 1 });
+    }
+  }
+
+  unwatch(exchange: string, marketId: string, interval: Interval) {
+    const key = getWatchKey(exchange, marketId, interval);
+    const series = this.watched.get(key);
+    if (!series) return;
+
+    series.watchers -= 1;
+    if (series.watchers <= 0) {
+      this.watched.delete(key);
+      this.openBars.delete(key);
+    }
+  }
+
+  /**
+   * Turn freshly written stored candles into bars for every watched interval
+   */
+  private async publishCandles(candles: Candle[]) {
+    if (this.watched.size === 0) return;
+
+    // Derived buckets to re-read, deduplicated across the batch
+    const derived = new Map<string, { series: WatchedSeries; openTime: Date }>();
+
+    for (const candle of candles) {
+      for (const series of this.watched.values()) {
+        if (series.exchange !== candle.exchange || series.marketId !== candle.marketId) continue;
+
+        if (series.interval === candle.interval) {
+          this.publish(candle);
+        } else if (!isStoredInterval(series.interval) && INTERVAL_SPECS[series.interval].source === candle.interval) {
+          const openTime = getBucketOpenTime(candle.openTime, series.interval);
+          derived.set(`${getWatchKey(series.exchange, series.marketId, series.interval)}:${openTime.getTime()}`, {
+            series,
+            openTime,
+          });
+        }
+      }
+    }
+
+    for (const { series, openTime } of derived.values()) {
+      const [bar] = await candleAggregator.getCandles(series.exchange, series.marketId, series.interval, openTime, openTime, 1);
+      if (bar && this.watched.has(getWatchKey(series.exchange, series.marketId, series.interval))) {
+        this.publish(bar);
+      }
+    }
+  }
+
+  /**
+   * Send a bar's new state, closing the previous bar of its series if this one is newer
+   */
+  private publish(bar: Candle) {
+    const key = getWatchKey(bar.exchange, bar.marketId, bar.interval);
+    const open = this.openBars.get(key);
+
+    if (open && open.openTime.getTime() < bar.openTime.getTime()) {
+      this.emit('close', open);
+    }
+    if (!open || open.openTime.getTime() <= bar.openTime.getTime()) {
+      this.openBars.set(key, bar);
+    }
+
+    this.emit('update', bar);
+  }
+
+  /**
+   * Close bars whose period has ended, even if no newer trade has arrived
+   */
+  private closeExpiredBars() {
+    const now = Date.now();
+    for (const [key, bar] of this.openBars) {
+      const closesAt = bar.openTime.getTime() + INTERVAL_SPECS[bar.interval].seconds * 1000 + CLOSE_GRACE_MS;
+      if (now >= closesAt) {
+        this.openBars.delete(key);
+        this.emit('close', bar);
+      }
+    }
+  }
+}
+
+export const candleStream = new CandleStream();
@@ -0,0 +1,228 @@
+import { Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import { ParquetSchema, ParquetWriter } from 'parquetjs-lite';
+import { createPool } from '../db/client';
+
+/**
+ * Exporter Service
+ * Streams query results to a writable as CSV, NDJSON or Parquet. Rows are read
+ * through a server-side cursor in fixed-size batches, so memory use does not
+ * grow with the size of the export. An export holds its connection until the
+ * client has downloaded everything, so exports use a small pool of their own
+ * and their number is capped, leaving the shared pool to ingestion and the API.
+ */
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson', 'parquet'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+// Rows fetched from the cursor per round trip
+const FETCH_SIZE = parseInt(process.env.EXPORT_FETCH_SIZE || '1000', 10);
+
+// Rows per Parquet row group; the writer buffers one group at a time
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+// Exports streamed at once; further requests are turned away
+export const MAX_CONCURRENT_EXPORTS = parseInt(process.env.EXPORT_MAX_CONCURRENT || '3', 10);
+
+// Longest a query may run, or a download sit without progress, before the export is cut off
+export const EXPORT_TIMEOUT_MS = parseInt(process.env.EXPORT_TIMEOUT_MS || '60000', 10);
+
+const exportPool = createPool({
+  max: MAX_CONCURRENT_EXPORTS,
+  statement_timeout: EXPORT_TIMEOUT_MS,
+  idle_in_transaction_session_timeout: EXPORT_TIMEOUT_MS,
+});
+
+let activeExports = 0;
+
+export interface ExportColumn {
+  name: string;
+  // decimal values stay strings in CSV/NDJSON and become doubles in Parquet
+  type: 'string' | 'decimal' | 'integer' | 'timestamp' | 'boolean';
+  optional?: boolean;
+  value: (row: any) => string | number | boolean | Date | null;
+}
+
+export interface ExportOptions {
+  query: { text: string; values: any[] };
+  columns: ExportColumn[];
+  format: ExportFormat;
+  gzip: boolean;
+  output: Writable;
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Whether another export may start now
+ */
+export function canStartExport(): boolean {
+  return activeExports < MAX_CONCURRENT_EXPORTS;
+}
+
+/**
+ * Read a query through a server-side cursor, one batch of rows at a time
+ * Stopping early (return/throw in the consumer) rolls back and releases the client
+ */
+async function* fetchInBatches(text: string, values: any[]): AsyncGenerator<any[]> {
+  const client = await exportPool.connect();
+  // A session ended by the idle timeout errors while the client is checked out
+  const onError = (error: Error) => console.error('[Export] Database connection error:', error.message);
+  client.on('error', onError);
+  let committed = false;
+
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`DECLARE export_cursor NO SCROLL CURSOR FOR ${text}`, values);
+
+    while (true) {
+      const result = await client.query(`FETCH ${FETCH_SIZE} FROM export_cursor`);
+      if (result.rows.length === 0) break;
+      yield result.rows;
+    }
+
+    await client.query('COMMIT');
+    committed = true;
+  } finally {
+    if (!committed) {
+      await client.query('ROLLBACK').catch(() => {});
+    }
+    client.off('error', onError);
+    // An export stopped early may have lost its session, so its connection isn't reused
+    client.release(!committed);
+  }
+}
+
+/**
+ * Write a chunk, waiting for the stream to drain (or close) when its buffer is full
+ */
+async function writeChunk(output: Writable, chunk: string) {
+  if (output.write(chunk)) return;
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+}
+
+function formatCsvValue(value: string | number | boolean | Date | null): string {
+  if (value === null) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toParquetSchema(columns: ExportColumn[], gzip: boolean): ParquetSchema {
+  const types = {
+    string: 'UTF8',
+    decimal: 'DOUBLE',
+    integer: 'INT64',
+    timestamp: 'TIMESTAMP_MILLIS',
+    boolean: 'BOOLEAN',
+  } as const;
+
+  const fields: ConstructorParameters<typeof ParquetSchema>[0] = {};
+  for (const column of columns) {
+    fields[column.name] = {
+      type: types[column.type],
+      optional: column.optional,
+      compression: gzip ? 'GZIP' : 'UNCOMPRESSED',
+    };
+  }
+  return new ParquetSchema(fields);
+}
+
+function toParquetRow(columns: ExportColumn[], row: any): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const column of columns) {
+    const value = column.value(row);
+    record[column.name] = column.type === 'decimal' && value !== null ? Number(value) : value;
+  }
+  return record;
+}
+
+/**
+ * Stream a query's rows to the output in the requested format
+ * CSV and NDJSON are gzipped as a whole; Parquet compresses its column chunks
+ * instead. Returns the number of rows written.
+ */
+export async function streamExport(options: ExportOptions): Promise<number> {
+  activeExports++;
+  try {
+    return await writeExport(options);
+  } finally {
+    activeExports--;
+  }
+}
+
+async function writeExport({ query, columns, format, gzip, output }: ExportOptions): Promise<number> {
+  let rowCount = 0;
+
+  if (format === 'parquet') {
+    const writer = await ParquetWriter.openStream(toParquetSchema(columns, gzip), output);
+    writer.setRowGroupSize(PARQUET_ROW_GROUP_SIZE);
+
+    for await (const rows of fetchInBatches(query.text, query.values)) {
+      if (output.destroyed) break;
+      for (const row of rows) {
+        await writer.appendRow(toParquetRow(columns, row));
+      }
+      rowCount += rows.length;
+    }
+
+    // Writes the last row group and footer, then ends the output
+    await writer.close();
+    return rowCount;
+  }
+
+  const gzipStream = gzip ? zlib.createGzip() : null;
+  const sink: Writable = gzipStream ?? output;
+  const piped = gzipStream ? pipeline(gzipStream, output) : null;
+  // Awaited below; the handler keeps an early failure from going unhandled meanwhile
+  piped?.catch(() => {});
+
+  try {
+    if (format === 'csv') {
+      await writeChunk(sink, columns.map((column) => formatCsvValue(column.name)).join(',') + '\n');
+    }
+
+    for await (const rows of fetchInBatches(query.text, query.values)) {
+      if (sink.destroyed || output.destroyed) break;
+
+      const lines = rows.map((row) => {
+        if (format === 'csv') {
+          return columns.map((column) => formatCsvValue(column.value(row))).join(',');
+        }
+        const record: Record<string, unknown> = {};
+        for (const column of columns) {
+          record[column.name] = column.value(row);
+        }
+        return JSON.stringify(record);
+      });
+
+      await writeChunk(sink, lines.join('\n') + '\n');
+      rowCount += rows.length;
+    }
+  } catch (error) {
+    sink.destroy();
+    throw error;
+  }
+
+  sink.end();
+  await (piped ?? finished(output));
+  return rowCount;
+}
@@ -0,0 +1,40 @@
+import db from '../db/client';
+
+/**
+ * Indexer Checkpoint Service
+ * Persists the last fully processed block for on-chain indexers
+ */
+
+/**
+ * Get the last fully processed block for an indexer, or null if it has never run
+ */
+export async function getCheckpoint(indexer: string): Promise<bigint | null> {
+  const result = await db.query<{ block_number: string }>(
+    'SELECT block_number FROM indexer_checkpoints WHERE indexer = $1',
+    [indexer]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return BigInt(result.rows[0].block_number);
+}
+
+/**
+ * Save the last fully processed block for an indexer
+ * Never moves the checkpoint backwards
+ */
+export async function saveCheckpoint(indexer: string, blockNumber: bigint): Promise<void> {
+  await db.query(
+    `
+      INSERT INTO indexer_checkpoints (indexer, block_number, updated_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (indexer)
+      DO UPDATE SET
+        block_number = GREATEST(indexer_checkpoints.block_number, EXCLUDED.block_number),
+        updated_at = NOW()
+    `,
+    [indexer, blockNumber.toString()]
+  );
+}
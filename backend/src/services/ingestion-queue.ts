@@ -0,0 +1,329 @@
+import { DatabaseError, PoolClient } from 'pg';
+import db from '../db/client';
+import { Candle, Trade } from '../types';
+import { tradeEmitter } from '../events/trade-emitter';
+import { candleEmitter } from '../events/candle-emitter';
+import { candleAggregator } from './candle-aggregator';
+import { performanceTracker } from './performance-tracker';
+
+/**
+ * Ingestion Queue
+ * Shared by all indexers. Trades are buffered and flushed in batches: each
+ * batch inserts its trades and updates their candles in one transaction, then
+ * the trades and updated candles are emitted for WebSocket broadcasting.
+ * Trades that already existed (replays, reconnects, backfill overlap) are
+ * neither counted into candles nor emitted.
+ */
+
+// Max trades written per transaction
+const BATCH_SIZE = parseInt(process.env.INGESTION_BATCH_SIZE || '500', 10);
+
+// How long a partial batch may wait before it is flushed
+const FLUSH_INTERVAL_MS = parseInt(process.env.INGESTION_FLUSH_INTERVAL_MS || '50', 10);
+
+// push() waits while this many trades are queued, slowing producers down
+const MAX_QUEUE_DEPTH = parseInt(process.env.INGESTION_MAX_QUEUE_DEPTH || '10000', 10);
+
+// A trade the database keeps rejecting is dropped after this many attempts;
+// connection failures don't count, so an outage is waited out
+const MAX_FLUSH_ATTEMPTS = parseInt(process.env.INGESTION_MAX_FLUSH_ATTEMPTS || '10', 10);
+
+// Wait before retrying a failed flush; doubles with every failure in a row, up to the max
+const RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Columns written per trade; the VALUES placeholders are generated from this
+const TRADE_COLUMNS = [
+  'exchange', 'market_id', 'price', 'quantity', 'side', 'timestamp', 'outcome', 'taker_side',
+  'yes_price', 'no_price', 'tx_hash', 'log_index', 'order_hash', 'maker', 'taker', 'fee',
+  'block_number', 'block_hash', 'finalized',
+];
+
+// Unique index each exchange's trades are deduplicated on. Kalshi trade ids are
+// unique by themselves, and the same trade arrives with different timestamp
+// precision over REST and the WebSocket; other trades are fills keyed by time and log.
+const CONFLICT_TARGETS: Record<string, string> = {
+  kalshi: `(tx_hash) WHERE exchange = 'kalshi'`,
+};
+const DEFAULT_CONFLICT_TARGET = '(exchange, market_id, timestamp, tx_hash, log_index)';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a flush error clears up by itself: connection failures, deadlocks,
+ * and database shutdowns or overload, as opposed to the database rejecting the batch
+ */
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof DatabaseError)) return true;
+  const sqlClass = error.code?.slice(0, 2) ?? '';
+  return ['08', '40', '53', '57'].includes(sqlClass);
+}
+
+// Identity of a trade row, matching the trades unique index
+function getTradeKey(exchange: string, marketId: string, timestamp: Date, txHash: string | null, logIndex: number): string {
+  return `${exchange}:${marketId}:${timestamp.getTime()}:${txHash ?? ''}:${logIndex}`;
+}
+
+interface QueuedTrade {
+  trade: Trade;
+  attempts: number;
+}
+
+class IngestionQueue {
+  private queue: QueuedTrade[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  // Producers waiting for room in the queue
+  private capacityWaiters: Array<() => void> = [];
+  // After a failed flush, no flush runs before this time (ms)
+  private retryAt = 0;
+  private retryDelayMs = 0;
+  // Trades given up on since startup, so flush() can tell its callers
+  private droppedCount = 0;
+
+  /**
+   * Queue a trade for insertion
+   * Resolves once the trade is queued, which may wait while the queue is full
+   */
+  async push(trade: Trade): Promise<void> {
+    if (this.queue.length >= MAX_QUEUE_DEPTH) {
+      performanceTracker.recordBackpressureWait();
+      while (this.queue.length >= MAX_QUEUE_DEPTH) {
+        await new Promise<void>((resolve) => this.capacityWaiters.push(resolve));
+      }
+    }
+
+    this.queue.push({ trade, attempts: 0 });
+    performanceTracker.recordQueueDepth(this.queue.length);
+
+    this.scheduleFlush(this.queue.length >= BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Write everything queued so far, retrying failed batches with backoff
+   * Callers use this before acting on the assumption that their trades are
+   * persisted, so it rejects if any trade was dropped while it ran.
+   */
+  async flush(): Promise<void> {
+    const droppedBefore = this.droppedCount;
+
+    while (this.flushing || this.queue.length > 0) {
+      const wait = this.retryAt - Date.now();
+      if (!this.flushing && wait > 0) {
+        await sleep(wait);
+      }
+      await this.runFlush();
+    }
+
+    const dropped = this.droppedCount - droppedBefore;
+    if (dropped > 0) {
+      throw new Error(`${dropped} trade(s) could not be written`);
+    }
+  }
+
+  getDepth(): number {
+    return this.queue.length;
+  }
+
+  private scheduleFlush(delayMs: number) {
+    // Back off after a failed flush
+    delayMs = Math.max(delayMs, this.retryAt - Date.now());
+
+    if (this.flushTimer) {
+      // A pending timer already covers a delayed flush; only an immediate one replaces it
+      if (delayMs > 0) return;
+      clearTimeout(this.flushTimer);
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      // Scheduled before a flush failed; wait out the backoff
+      if (Date.now() < this.retryAt) {
+        this.scheduleFlush(0);
+        return;
+      }
+      this.runFlush().catch((error) => {
+        console.error('[Ingestion] Flush failed:', error);
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Start a flush, or join the one already running
+   */
+  private runFlush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.flushBatch().finally(() => {
+        this.flushing = null;
+        if (this.queue.length > 0) {
+          this.scheduleFlush(this.queue.length >= BATCH_SIZE ? 0 : FLUSH_INTERVAL_MS);
+        }
+      });
+    }
+    return this.flushing;
+  }
+
+  private async flushBatch() {
+    const batch = this.queue.splice(0, BATCH_SIZE);
+    this.releaseCapacity();
+    if (batch.length === 0) return;
+
+    const trades = batch.map((item) => item.trade);
+    const startedAt = Date.now();
+    let client: PoolClient;
+    try {
+      client = await db.getClient();
+    } catch (error) {
+      performanceTracker.recordFlushFailure();
+      this.requeue(batch, error);
+      return;
+    }
+    let inserted: Trade[];
+    let candles: Candle[];
+
+    try {
+      await client.query('BEGIN');
+      inserted = await this.insertTrades(client, trades);
+      candles = await candleAggregator.applyTrades(client, inserted);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      performanceTracker.recordFlushFailure();
+      this.requeue(batch, error);
+      return;
+    } finally {
+      client.release();
+    }
+
+    this.retryAt = 0;
+    this.retryDelayMs = 0;
+
+    const indexedAt = new Date();
+    performanceTracker.recordFlush(trades.length, indexedAt.getTime() - startedAt);
+    performanceTracker.recordQueueDepth(this.queue.length);
+
+    for (const trade of inserted) {
+      // Track performance metrics
+      performanceTracker.recordTrade(trade.exchange, trade.timestamp, indexedAt);
+      // Emit trade for WebSocket broadcasting
+      tradeEmitter.emit('trade', trade);
+    }
+    candleEmitter.emitCandles(candles);
+  }
+
+  /**
+   * Insert a batch of trades, one statement per conflict target
+   * Returns only the trades that were new, with their database ids set
+   */
+  private async insertTrades(client: PoolClient, trades: Trade[]): Promise<Trade[]> {
+    const groups = new Map<string, Trade[]>();
+    for (const trade of trades) {
+      const target = CONFLICT_TARGETS[trade.exchange] ?? DEFAULT_CONFLICT_TARGET;
+      const group = groups.get(target);
+      if (group) {
+        group.push(trade);
+      } else {
+        groups.set(target, [trade]);
+      }
+    }
+
+    const inserted: Trade[] = [];
+    for (const [target, group] of groups) {
+      inserted.push(...await this.insertTradeRows(client, group, target));
+    }
+    return inserted;
+  }
+
+  /**
+   * Multi-row insert of trades, skipping those that conflict on the target
+   */
+  private async insertTradeRows(client: PoolClient, trades: Trade[], conflictTarget: string): Promise<Trade[]> {
+    const params: any[] = [];
+    const rows = trades.map((trade) => {
+      params.push(
+        trade.exchange,
+        trade.marketId,
+        trade.price,
+        trade.quantity,
+        trade.side,
+        trade.timestamp,
+        trade.outcome ?? null,
+        trade.takerSide ?? null,
+        trade.yesPrice ?? null,
+        trade.noPrice ?? null,
+        trade.txHash ?? null,
+        trade.logIndex ?? 0,
+        trade.orderHash ?? null,
+        trade.maker ?? null,
+        trade.taker ?? null,
+        trade.fee ?? null,
+        trade.blockNumber ?? null,
+        trade.blockHash ?? null,
+        trade.finalized ?? true,
+      );
+      const base = params.length - TRADE_COLUMNS.length;
+      return `(${TRADE_COLUMNS.map((_, i) => `$${base + i + 1}`).join(', ')})`;
+    });
+
+    const result = await client.query(
+      `
+        INSERT INTO trades (${TRADE_COLUMNS.join(', ')})
+        VALUES ${rows.join(', ')}
+        ON CONFLICT ${conflictTarget} DO NOTHING
+        RETURNING id, exchange, market_id, timestamp, tx_hash, log_index
+      `,
+      params
+    );
+
+    // Match returned rows back to the batch by their unique key
+    const insertedIds = new Map<string, number>();
+    for (const row of result.rows) {
+      insertedIds.set(getTradeKey(row.exchange, row.market_id, row.timestamp, row.tx_hash, row.log_index), row.id);
+    }
+
+    const inserted: Trade[] = [];
+    for (const trade of trades) {
+      const key = getTradeKey(trade.exchange, trade.marketId, trade.timestamp, trade.txHash ?? null, trade.logIndex ?? 0);
+      const id = insertedIds.get(key);
+      if (id !== undefined) {
+        // Delete so a duplicate later in the same batch is not reported as new
+        insertedIds.delete(key);
+        inserted.push({ ...trade, id });
+      }
+    }
+
+    return inserted;
+  }
+
+  /**
+   * Put a failed batch back at the front of the queue to be retried after a
+   * backoff, dropping trades that have failed too often
+   */
+  private requeue(batch: QueuedTrade[], error: unknown) {
+    const counted = !isTransientError(error);
+    const retry = batch.filter((item) => !counted || ++item.attempts < MAX_FLUSH_ATTEMPTS);
+    const dropped = batch.length - retry.length;
+
+    this.retryDelayMs = Math.min(Math.max(this.retryDelayMs * 2, RETRY_BASE_MS), MAX_RETRY_DELAY_MS);
+    this.retryAt = Date.now() + this.retryDelayMs;
+
+    if (dropped > 0) {
+      this.droppedCount += dropped;
+      console.error(`[Ingestion] ❌ Dropping ${dropped} trade(s) after ${MAX_FLUSH_ATTEMPTS} failed flushes:`, error);
+    } else {
+      console.error(`[Ingestion] Flush of ${batch.length} trade(s) failed, retrying in ${this.retryDelayMs}ms:`, error);
+    }
+
+    this.queue.unshift(...retry);
+  }
+
+  private releaseCapacity() {
+    while (this.capacityWaiters.length > 0 && this.queue.length < MAX_QUEUE_DEPTH) {
+      this.capacityWaiters.shift()!();
+    }
+  }
+}
+
+export const ingestionQueue = new IngestionQueue();
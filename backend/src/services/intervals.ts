@@ -0,0 +1,54 @@
+import { Interval, StoredInterval } from '../types';
+
+/**
+ * Candle interval definitions
+ *
+ * Only 1s, 1m and 1h candles are written to the database. Longer intervals
+ * are rolled up on demand from the largest stored interval that divides them
+ * evenly, so they never drift from the base data.
+ */
+
+interface IntervalSpec {
+  seconds: number;
+  // Postgres interval literal used for date_bin bucketing
+  sql: string;
+  // Stored interval the candles are built from (itself for stored intervals)
+  source: StoredInterval;
+}
+
+export const INTERVAL_SPECS: Record<Interval, IntervalSpec> = {
+  '1s': { seconds: 1, sql: '1 second', source: '1s' },
+  '1m': { seconds: 60, sql: '1 minute', source: '1m' },
+  '5m': { seconds: 5 * 60, sql: '5 minutes', source: '1m' },
+  '15m': { seconds: 15 * 60, sql: '15 minutes', source: '1m' },
+  '1h': { seconds: 60 * 60, sql: '1 hour', source: '1h' },
+  '4h': { seconds: 4 * 60 * 60, sql: '4 hours', source: '1h' },
+  '1d': { seconds: 24 * 60 * 60, sql: '1 day', source: '1h' },
+  '1w': { seconds: 7 * 24 * 60 * 60, sql: '7 days', source: '1h' },
+};
+
+export const STORED_INTERVALS: StoredInterval[] = ['1s', '1m', '1h'];
+
+export const ALL_INTERVALS = Object.keys(INTERVAL_SPECS) as Interval[];
+
+// Bucket origin for date_bin: a Monday at 00:00 UTC, so weekly candles open on
+// Mondays and every shorter interval stays aligned to UTC midnight
+export const BUCKET_ORIGIN = '2000-01-03T00:00:00Z';
+
+export function isInterval(value: string): value is Interval {
+  return Object.prototype.hasOwnProperty.call(INTERVAL_SPECS, value);
+}
+
+export function isStoredInterval(interval: Interval): interval is StoredInterval {
+  return INTERVAL_SPECS[interval].source === interval;
+}
+
+/**
+ * Open time of the bucket containing a timestamp, as date_bin computes it
+ * from BUCKET_ORIGIN in the candle queries
+ */
+export function getBucketOpenTime(timestamp: Date, interval: Interval): Date {
+  const size = INTERVAL_SPECS[interval].seconds * 1000;
+  const origin = Date.parse(BUCKET_ORIGIN);
+  return new Date(origin + Math.floor((timestamp.getTime() - origin) / size) * size);
+}
@@ -0,0 +1,171 @@
+import { exchangeRegistry } from '../indexers/registry';
+import { Job } from '../types';
+import { candleAggregator } from './candle-aggregator';
+import {
+  JobFields,
+  cancelQueuedJob,
+  claimJob,
+  createJob,
+  finishJob,
+  getJob,
+  getQueuedJobIds,
+  requeueRunningJobs,
+  setJobProgress,
+} from './jobs';
+
+/**
+ * Job Runner
+ * Runs admin-launched jobs one at a time, oldest first, so backfills don't
+ * compete for a venue's API. Progress is written to the jobs table as it is
+ * made. Jobs still queued or running at shutdown are run again on the next
+ * start.
+ */
+
+export type CancelResult =
+  | { job: Job }
+  | { error: 'not_found' | 'finished' | 'not_cancellable' };
+
+class JobRunner {
+  private isRunning = false;
+  // Ids of queued jobs, oldest first
+  private queue: number[] = [];
+  private current: { job: Job; controller: AbortController } | null = null;
+
+  async start() {
+    if (this.isRunning) return;
+
+    const requeued = await requeueRunningJobs();
+    this.queue = await getQueuedJobIds();
+    this.isRunning = true;
+
+    console.log(
+      `[JobRunner] ✅ Running jobs (${this.queue.length} queued${requeued > 0 ? `, ${requeued} interrupted` : ''})`
+    );
+    this.runNext();
+  }
+
+  /**
+   * Stop taking jobs; a running backfill stops after its current page and is
+   * left running in the table, to be rerun on the next start
+   */
+  stop() {
+    this.isRunning = false;
+    this.current?.controller.abort();
+    console.log('[JobRunner] Stopped');
+  }
+
+  /**
+   * Record a job and queue it behind any others
+   */
+  async enqueue(fields: JobFields): Promise<Job> {
+    const job = await createJob(fields);
+    this.queue.push(job.id);
+    this.runNext();
+    return job;
+  }
+
+  /**
+   * Cancel a queued job, or stop a running backfill after its current page
+   * Candle rebuilds run in one transaction and can't be stopped once started.
+   */
+  async cancel(id: number): Promise<CancelResult> {
+    const cancelled = await cancelQueuedJob(id);
+    if (cancelled) {
+      this.queue = this.queue.filter((queuedId) => queuedId !== id);
+      return { job: cancelled };
+    }
+
+    const job = await getJob(id);
+    if (!job) return { error: 'not_found' };
+    if (job.status !== 'running' || this.current?.job.id !== id) return { error: 'finished' };
+    if (job.type !== 'trade_backfill') return { error: 'not_cancellable' };
+
+    this.current.controller.abort();
+    return { job };
+  }
+
+  private runNext() {
+    if (!this.isRunning || this.current) return;
+
+    const id = this.queue.shift();
+    if (id === undefined) return;
+
+    this.runJob(id)
+      .catch((error) => {
+        console.error(`[JobRunner] Error running job ${id}:`, error);
+      })
+      .finally(() => {
+        this.current = null;
+        this.runNext();
+      });
+  }
+
+  private async runJob(id: number) {
+    // Jobs cancelled while queued are no longer claimable
+    const job = await claimJob(id);
+    if (!job) return;
+
+    const controller = new AbortController();
+    this.current = { job, controller };
+    console.log(`[JobRunner] Starting job ${job.id} (${job.type} ${job.exchange}:${job.marketId ?? '*'})`);
+
+    let processed = 0;
+    let truncated = false;
+    try {
+      ({ processed, truncated } = await this.execute(job, controller.signal, (count) => {
+        processed = count;
+        setJobProgress(job.id, count).catch((error) => {
+          console.error(`[JobRunner] Failed to record progress of job ${job.id}:`, error);
+        });
+      }));
+    } catch (error) {
+      console.error(`[JobRunner] Job ${job.id} failed:`, error);
+      await finishJob(job.id, 'failed', processed, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    // Stopped by shutdown: leave it running, to be rerun on the next start
+    if (controller.signal.aborted && !this.isRunning) return;
+
+    if (truncated) {
+      const message = 'Stopped at the venue page limit; older trades in the range were not fetched. Rerun with an earlier end for the rest.';
+      await finishJob(job.id, 'failed', processed, message);
+      console.warn(`[JobRunner] Job ${job.id} truncated (${processed} processed)`);
+      return;
+    }
+
+    const status = controller.signal.aborted ? 'cancelled' : 'completed';
+    await finishJob(job.id, status, processed);
+    console.log(`[JobRunner] Job ${job.id} ${status} (${processed} processed)`);
+  }
+
+  /**
+   * Do a job's work; returns the number of trades ingested or candles rebuilt,
+   * and whether a backfill left part of its range unfetched
+   */
+  private async execute(
+    job: Job,
+    signal: AbortSignal,
+    onProgress: (count: number) => void
+  ): Promise<{ processed: number; truncated: boolean }> {
+    if (job.type === 'candle_rebuild') {
+      const rebuilt = await candleAggregator.rebuildCandles(job.exchange, job.marketId!, job.start ?? undefined, job.end ?? undefined);
+      return { processed: rebuilt, truncated: false };
+    }
+
+    const adapter = exchangeRegistry.get(job.exchange);
+    if (!adapter?.backfill) {
+      throw new Error(`Exchange "${job.exchange}" does not support backfills`);
+    }
+    const { ingested, truncated } = await adapter.backfill({
+      marketId: job.marketId ?? undefined,
+      start: job.start!,
+      end: job.end!,
+      signal,
+      onProgress,
+    });
+    return { processed: ingested, truncated };
+  }
+}
+
+export const jobRunner = new JobRunner();
@@ -0,0 +1,215 @@
+import db from '../db/client';
+import { exchangeRegistry } from '../indexers/registry';
+import { Job, JobStatus, JobType } from '../types';
+
+/**
+ * Jobs Service
+ * Storage and validation of admin-launched background jobs: historical trade
+ * backfills and candle rebuilds. Jobs are run one at a time by the job runner.
+ */
+
+export const JOB_TYPES: JobType[] = ['trade_backfill', 'candle_rebuild'];
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Fields an admin sets when launching a job
+export type JobFields = Pick<Job, 'type' | 'exchange' | 'marketId' | 'start' | 'end'>;
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as string[]).includes(value);
+}
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === 'string' && (JOB_STATUSES as string[]).includes(value);
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate a job from a request body
+ * Trade backfills need a start (end defaults to now) and an exchange whose
+ * adapter supports backfills; marketId is optional. Candle rebuilds need a
+ * marketId; without a start they cover all of the market's trades.
+ */
+export function validateJobFields(type: JobType, body: Record<string, unknown>): { fields: JobFields } | { error: string } {
+  const { exchange, marketId, start, end } = body;
+
+  if (typeof exchange !== 'string' || !exchange) {
+    return { error: 'Missing required field: exchange' };
+  }
+  const adapter = exchangeRegistry.get(exchange);
+  if (!adapter || !exchangeRegistry.has(exchange)) {
+    return { error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().map((id) => `"${id}"`).join(', ')}` };
+  }
+
+  if (marketId !== undefined && (typeof marketId !== 'string' || !marketId)) {
+    return { error: 'Invalid marketId. Must be a non-empty string' };
+  }
+  if (type === 'candle_rebuild' && !marketId) {
+    return { error: 'Missing required field: marketId' };
+  }
+  if (type === 'trade_backfill' && !adapter.backfill) {
+    return { error: `Exchange "${exchange}" does not support backfills` };
+  }
+
+  if (type === 'trade_backfill' && start === undefined) {
+    return { error: 'Missing required field: start' };
+  }
+  if (start === undefined && end !== undefined) {
+    return { error: 'end needs a start' };
+  }
+
+  let startDate: Date | null = null;
+  let endDate: Date | null = null;
+  if (start !== undefined) {
+    startDate = parseDate(start);
+    endDate = end !== undefined ? parseDate(end) : new Date();
+    if (!startDate || !endDate) {
+      return { error: 'Invalid start or end. Must be ISO timestamps' };
+    }
+    if (startDate >= endDate) {
+      return { error: 'start must be before end' };
+    }
+  }
+
+  return {
+    fields: {
+      type,
+      exchange,
+      marketId: (marketId as string | undefined) ?? null,
+      start: startDate,
+      end: endDate,
+    },
+  };
+}
+
+function toJob(row: any): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    exchange: row.exchange,
+    marketId: row.market_id,
+    start: row.start_time,
+    end: row.end_time,
+    processed: row.processed,
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export async function createJob(fields: JobFields): Promise<Job> {
+  const result = await db.query(
+    `
+      INSERT INTO jobs (type, exchange, market_id, start_time, end_time)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `,
+    [fields.type, fields.exchange, fields.marketId, fields.start, fields.end]
+  );
+  return toJob(result.rows[0]);
+}
+
+export async function getJob(id: number): Promise<Job | null> {
+  const result = await db.query('SELECT * FROM jobs WHERE id = $1', [id]);
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+}
+
+/**
+ * Jobs, newest first, optionally of one type or status
+ */
+export async function listJobs(
+  { type, status, limit = 100 }: { type?: JobType; status?: JobStatus; limit?: number } = {}
+): Promise<Job[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (type) {
+    params.push(type);
+    conditions.push(`type = $${params.length}`);
+  }
+  if (status) {
+    params.push(status);
+    conditions.push(`status = $${params.length}`);
+  }
+  params.push(limit);
+
+  const result = await db.query(
+    `SELECT * FROM jobs ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY id DESC LIMIT $${params.length}`,
+    params
+  );
+  return result.rows.map(toJob);
+}
+
+/**
+ * Ids of jobs waiting to run, oldest first
+ */
+export async function getQueuedJobIds(): Promise<number[]> {
+  const result = await db.query(`SELECT id FROM jobs WHERE status = 'queued' ORDER BY id ASC`);
+  return result.rows.map((row) => row.id);
+}
+
+/**
+ * Put jobs left running by a previous process back in the queue
+ * Backfills skip trades already stored, so rerunning them is safe.
+ */
+export async function requeueRunningJobs(): Promise<number> {
+  const result = await db.query(
+    `UPDATE jobs SET status = 'queued', started_at = NULL WHERE status = 'running'`
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Mark a queued job running; returns null if it is no longer queued (e.g. cancelled)
+ */
+export async function claimJob(id: number): Promise<Job | null> {
+  const result = await db.query(
+    `UPDATE jobs SET status = 'running', started_at = NOW() WHERE id = $1 AND status = 'queued' RETURNING *`,
+    [id]
+  );
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+}
+
+export async function setJobProgress(id: number, processed: number): Promise<void> {
+  await db.query(
+    `UPDATE jobs SET processed = GREATEST(processed, $2) WHERE id = $1 AND status = 'running'`,
+    [id, processed]
+  );
+}
+
+/**
+ * Record how a running job ended
+ */
+export async function finishJob(
+  id: number,
+  status: Extract<JobStatus, 'completed' | 'failed' | 'cancelled'>,
+  processed: number,
+  error: string | null = null
+): Promise<Job | null> {
+  const result = await db.query(
+    `
+      UPDATE jobs
+      SET status = $2, processed = GREATEST(processed, $3), error = $4, finished_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `,
+    [id, status, processed, error]
+  );
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+}
+
+/**
+ * Cancel a job that has not started; returns null if it is not queued
+ */
+export async function cancelQueuedJob(id: number): Promise<Job | null> {
+  const result = await db.query(
+    `UPDATE jobs SET status = 'cancelled', finished_at = NOW() WHERE id = $1 AND status = 'queued' RETURNING *`,
+    [id]
+  );
+  return result.rows[0] ? toJob(result.rows[0]) : null;
+}
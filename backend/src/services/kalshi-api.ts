@@ -16,12 +16,41 @@ interface KalshiMarket {
   status?: string;
   category?: string;
   event_ticker?: string;
+  close_time?: string; // ISO 8601
+  expiration_time?: string; // ISO 8601, when the result was determined
+  result?: string; // 'yes' | 'no' once determined, '' before
+  settlement_value?: number; // Payout of a yes contract, in cents
 }
 
 interface KalshiMarketResponse {
   market: KalshiMarket;
 }
 
+interface KalshiTrade {
+  trade_id: string;
+  ticker: string;
+  count: number;
+  yes_price: number; // cents
+  no_price: number;  // cents
+  yes_price_dollars?: string;
+  no_price_dollars?: string;
+  taker_side: 'yes' | 'no';
+  created_time: string; // ISO 8601
+}
+
+interface KalshiTradesResponse {
+  trades: KalshiTrade[];
+  cursor: string; // Empty when there are no more pages
+}
+
+interface FetchKalshiTradesParams {
+  ticker?: string;
+  minTs?: number; // Unix seconds, inclusive
+  maxTs?: number; // Unix seconds, inclusive
+  cursor?: string;
+  limit?: number; // Max 1000
+}
+
 /**
  * Generate authentication headers for Kalshi API
  */
@@ -129,5 +158,49 @@ export async function fetchKalshiMarkets(
   return results;
 }
 
-export type { KalshiMarket };
+/**
+ * Fetch one page of executed trades from Kalshi API, newest first
+ * Omitting ticker returns trades across all markets
+ */
+export async function fetchKalshiTrades(
+  params: FetchKalshiTradesParams
+): Promise<KalshiTradesResponse | null> {
+  const apiKeyId = process.env.KALSHI_API_KEY_ID;
+  const privateKey = process.env.KALSHI_PRIVATE_KEY;
+
+  if (!apiKeyId || !privateKey) {
+    console.warn('[KalshiAPI] Missing KALSHI_API_KEY_ID or KALSHI_PRIVATE_KEY');
+    return null;
+  }
+
+  // The signature covers the path only, not the query string
+  const path = '/trade-api/v2/markets/trades';
+
+  const query = new URLSearchParams({ limit: String(params.limit ?? 1000) });
+  if (params.ticker) query.set('ticker', params.ticker);
+  if (params.minTs !== undefined) query.set('min_ts', String(params.minTs));
+  if (params.maxTs !== undefined) query.set('max_ts', String(params.maxTs));
+  if (params.cursor) query.set('cursor', params.cursor);
+
+  try {
+    const headers = generateAuthHeaders('GET', path, apiKeyId, privateKey);
+
+    const response = await fetch(`${KALSHI_API_BASE}/markets/trades?${query}`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (!response.ok) {
+      console.error(`[KalshiAPI] Error fetching trades: ${response.status}`);
+      return null;
+    }
+
+    return (await response.json()) as KalshiTradesResponse;
+  } catch (error) {
+    console.error('[KalshiAPI] Error fetching trades:', error);
+    return null;
+  }
+}
+
+export type { KalshiMarket, KalshiTrade };
 
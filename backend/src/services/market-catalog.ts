@@ -0,0 +1,597 @@
+import db from '../db/client';
+import {
+  Exchange,
+  MarketDetails,
+  MarketKey,
+  MarketLifecycle,
+  MarketOutcome,
+  MarketStatus,
+  MarketStatusChange,
+  Outcome,
+  Trade,
+} from '../types';
+import { tradeEmitter } from '../events/trade-emitter';
+import { marketEmitter } from '../events/market-emitter';
+import { exchangeRegistry } from '../indexers/registry';
+
+/**
+ * Market Catalog Service
+ * Keeps the markets table in step with the trades table: markets are added
+ * when their first trade is ingested, and their metadata is looked up from the
+ * exchange in the background. Reads are stale-while-revalidate: stored
+ * metadata is returned immediately, and entries older than the TTL are queued
+ * for a refresh instead of being fetched inline. Resolved markets are final,
+ * so they are no longer revalidated; Polymarket resolutions are also recorded
+ * from the chain as they happen. Markets seen to close or resolve are
+ * announced on the market emitter, so live state kept for them is dropped.
+ */
+
+// How often new markets are written and missing or stale metadata is fetched
+const REFRESH_INTERVAL_MS = parseInt(process.env.MARKET_CATALOG_REFRESH_MS || '60000', 10);
+
+// Metadata older than this is refetched the next time it is read
+const METADATA_TTL_MS = parseInt(process.env.MARKET_METADATA_TTL_MS || String(60 * 60 * 1000), 10);
+
+// Markets looked up per refresh
+const FETCH_BATCH_SIZE = 100;
+
+// Markets the exchange did not know are retried after this long
+const RETRY_MISSING_AFTER = '1 day';
+
+export const MARKET_STATUSES: MarketStatus[] = ['open', 'closed', 'resolved'];
+
+export function isMarketStatus(value: string): value is MarketStatus {
+  return (MARKET_STATUSES as string[]).includes(value);
+}
+
+export interface MarketSearchOptions {
+  exchange?: Exchange;
+  status?: MarketStatus;
+  limit?: number;
+}
+
+export interface MarketSearchResult extends MarketKey, MarketLifecycle {
+  title: string | null;
+  subtitle: string | null;
+  category: string | null;
+  eventTicker: string | null;
+  eventTitle: string | null;
+  outcome: string | null;
+  groupId: string | null;       // Polymarket condition id shared by the question's outcome tokens
+  outcomes: MarketOutcome[];
+  rank: number;
+  tradeCount: number;
+  tradesLast10Min: number;
+  firstTrade: Date | null;
+  lastTrade: Date | null;
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery, e.g. "btc pri" -> "btc:* & pri:*"
+ * Returns null if the text has no searchable words
+ */
+function toPrefixQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * The lifecycle fields of a market's details, all null if it is not cataloged yet
+ */
+export function toMarketLifecycle(details: MarketDetails | undefined): MarketLifecycle {
+  return {
+    status: details?.status ?? null,
+    closeTime: details?.endDate ?? null,
+    result: details?.result ?? null,
+    settlementPrice: details?.settlementPrice ?? null,
+    resolvedAt: details?.resolvedAt ?? null,
+  };
+}
+
+/**
+ * The outcome tokens of a market, e.g. a Polymarket question's Yes and No tokens
+ * Returns an empty list for markets that trade both sides under one id (Kalshi)
+ */
+export function toMarketOutcomes(details: MarketDetails): MarketOutcome[] {
+  const tokenIds = details.tokenIds ?? [];
+  return tokenIds.map((marketId, i) => ({
+    marketId,
+    name: details.outcomes?.[i] ?? null,
+    outcome: i === 0 ? 'yes' : i === 1 ? 'no' : null,
+  }));
+}
+
+class MarketCatalog {
+  private isRunning = false;
+  private isRefreshing = false;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  // Markets known to be in the table since startup
+  private cataloged = new Set<string>();
+  // Markets seen in trades that still need to be written
+  private pending = new Map<string, MarketKey>();
+  // Markets whose metadata was read after it went stale
+  private stale = new Map<string, MarketKey>();
+  private refreshScheduled = false;
+  // Markets announced as closed or resolved since startup
+  private ended = new Set<string>();
+
+  private handleTrade = (trade: Trade) => {
+    const key = `${trade.exchange}:${trade.marketId}`;
+    if (!this.cataloged.has(key)) {
+      this.pending.set(key, { exchange: trade.exchange, marketId: trade.marketId });
+    }
+  };
+
+  start() {
+    if (this.isRunning) {
+      console.log('[MarketCatalog] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    tradeEmitter.on('trade', this.handleTrade);
+
+    this.refreshTimer = setInterval(() => this.refresh(), REFRESH_INTERVAL_MS);
+    this.refresh();
+
+    console.log('[MarketCatalog] ✅ Cataloging markets from ingested trades');
+  }
+
+  stop() {
+    this.isRunning = false;
+    tradeEmitter.off('trade', this.handleTrade);
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    console.log('[MarketCatalog] Stopped');
+  }
+
+  /**
+   * Write newly seen markets, then fetch metadata for markets that lack it
+   */
+  async refresh() {
+    if (this.isRefreshing) return;
+    this.isRefreshing = true;
+
+    try {
+      await this.insertPending();
+      await this.revalidateStale();
+      await this.fetchMissingDetails();
+    } catch (error) {
+      console.error('[MarketCatalog] Error refreshing catalog:', error);
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Refresh soon after a read finds missing or stale metadata, rather than
+   * waiting for the next interval
+   */
+  private scheduleRefresh() {
+    if (!this.isRunning || this.refreshScheduled) return;
+    this.refreshScheduled = true;
+    setImmediate(() => {
+      this.refreshScheduled = false;
+      this.refresh();
+    });
+  }
+
+  /**
+   * Stored metadata for markets, without waiting on the exchange
+   * Markets that are not cataloged yet are added, and entries older than the
+   * TTL are queued for a background refresh. Markets without a title are left
+   * out of the map.
+   */
+  async getDetails(exchange: Exchange, marketIds: string[]): Promise<Map<string, MarketDetails>> {
+    const details = new Map<string, MarketDetails>();
+    if (marketIds.length === 0) return details;
+
+    const result = await db.query(
+      `
+        SELECT market_id, title, subtitle, category, event_ticker, event_title, outcome,
+               status, end_date, result, settlement_price, resolved_at,
+               condition_id, token_ids, outcomes, fetched_at
+        FROM markets
+        WHERE exchange = $1 AND market_id = ANY($2)
+      `,
+      [exchange, marketIds]
+    );
+
+    const staleBefore = Date.now() - METADATA_TTL_MS;
+    const found = new Set<string>();
+
+    for (const row of result.rows) {
+      found.add(row.market_id);
+      // Untitled markets are retried on their own, slower schedule; resolved ones never change
+      if (row.title && row.status !== 'resolved' && row.fetched_at && row.fetched_at.getTime() < staleBefore) {
+        this.stale.set(`${exchange}:${row.market_id}`, { exchange, marketId: row.market_id });
+      }
+      if (row.title) {
+        details.set(row.market_id, {
+          title: row.title,
+          subtitle: row.subtitle,
+          category: row.category,
+          eventTicker: row.event_ticker,
+          eventTitle: row.event_title,
+          outcome: row.outcome,
+          status: row.status,
+          endDate: row.end_date,
+          result: row.result,
+          settlementPrice: row.settlement_price !== null ? row.settlement_price.toString() : null,
+          resolvedAt: row.resolved_at,
+          conditionId: row.condition_id,
+          tokenIds: row.token_ids,
+          outcomes: row.outcomes,
+        });
+      }
+    }
+
+    for (const marketId of marketIds) {
+      if (!found.has(marketId)) {
+        this.pending.set(`${exchange}:${marketId}`, { exchange, marketId });
+      }
+    }
+
+    if (this.pending.size > 0 || this.stale.size > 0) {
+      this.scheduleRefresh();
+    }
+
+    return details;
+  }
+
+  private async insertPending() {
+    if (this.pending.size === 0) return;
+
+    const markets = Array.from(this.pending.entries());
+    this.pending.clear();
+
+    try {
+      await db.query(
+        `
+          INSERT INTO markets (exchange, market_id)
+          SELECT * FROM unnest($1::varchar[], $2::varchar[])
+          ON CONFLICT DO NOTHING
+        `,
+        [markets.map(([, m]) => m.exchange), markets.map(([, m]) => m.marketId)]
+      );
+    } catch (error) {
+      // Try again on the next refresh
+      for (const [key, market] of markets) {
+        this.pending.set(key, market);
+      }
+      throw error;
+    }
+
+    for (const [key] of markets) {
+      this.cataloged.add(key);
+    }
+  }
+
+  private async revalidateStale() {
+    if (this.stale.size === 0) return;
+
+    const markets = Array.from(this.stale.entries()).slice(0, FETCH_BATCH_SIZE);
+    for (const [key] of markets) {
+      this.stale.delete(key);
+    }
+
+    await this.fetchDetails(markets.map(([, market]) => market));
+  }
+
+  private async fetchMissingDetails() {
+    const result = await db.query(
+      `
+        SELECT exchange, market_id FROM markets
+        WHERE fetched_at IS NULL
+           OR (title IS NULL AND fetched_at < NOW() - $1::interval)
+        ORDER BY fetched_at ASC NULLS FIRST, created_at DESC
+        LIMIT $2
+      `,
+      [RETRY_MISSING_AFTER, FETCH_BATCH_SIZE]
+    );
+
+    await this.fetchDetails(result.rows.map((row) => ({ exchange: row.exchange, marketId: row.market_id })));
+  }
+
+  private async fetchDetails(markets: MarketKey[]) {
+    const marketIdsByExchange = new Map<string, string[]>();
+    for (const { exchange, marketId } of markets) {
+      const marketIds = marketIdsByExchange.get(exchange) ?? [];
+      marketIds.push(marketId);
+      marketIdsByExchange.set(exchange, marketIds);
+    }
+
+    for (const [exchange, marketIds] of marketIdsByExchange) {
+      const details = await this.lookupDetails(exchange, marketIds);
+      await this.saveDetails(exchange, marketIds, details);
+      console.log(`[MarketCatalog] Cataloged ${details.size}/${marketIds.length} ${exchange} markets`);
+    }
+  }
+
+  private async lookupDetails(exchange: string, marketIds: string[]): Promise<Map<string, MarketDetails>> {
+    const adapter = exchangeRegistry.get(exchange);
+    if (!adapter) return new Map();
+
+    if (adapter.getMarketDetails) {
+      return adapter.getMarketDetails(marketIds);
+    }
+
+    const titles = await adapter.getMarketTitles(marketIds);
+    return new Map(Array.from(titles, ([marketId, title]): [string, MarketDetails] => [marketId, { title }]));
+  }
+
+  /**
+   * Store looked-up details; markets the exchange did not return keep whatever
+   * they had and are marked as fetched so they are only retried later
+   */
+  private async saveDetails(exchange: string, marketIds: string[], details: Map<string, MarketDetails>) {
+    const foundIds = marketIds.filter((marketId) => details.has(marketId));
+    const missingIds = marketIds.filter((marketId) => !details.has(marketId));
+
+    if (foundIds.length > 0) {
+      const fields = foundIds.map((marketId) => details.get(marketId)!);
+
+      // Arrays are passed as JSON, since unnest flattens nested arrays.
+      // A resolution is final, so a lagging exchange API cannot reopen a market
+      const updated = await db.query(
+        `
+          UPDATE markets m
+          SET title = d.title,
+              subtitle = d.subtitle,
+              category = d.category,
+              event_ticker = d.event_ticker,
+              event_title = d.event_title,
+              outcome = d.outcome,
+              status = CASE WHEN m.status = 'resolved' THEN m.status ELSE d.status END,
+              end_date = d.end_date,
+              result = CASE WHEN m.status = 'resolved' THEN m.result ELSE d.result END,
+              settlement_price = CASE WHEN m.status = 'resolved' THEN m.settlement_price ELSE d.settlement_price END,
+              resolved_at = CASE WHEN m.status = 'resolved' THEN m.resolved_at ELSE d.resolved_at END,
+              condition_id = d.condition_id,
+              token_ids = ARRAY(SELECT jsonb_array_elements_text(d.token_ids)),
+              outcomes = ARRAY(SELECT jsonb_array_elements_text(d.outcomes)),
+              fetched_at = NOW(),
+              updated_at = NOW()
+          FROM unnest(
+            $2::varchar[], $3::text[], $4::text[], $5::varchar[], $6::varchar[], $7::text[], $8::varchar[],
+            $9::varchar[], $10::timestamptz[], $11::varchar[], $12::numeric[], $13::timestamptz[],
+            $14::varchar[], $15::jsonb[], $16::jsonb[]
+          ) AS d(market_id, title, subtitle, category, event_ticker, event_title, outcome,
+                 status, end_date, result, settlement_price, resolved_at, condition_id, token_ids, outcomes)
+          WHERE m.exchange = $1 AND m.market_id = d.market_id
+          RETURNING m.market_id, m.status
+        `,
+        [
+          exchange,
+          foundIds,
+          fields.map((f) => f.title),
+          fields.map((f) => f.subtitle ?? null),
+          fields.map((f) => f.category ?? null),
+          fields.map((f) => f.eventTicker ?? null),
+          fields.map((f) => f.eventTitle ?? null),
+          fields.map((f) => f.outcome ?? null),
+          fields.map((f) => f.status ?? null),
+          fields.map((f) => f.endDate ?? null),
+          fields.map((f) => f.result ?? null),
+          fields.map((f) => f.settlementPrice ?? null),
+          fields.map((f) => f.resolvedAt ?? null),
+          fields.map((f) => f.conditionId ?? null),
+          fields.map((f) => (f.tokenIds ? JSON.stringify(f.tokenIds) : null)),
+          fields.map((f) => (f.outcomes ? JSON.stringify(f.outcomes) : null)),
+        ]
+      );
+      this.announceEnded(exchange, updated.rows);
+    }
+
+    if (missingIds.length > 0) {
+      await db.query(
+        `UPDATE markets SET fetched_at = NOW() WHERE exchange = $1 AND market_id = ANY($2)`,
+        [exchange, missingIds]
+      );
+    }
+  }
+
+  /**
+   * Mark every outcome token of a Polymarket condition as resolved
+   * payouts are per outcome, in token order, so each token settles at its own
+   * payout. Returns the number of cataloged markets updated; conditions we
+   * never indexed are ignored.
+   */
+  async resolveCondition(
+    conditionId: string,
+    result: Outcome | null,
+    payouts: string[],
+    resolvedAt: Date
+  ): Promise<number> {
+    const updated = await db.query(
+      `
+        UPDATE markets
+        SET status = 'resolved',
+            result = $2,
+            settlement_price = ($3::numeric[])[array_position(token_ids, market_id::text)],
+            resolved_at = $4,
+            updated_at = NOW()
+        WHERE exchange = 'polymarket' AND condition_id = $1
+        RETURNING market_id, status
+      `,
+      [conditionId, result, payouts, resolvedAt]
+    );
+    this.announceEnded('polymarket', updated.rows);
+    return updated.rowCount ?? 0;
+  }
+
+  /**
+   * Announce markets whose stored status is now closed or resolved, once each
+   * A market that reopens is announced again when it next closes.
+   */
+  private announceEnded(exchange: Exchange, rows: { market_id: string; status: MarketStatus | null }[]) {
+    const ended: MarketKey[] = [];
+    for (const { market_id: marketId, status } of rows) {
+      const key = `${exchange}:${marketId}`;
+      if (status !== 'closed' && status !== 'resolved') {
+        this.ended.delete(key);
+      } else if (!this.ended.has(key)) {
+        this.ended.add(key);
+        ended.push({ exchange, marketId });
+      }
+    }
+    marketEmitter.emitEnded(ended);
+  }
+
+  /**
+   * Which of these markets are closed or resolved, as exchange:marketId keys
+   */
+  async getEndedMarkets(markets: MarketKey[]): Promise<Set<string>> {
+    if (markets.length === 0) return new Set();
+
+    const result = await db.query(
+      `
+        SELECT m.exchange, m.market_id
+        FROM markets m
+        JOIN unnest($1::varchar[], $2::varchar[]) AS k(exchange, market_id)
+          ON m.exchange = k.exchange AND m.market_id = k.market_id
+        WHERE m.status IN ('closed', 'resolved')
+      `,
+      [markets.map((m) => m.exchange), markets.map((m) => m.marketId)]
+    );
+    return new Set(result.rows.map((row) => `${row.exchange}:${row.market_id}`));
+  }
+
+  /**
+   * Recorded status and resolution changes for a market, oldest first
+   */
+  async getStatusHistory(exchange: Exchange, marketId: string): Promise<MarketStatusChange[]> {
+    const result = await db.query(
+      `
+        SELECT status, result, settlement_price, changed_at
+        FROM market_status_history
+        WHERE exchange = $1 AND market_id = $2
+        ORDER BY changed_at ASC, id ASC
+      `,
+      [exchange, marketId]
+    );
+
+    return result.rows.map((row) => ({
+      status: row.status,
+      result: row.result,
+      settlementPrice: row.settlement_price !== null ? row.settlement_price.toString() : null,
+      changedAt: row.changed_at,
+    }));
+  }
+
+  /**
+   * Every market id that trades the same question as marketId, yes token first
+   * Falls back to just marketId when the market has no known sibling tokens
+   */
+  async getSiblingMarketIds(exchange: Exchange, marketId: string): Promise<string[]> {
+    const result = await db.query(
+      'SELECT token_ids FROM markets WHERE exchange = $1 AND market_id = $2',
+      [exchange, marketId]
+    );
+    const tokenIds: string[] | null = result.rows[0]?.token_ids ?? null;
+    return tokenIds?.includes(marketId) ? tokenIds : [marketId];
+  }
+
+  /**
+   * Search the catalog by title, subtitle, outcome, category, event or id
+   * Words match as prefixes, and misspelled titles match by trigram similarity.
+   * Outcome tokens of one question collapse into their best-matching token,
+   * with activity stats covering all of them. Returns an empty list if the
+   * text has no searchable words.
+   */
+  async search(text: string, { exchange, status, limit = 20 }: MarketSearchOptions = {}): Promise<MarketSearchResult[]> {
+    const tsquery = toPrefixQuery(text);
+    if (!tsquery) return [];
+
+    const params: any[] = [tsquery, text, `%${escapeLikePattern(text)}%`];
+    let exchangeFilter = '';
+    if (exchange) {
+      params.push(exchange);
+      exchangeFilter = `AND m.exchange = $${params.length}`;
+    }
+    let statusFilter = '';
+    if (status) {
+      params.push(status);
+      statusFilter = `AND m.status = $${params.length}`;
+    }
+    params.push(limit);
+    const limitParam = `$${params.length}`;
+    params.push(new Date(Date.now() - 10 * 60 * 1000));
+    const recentParam = `$${params.length}`;
+
+    // Rank the matches first so activity stats are only computed for the results
+    const result = await db.query(
+      `
+        WITH matches AS (
+          SELECT DISTINCT ON (m.exchange, COALESCE(m.condition_id, m.market_id))
+                 m.exchange, m.market_id, m.title, m.subtitle, m.category, m.event_ticker, m.event_title,
+                 m.outcome, m.condition_id, m.token_ids, m.outcomes,
+                 m.status, m.end_date, m.result, m.settlement_price, m.resolved_at,
+                 ts_rank(m.search_vector, to_tsquery('english', $1))
+                   + word_similarity($2, coalesce(m.title, ''))
+                   + CASE WHEN m.market_id ILIKE $3 THEN 1 ELSE 0 END as rank
+          FROM markets m
+          WHERE (
+            m.search_vector @@ to_tsquery('english', $1)
+            OR m.title ILIKE $3
+            OR m.market_id ILIKE $3
+            OR $2 <% m.title
+          )
+          ${exchangeFilter}
+          ${statusFilter}
+          ORDER BY m.exchange, COALESCE(m.condition_id, m.market_id), rank DESC, m.market_id
+        ),
+        ranked AS (
+          SELECT * FROM matches
+          ORDER BY rank DESC, exchange, market_id
+          LIMIT ${limitParam}
+        )
+        SELECT ranked.*, stats.*
+        FROM ranked
+        LEFT JOIN LATERAL (
+          SELECT COUNT(*) as trade_count,
+                 COUNT(*) FILTER (WHERE t.timestamp >= ${recentParam}) as trades_last_10min,
+                 MIN(t.timestamp) as first_trade,
+                 MAX(t.timestamp) as last_trade
+          FROM trades t
+          WHERE t.exchange = ranked.exchange
+            AND t.market_id = ANY(COALESCE(ranked.token_ids, ARRAY[ranked.market_id::text]))
+        ) stats ON true
+        ORDER BY rank DESC, trades_last_10min DESC, trade_count DESC
+      `,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      exchange: row.exchange,
+      marketId: row.market_id,
+      title: row.title,
+      subtitle: row.subtitle,
+      category: row.category,
+      eventTicker: row.event_ticker,
+      eventTitle: row.event_title,
+      outcome: row.outcome,
+      groupId: row.condition_id,
+      outcomes: toMarketOutcomes({ title: row.title, tokenIds: row.token_ids, outcomes: row.outcomes }),
+      status: row.status,
+      closeTime: row.end_date,
+      result: row.result,
+      settlementPrice: row.settlement_price !== null ? row.settlement_price.toString() : null,
+      resolvedAt: row.resolved_at,
+      rank: Math.round(parseFloat(row.rank) * 1000) / 1000,
+      tradeCount: parseInt(row.trade_count, 10),
+      tradesLast10Min: parseInt(row.trades_last_10min, 10),
+      firstTrade: row.first_trade,
+      lastTrade: row.last_trade,
+    }));
+  }
+}
+
+export const marketCatalog = new MarketCatalog();
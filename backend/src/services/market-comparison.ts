@@ -0,0 +1,74 @@
+import { Candle, ComparisonCandle, ComparisonPoint, Interval, MarketKey } from '../types';
+import { candleAggregator } from './candle-aggregator';
+
+/**
+ * Market Comparison Service
+ * Lines up the candles of two equivalent markets, usually on different
+ * exchanges, and tracks the gap between their implied probabilities
+ */
+
+function toComparisonCandle({ open, high, low, close, volume }: Candle): ComparisonCandle {
+  return { open, high, low, close, volume };
+}
+
+/**
+ * Express a candle in terms of the opposite outcome: prices become 1 - price,
+ * so the high and low swap
+ */
+function invertCandle(candle: ComparisonCandle): ComparisonCandle {
+  const flip = (price: string) => (1 - parseFloat(price)).toFixed(4);
+  return {
+    open: flip(candle.open),
+    high: flip(candle.low),
+    low: flip(candle.high),
+    close: flip(candle.close),
+    volume: candle.volume,
+  };
+}
+
+/**
+ * Candles of both markets bucketed by open time, oldest first
+ * When inverted, b's prices are flipped so both legs price the same outcome.
+ * A leg without trades in a bucket keeps its last close for the spread, and
+ * the spread is null until both legs have traded. The limit applies to each
+ * leg's candles, as in the batch candles endpoint.
+ */
+export async function compareMarkets(
+  a: MarketKey,
+  b: MarketKey,
+  interval: Interval,
+  { inverted = false, start, end, limit = 1000 }: { inverted?: boolean; start?: Date; end?: Date; limit?: number } = {}
+): Promise<ComparisonPoint[]> {
+  const candles = await candleAggregator.getCandlesForMarkets([a, b], interval, start, end, limit);
+
+  const points = new Map<number, ComparisonPoint>();
+  const pointAt = (openTime: Date) => {
+    let point = points.get(openTime.getTime());
+    if (!point) {
+      point = { openTime, a: null, b: null, spread: null };
+      points.set(openTime.getTime(), point);
+    }
+    return point;
+  };
+
+  for (const candle of candles) {
+    if (candle.exchange === a.exchange && candle.marketId === a.marketId) {
+      pointAt(candle.openTime).a = toComparisonCandle(candle);
+    } else {
+      const legCandle = toComparisonCandle(candle);
+      pointAt(candle.openTime).b = inverted ? invertCandle(legCandle) : legCandle;
+    }
+  }
+
+  const sorted = Array.from(points.values()).sort((x, y) => x.openTime.getTime() - y.openTime.getTime());
+
+  let lastA: number | null = null;
+  let lastB: number | null = null;
+  for (const point of sorted) {
+    if (point.a) lastA = parseFloat(point.a.close);
+    if (point.b) lastB = parseFloat(point.b.close);
+    point.spread = lastA !== null && lastB !== null ? (lastA - lastB).toFixed(4) : null;
+  }
+
+  return sorted;
+}
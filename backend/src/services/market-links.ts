@@ -0,0 +1,142 @@
+import db from '../db/client';
+import { Exchange, MarketKey, MarketLink, MarketLinkSource, MarketLinkSuggestion } from '../types';
+
+/**
+ * Market Links Service
+ * Equivalent markets on different exchanges, curated by hand or suggested by
+ * title similarity over the market catalog
+ */
+
+export const MARKET_LINK_SOURCES: MarketLinkSource[] = ['manual', 'suggested'];
+
+// Lowest trigram similarity of titles worth suggesting
+const MIN_SUGGESTION_SIMILARITY = 0.3;
+
+export function isMarketLinkSource(value: string): value is MarketLinkSource {
+  return (MARKET_LINK_SOURCES as string[]).includes(value);
+}
+
+function toKey(market: MarketKey): string {
+  return `${market.exchange}:${market.marketId}`;
+}
+
+/**
+ * Map a market_links row to a link, oriented so `from` is its first leg
+ */
+function toMarketLink(row: any, from?: MarketKey): MarketLink {
+  const swap = from !== undefined && (row.exchange !== from.exchange || row.market_id !== from.marketId);
+  return {
+    id: row.id,
+    exchange: swap ? row.linked_exchange : row.exchange,
+    marketId: swap ? row.linked_market_id : row.market_id,
+    linkedExchange: swap ? row.exchange : row.linked_exchange,
+    linkedMarketId: swap ? row.market_id : row.linked_market_id,
+    inverted: row.inverted,
+    source: row.source,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Every link of a market, whichever leg it was stored as
+ */
+export async function getMarketLinks(market: MarketKey): Promise<MarketLink[]> {
+  const result = await db.query(
+    `
+      SELECT * FROM market_links
+      WHERE (exchange = $1 AND market_id = $2)
+         OR (linked_exchange = $1 AND linked_market_id = $2)
+      ORDER BY created_at ASC, id ASC
+    `,
+    [market.exchange, market.marketId]
+  );
+  return result.rows.map((row) => toMarketLink(row, market));
+}
+
+export async function getMarketLink(id: number): Promise<MarketLink | null> {
+  const result = await db.query('SELECT * FROM market_links WHERE id = $1', [id]);
+  return result.rows[0] ? toMarketLink(result.rows[0]) : null;
+}
+
+/**
+ * Link two markets, or update the existing link between them
+ * Returns the link oriented from `market`
+ */
+export async function saveMarketLink(
+  market: MarketKey,
+  linked: MarketKey,
+  { inverted = false, source = 'manual' }: { inverted?: boolean; source?: MarketLinkSource } = {}
+): Promise<MarketLink> {
+  const [first, second] = toKey(market) <= toKey(linked) ? [market, linked] : [linked, market];
+  const result = await db.query(
+    `
+      INSERT INTO market_links (exchange, market_id, linked_exchange, linked_market_id, inverted, source)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (exchange, market_id, linked_exchange, linked_market_id)
+      DO UPDATE SET inverted = EXCLUDED.inverted, source = EXCLUDED.source
+      RETURNING *
+    `,
+    [first.exchange, first.marketId, second.exchange, second.marketId, inverted, source]
+  );
+  return toMarketLink(result.rows[0], market);
+}
+
+/**
+ * Remove a link; returns false if it did not exist
+ */
+export async function deleteMarketLink(id: number): Promise<boolean> {
+  const result = await db.query('DELETE FROM market_links WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Markets on another exchange whose titles resemble the market's, best first
+ * Outcome tokens of one question collapse into their yes token, and markets
+ * already linked to this one are left out. Returns an empty list until the
+ * market's metadata has been fetched.
+ */
+export async function suggestMarketLinks(
+  market: MarketKey,
+  linkedExchange: Exchange,
+  limit: number = 10
+): Promise<MarketLinkSuggestion[]> {
+  const result = await db.query(
+    `
+      WITH target AS (
+        SELECT concat_ws(' ', title, subtitle) as text
+        FROM markets
+        WHERE exchange = $1 AND market_id = $2 AND title IS NOT NULL
+      ),
+      candidates AS (
+        SELECT DISTINCT ON (COALESCE(m.condition_id, m.market_id))
+               m.exchange, m.market_id, m.title, m.subtitle, m.outcome, m.status,
+               similarity(concat_ws(' ', m.title, m.subtitle), target.text) as similarity
+        FROM markets m, target
+        WHERE m.exchange = $3
+          AND m.title % target.text
+          AND NOT EXISTS (
+            SELECT 1 FROM market_links l
+            WHERE (l.exchange = $1 AND l.market_id = $2 AND l.linked_exchange = m.exchange AND l.linked_market_id = m.market_id)
+               OR (l.linked_exchange = $1 AND l.linked_market_id = $2 AND l.exchange = m.exchange AND l.market_id = m.market_id)
+          )
+        ORDER BY COALESCE(m.condition_id, m.market_id),
+                 (m.token_ids IS NULL OR m.token_ids[1] = m.market_id) DESC
+      )
+      SELECT * FROM candidates
+      WHERE similarity >= $4
+      ORDER BY similarity DESC, market_id
+      LIMIT $5
+    `,
+    [market.exchange, market.marketId, linkedExchange, MIN_SUGGESTION_SIMILARITY, limit]
+  );
+
+  return result.rows.map((row) => ({
+    exchange: row.exchange,
+    marketId: row.market_id,
+    title: row.title,
+    subtitle: row.subtitle,
+    outcome: row.outcome,
+    status: row.status,
+    similarity: Math.round(parseFloat(row.similarity) * 1000) / 1000,
+  }));
+}
@@ -1,197 +1,151 @@
-import { fetchKalshiMarket, type KalshiMarket } from './kalshi-api';
-import { fetchPolymarketByTokenId, fetchPolymarketsByTokenIds, getPolymarketTitle, type PolymarketMarketWithOutcome } from './polymarket-api';
+import { MarketDetails, MarketStatus, Outcome } from '../types';
+import { fetchKalshiMarkets } from './kalshi-api';
+import { fetchPolymarketsByTokenIds } from './polymarket-api';
+import { marketCatalog } from './market-catalog';
 
 /**
  * Market Metadata Service
- * Caches market titles to avoid repeated API calls
+ * Titles are served from the markets table, so callers never wait on the
+ * exchange APIs; the market catalog fetches and revalidates the stored
+ * metadata in the background with the lookups below.
  */
 
-interface MarketMetadata {
-  ticker: string;
-  title: string;
-  subtitle?: string;
-  actualMarketId?: string; // For Polymarket, the real market ID (not token ID)
-  fetchedAt: Date;
-}
-
-// In-memory cache for market metadata
-// Key format: exchange:marketId
-const metadataCache = new Map<string, MarketMetadata>();
+// Kalshi statuses by lifecycle stage; anything else (closed, inactive, paused) is closed
+const KALSHI_OPEN_STATUSES = ['initialized', 'unopened', 'active', 'open'];
+const KALSHI_RESOLVED_STATUSES = ['determined', 'settled', 'finalized'];
 
-// Cache TTL: 1 hour (market titles don't change often)
-const CACHE_TTL_MS = 60 * 60 * 1000;
+function toKalshiStatus(status: string): MarketStatus {
+  if (KALSHI_OPEN_STATUSES.includes(status)) return 'open';
+  if (KALSHI_RESOLVED_STATUSES.includes(status)) return 'resolved';
+  return 'closed';
+}
 
 /**
- * Get market title for a Kalshi market
- * Returns cached value if available and not expired
+ * Which side a yes payout settled on; split payouts have no winner
  */
-export async function getKalshiMarketTitle(ticker: string): Promise<string | null> {
-  const cacheKey = `kalshi:${ticker}`;
-  
-  // Check cache first
-  const cached = metadataCache.get(cacheKey);
-  if (cached && Date.now() - cached.fetchedAt.getTime() < CACHE_TTL_MS) {
-    return cached.title;
-  }
-
-  // Fetch from API
-  const market = await fetchKalshiMarket(ticker);
-  
-  if (market) {
-    // Cache the result
-    metadataCache.set(cacheKey, {
-      ticker: market.ticker,
-      title: market.title,
-      subtitle: market.subtitle,
-      fetchedAt: new Date(),
-    });
-    return market.title;
-  }
-
+function toResult(settlementPrice: number): Outcome | null {
+  if (settlementPrice === 1) return 'yes';
+  if (settlementPrice === 0) return 'no';
   return null;
 }
 
 /**
- * Get market title for a Polymarket token
- * Returns cached value if available and not expired
- * Title includes the outcome (Up/Down, Yes/No) for the specific token
+ * Get market titles for Kalshi markets from the catalog
+ * Returns a map of ticker -> title; markets not cataloged yet are left out
  */
-export async function getPolymarketMarketTitle(clobTokenId: string): Promise<string | null> {
-  const cacheKey = `polymarket:${clobTokenId}`;
-  
-  // Check cache first
-  const cached = metadataCache.get(cacheKey);
-  if (cached && Date.now() - cached.fetchedAt.getTime() < CACHE_TTL_MS) {
-    return cached.title;
-  }
-
-  // Fetch enhanced title from Gamma API (includes outcome like "Up", "Down", etc.)
-  const title = await getPolymarketTitle(clobTokenId);
-  const market = await fetchPolymarketByTokenId(clobTokenId);
-  
-  if (title && market) {
-    // Cache the result with the enhanced title
-    metadataCache.set(cacheKey, {
-      ticker: clobTokenId,
-      title: title, // Enhanced title with outcome
-      actualMarketId: market.id,
-      fetchedAt: new Date(),
-    });
-    return title;
-  }
-
-  return null;
+export async function getKalshiMarketTitles(
+  tickers: string[]
+): Promise<Map<string, string>> {
+  const details = await marketCatalog.getDetails('kalshi', tickers);
+  return new Map(Array.from(details, ([ticker, market]) => [ticker, market.title]));
 }
 
 /**
- * Batch fetch market titles for multiple Kalshi markets
- * Returns a map of ticker -> title
+ * Get market titles for Polymarket tokens from the catalog
+ * Returns a map of clobTokenId -> title, enhanced with the token's outcome
+ *
+ * Examples:
+ * - "Bitcoin Up or Down - Dec 25 (Up)"
+ * - "Will BTC reach $250,000? (↑ 250,000)"
  */
-export async function getKalshiMarketTitles(
-  tickers: string[]
+export async function getPolymarketMarketTitles(
+  clobTokenIds: string[]
 ): Promise<Map<string, string>> {
+  const details = await marketCatalog.getDetails('polymarket', clobTokenIds);
   const results = new Map<string, string>();
-  const tickersToFetch: string[] = [];
-
-  // Check cache first for each ticker
-  for (const ticker of tickers) {
-    const cacheKey = `kalshi:${ticker}`;
-    const cached = metadataCache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.fetchedAt.getTime() < CACHE_TTL_MS) {
-      results.set(ticker, cached.title);
-      } else {
-      tickersToFetch.push(ticker);
-    }
+
+  for (const [tokenId, market] of details) {
+    // A group threshold (like "↑ 250,000") is more specific than the outcome
+    const suffix = market.subtitle || market.outcome;
+    results.set(tokenId, suffix ? `${market.title} (${suffix})` : market.title);
   }
 
-  // Fetch uncached tickers from API (with rate limiting)
-  if (tickersToFetch.length > 0) {
-    console.log(`[MarketMetadata] Fetching titles for ${tickersToFetch.length} Kalshi markets...`);
-    
-    // Fetch in parallel with rate limiting
-    const batchSize = 5;
-    const delayMs = 200;
-    
-    for (let i = 0; i < tickersToFetch.length; i += batchSize) {
-      const batch = tickersToFetch.slice(i, i + batchSize);
-      
-      await Promise.all(
-        batch.map(async (ticker) => {
-          const market = await fetchKalshiMarket(ticker);
-          if (market) {
-            const cacheKey = `kalshi:${ticker}`;
-            metadataCache.set(cacheKey, {
-              ticker: market.ticker,
-              title: market.title,
-              subtitle: market.subtitle,
-              fetchedAt: new Date(),
-            });
-            results.set(ticker, market.title);
-          }
-        })
-      );
-      
-      // Delay between batches
-      if (i + batchSize < tickersToFetch.length) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+  return results;
+}
+
+/**
+ * Fetch catalog metadata for Kalshi markets from the Kalshi API
+ * Returns a map of ticker -> details; tickers the API does not know are left out
+ */
+export async function getKalshiMarketDetails(
+  tickers: string[]
+): Promise<Map<string, MarketDetails>> {
+  const markets = await fetchKalshiMarkets(tickers);
+  const results = new Map<string, MarketDetails>();
+
+  for (const [ticker, market] of markets) {
+    const status = market.status ? toKalshiStatus(market.status) : null;
+    let settlementPrice: number | null = null;
+    if (status === 'resolved') {
+      if (market.settlement_value !== undefined) {
+        settlementPrice = market.settlement_value / 100;
+      } else if (market.result === 'yes' || market.result === 'no') {
+        settlementPrice = market.result === 'yes' ? 1 : 0;
       }
     }
-    
-    console.log(`[MarketMetadata] Fetched ${results.size - (tickers.length - tickersToFetch.length)} new Kalshi titles`);
-    }
 
-    return results;
+    results.set(ticker, {
+      title: market.title,
+      subtitle: market.subtitle || market.yes_sub_title || null,
+      category: market.category ?? null,
+      eventTicker: market.event_ticker ?? null,
+      outcome: null,
+      status,
+      endDate: market.close_time ? new Date(market.close_time) : null,
+      result: settlementPrice !== null ? toResult(settlementPrice) : null,
+      settlementPrice: settlementPrice !== null ? settlementPrice.toFixed(4) : null,
+      resolvedAt: status === 'resolved' && market.expiration_time ? new Date(market.expiration_time) : null,
+    });
   }
 
-  /**
- * Batch fetch market titles for multiple Polymarket tokens
- * Returns a map of clobTokenId -> title (enhanced with outcome)
+  return results;
+}
+
+/**
+ * Fetch catalog metadata for Polymarket tokens from the Gamma API
+ * Returns a map of clobTokenId -> details, titled by the market's question
  */
-export async function getPolymarketMarketTitles(
+export async function getPolymarketMarketDetails(
   clobTokenIds: string[]
-): Promise<Map<string, string>> {
-  const results = new Map<string, string>();
-  const tokensToFetch: string[] = [];
-
-  // Check cache first for each token
-  for (const tokenId of clobTokenIds) {
-    const cacheKey = `polymarket:${tokenId}`;
-    const cached = metadataCache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.fetchedAt.getTime() < CACHE_TTL_MS) {
-      results.set(tokenId, cached.title);
-    } else {
-      tokensToFetch.push(tokenId);
+): Promise<Map<string, MarketDetails>> {
+  const markets = await fetchPolymarketsByTokenIds(clobTokenIds);
+  const results = new Map<string, MarketDetails>();
+
+  for (const [tokenId, market] of markets) {
+    const event = market.events?.[0];
+    let tokenIds: string[] | null = null;
+    let outcomes: string[] | null = null;
+    let prices: string[] | null = null;
+    try {
+      tokenIds = JSON.parse(market.clobTokenIds) as string[];
+      outcomes = JSON.parse(market.outcomes) as string[];
+      prices = JSON.parse(market.outcomePrices) as string[];
+    } catch {
+      // Ignore parsing errors
     }
-  }
 
-  // Fetch uncached tokens from API
-  if (tokensToFetch.length > 0) {
-    console.log(`[MarketMetadata] Fetching titles for ${tokensToFetch.length} Polymarket markets...`);
-    
-    const markets = await fetchPolymarketsByTokenIds(tokensToFetch);
-    
-    for (const [tokenId, market] of markets) {
-      // Build enhanced title with outcome (Up/Down, Yes/No) or groupItemTitle
-      let title = market.question;
-      if (market.groupItemTitle && market.groupItemTitle !== '0') {
-        title = `${title} (${market.groupItemTitle})`;
-      } else if (market.outcomeForToken) {
-        title = `${title} (${market.outcomeForToken})`;
-      }
-      
-      const cacheKey = `polymarket:${tokenId}`;
-      metadataCache.set(cacheKey, {
-        ticker: tokenId,
-        title: title,
-        actualMarketId: market.id,
-        fetchedAt: new Date(),
-      });
-      results.set(tokenId, title); // Use enhanced title with outcome
-    }
-    
-    console.log(`[MarketMetadata] Fetched ${markets.size} new Polymarket titles`);
+    // Once the oracle has settled, outcome prices are the payouts; the first outcome is yes
+    const payouts = market.closed && market.umaResolutionStatus === 'resolved' ? prices : null;
+    const resolved = payouts !== null;
+    const yesPayout = payouts ? parseFloat(payouts[0]) : null;
+    const tokenPayout = payouts && tokenIds ? parseFloat(payouts[tokenIds.indexOf(tokenId)]) : NaN;
+
+    results.set(tokenId, {
+      title: market.question,
+      subtitle: market.groupItemTitle && market.groupItemTitle !== '0' ? market.groupItemTitle : null,
+      category: market.category ?? null,
+      eventTicker: event?.slug ?? null,
+      eventTitle: event?.title ?? null,
+      outcome: market.outcomeForToken || null,
+      status: resolved ? 'resolved' : market.closed || !market.active ? 'closed' : 'open',
+      endDate: market.endDate ? new Date(market.endDate) : null,
+      result: yesPayout !== null ? toResult(yesPayout) : null,
+      settlementPrice: !isNaN(tokenPayout) ? tokenPayout.toFixed(4) : null,
+      resolvedAt: resolved && market.closedTime ? new Date(market.closedTime) : null,
+      conditionId: market.conditionId || null,
+      tokenIds,
+      outcomes,
+    });
   }
 
   return results;
@@ -205,15 +159,15 @@ export async function getMarketDisplayName(
   marketId: string
 ): Promise<string> {
   if (exchange === 'kalshi') {
-    const title = await getKalshiMarketTitle(marketId);
-    return title || marketId;
+    const titles = await getKalshiMarketTitles([marketId]);
+    return titles.get(marketId) || marketId;
   }
-  
+
   if (exchange === 'polymarket') {
-    const title = await getPolymarketMarketTitle(marketId);
-    return title || formatTokenId(marketId);
+    const titles = await getPolymarketMarketTitles([marketId]);
+    return titles.get(marketId) || formatTokenId(marketId);
   }
-  
+
   return marketId;
 }
 
@@ -226,20 +180,3 @@ function formatTokenId(tokenId: string): string {
   }
   return tokenId;
 }
-
-/**
- * Clear the metadata cache (useful for testing)
- */
-export function clearMetadataCache(): void {
-  metadataCache.clear();
-}
-
-/**
- * Get cache stats
- */
-export function getMetadataCacheStats(): { size: number; entries: string[] } {
-  return {
-    size: metadataCache.size,
-    entries: Array.from(metadataCache.keys()),
-  };
-}
@@ -0,0 +1,194 @@
+import db from '../db/client';
+import { MarketKey, MarketSnapshot, MarketSummary, MarketWindowStats } from '../types';
+
+/**
+ * Market Stats Service
+ * Price and volume summaries computed from the candles and trades tables
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Last price and trailing 24h stats for many markets in one query
+ * lastTradeAt is the exact time of the newest trade. Markets without any candles are returned with null prices and zero volume
+ */
+export async function getMarketSnapshots(markets: MarketKey[], now: Date = new Date()): Promise<MarketSnapshot[]> {
+  if (markets.length === 0) return [];
+
+  const result = await db.query(
+    `
+      SELECT m.exchange, m.market_id,
+             latest.close as last_price, last_trade.timestamp as last_trade_at,
+             prior.close as price_24h_ago,
+             recent.high, recent.low, recent.volume, recent.first_open
+      FROM unnest($1::varchar[], $2::varchar[]) AS m(exchange, market_id)
+      LEFT JOIN LATERAL (
+        SELECT close FROM candles c
+        WHERE c.exchange = m.exchange AND c.market_id = m.market_id AND c.interval = '1m'
+        ORDER BY open_time DESC LIMIT 1
+      ) latest ON true
+      LEFT JOIN LATERAL (
+        SELECT MAX(timestamp) as timestamp FROM trades t
+        WHERE t.exchange = m.exchange AND t.market_id = m.market_id
+      ) last_trade ON true
+      LEFT JOIN LATERAL (
+        SELECT close FROM candles c
+        WHERE c.exchange = m.exchange AND c.market_id = m.market_id AND c.interval = '1m'
+          AND c.open_time < $3
+        ORDER BY open_time DESC LIMIT 1
+      ) prior ON true
+      LEFT JOIN LATERAL (
+        SELECT MAX(high) as high, MIN(low) as low, SUM(volume) as volume,
+               (ARRAY_AGG(open ORDER BY open_time ASC))[1] as first_open
+        FROM candles c
+        WHERE c.exchange = m.exchange AND c.market_id = m.market_id AND c.interval = '1m'
+          AND c.open_time >= $3
+      ) recent ON true
+    `,
+    [markets.map((m) => m.exchange), markets.map((m) => m.marketId), new Date(now.getTime() - DAY_MS)]
+  );
+
+  return result.rows.map((row) => {
+    const lastPrice = row.last_price !== null ? parseFloat(row.last_price) : null;
+    // Markets that started trading within the window are compared to their first trade
+    const basePrice = row.price_24h_ago ?? row.first_open;
+    const base = basePrice !== null ? parseFloat(basePrice) : null;
+    const change = lastPrice !== null && base !== null ? lastPrice - base : null;
+
+    return {
+      exchange: row.exchange,
+      marketId: row.market_id,
+      lastPrice: row.last_price?.toString() ?? null,
+      lastTradeAt: row.last_trade_at,
+      change24h: change !== null ? change.toFixed(4) : null,
+      changePercent24h: change !== null && base ? Math.round((change / base) * 10000) / 100 : null,
+      volume24h: row.volume?.toString() ?? '0',
+      high24h: row.high?.toString() ?? null,
+      low24h: row.low?.toString() ?? null,
+    };
+  });
+}
+
+const WINDOW_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: DAY_MS,
+};
+
+// Longest window a summary may cover
+const MAX_WINDOW_MS = 90 * DAY_MS;
+
+/**
+ * Parse a window label such as '15m', '24h' or '7d' into milliseconds
+ * Returns null for malformed labels and windows longer than 90 days
+ */
+export function parseWindow(label: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(label);
+  if (!match) return null;
+
+  const ms = parseInt(match[1], 10) * WINDOW_UNITS_MS[match[2]];
+  return ms > 0 && ms <= MAX_WINDOW_MS ? ms : null;
+}
+
+/**
+ * Price, volume and trade stats for a market over each trailing window
+ * Computed from the trades table so VWAP and trade sizes are exact
+ */
+export async function getMarketSummary(
+  exchange: string,
+  marketId: string,
+  windows: string[],
+  now: Date = new Date()
+): Promise<MarketSummary> {
+  const latestResult = await db.query(
+    `
+      SELECT price, timestamp FROM trades
+      WHERE exchange = $1 AND market_id = $2
+      ORDER BY timestamp DESC, id DESC
+      LIMIT 1
+    `,
+    [exchange, marketId]
+  );
+  const latest = latestResult.rows[0];
+
+  const windowStarts = windows.map((label) => new Date(now.getTime() - parseWindow(label)!));
+
+  // One row per window; the lateral joins reuse the (exchange, market_id, timestamp) index
+  const result = await db.query(
+    `
+      SELECT w.label, prior.price as prior_price, stats.*,
+             largest.id as largest_id, largest.price as largest_price, largest.quantity as largest_quantity,
+             largest.side as largest_side, largest.timestamp as largest_timestamp
+      FROM unnest($3::varchar[], $4::timestamptz[]) AS w(label, since)
+      LEFT JOIN LATERAL (
+        SELECT price FROM trades t
+        WHERE t.exchange = $1 AND t.market_id = $2 AND t.timestamp < w.since
+        ORDER BY timestamp DESC, id DESC LIMIT 1
+      ) prior ON true
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*) as trade_count,
+               SUM(quantity) as volume,
+               SUM(quantity) FILTER (WHERE side = 'buy') as buy_volume,
+               SUM(quantity) FILTER (WHERE side = 'sell') as sell_volume,
+               SUM(price * quantity) / NULLIF(SUM(quantity), 0) as vwap,
+               AVG(quantity) as avg_trade_size,
+               MAX(price) as high,
+               MIN(price) as low,
+               (ARRAY_AGG(price ORDER BY timestamp ASC, id ASC))[1] as first_price
+        FROM trades t
+        WHERE t.exchange = $1 AND t.market_id = $2 AND t.timestamp >= w.since
+      ) stats ON true
+      LEFT JOIN LATERAL (
+        SELECT id, price, quantity, side, timestamp FROM trades t
+        WHERE t.exchange = $1 AND t.market_id = $2 AND t.timestamp >= w.since
+        ORDER BY quantity DESC, timestamp DESC LIMIT 1
+      ) largest ON true
+    `,
+    [exchange, marketId, windows, windowStarts]
+  );
+
+  const lastPrice = latest ? parseFloat(latest.price) : null;
+  const statsByWindow = new Map(
+    result.rows.map((row): [string, MarketWindowStats] => {
+      const openPrice = row.prior_price ?? row.first_price;
+      const base = openPrice !== null ? parseFloat(openPrice) : null;
+      const change = lastPrice !== null && base !== null ? lastPrice - base : null;
+
+      return [
+        row.label,
+        {
+          window: row.label,
+          openPrice: openPrice?.toString() ?? null,
+          priceChange: change !== null ? change.toFixed(4) : null,
+          priceChangePercent: change !== null && base ? Math.round((change / base) * 10000) / 100 : null,
+          vwap: row.vwap !== null ? parseFloat(row.vwap).toFixed(4) : null,
+          high: row.high?.toString() ?? null,
+          low: row.low?.toString() ?? null,
+          volume: row.volume?.toString() ?? '0',
+          buyVolume: row.buy_volume?.toString() ?? '0',
+          sellVolume: row.sell_volume?.toString() ?? '0',
+          tradeCount: parseInt(row.trade_count, 10),
+          avgTradeSize: row.avg_trade_size !== null ? parseFloat(row.avg_trade_size).toFixed(4) : null,
+          largestTrade: row.largest_id !== null
+            ? {
+                id: row.largest_id,
+                price: row.largest_price.toString(),
+                quantity: row.largest_quantity.toString(),
+                side: row.largest_side,
+                timestamp: row.largest_timestamp,
+              }
+            : null,
+        },
+      ];
+    })
+  );
+
+  return {
+    exchange,
+    marketId,
+    lastPrice: latest?.price.toString() ?? null,
+    lastTradeAt: latest?.timestamp ?? null,
+    // Keep the order the windows were requested in
+    windows: windows.map((label) => statsByWindow.get(label)!),
+  };
+}
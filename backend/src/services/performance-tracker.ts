@@ -1,10 +1,12 @@
+import { Exchange } from '../types';
+
 /**
  * Performance Tracker Service
  * Tracks indexing performance, latency, and throughput metrics
  */
 
 interface TradeMetric {
-  exchange: 'kalshi' | 'polymarket';
+  exchange: Exchange;
   timestamp: number; // When the trade occurred (source timestamp)
   indexedAt: number; // When we indexed it
   latencyMs: number; // Difference
@@ -28,13 +30,45 @@ interface ExchangeStats {
   lastIndexedAt: string | null;
 }
 
+interface ChainSyncStats {
+  headBlock: number | null;
+  checkpointBlock: number | null;
+  blocksBehind: number | null;
+  backfilling: boolean;
+  updatedAt: string | null;
+}
+
+interface IngestionStats {
+  queueDepth: number;
+  peakQueueDepth: number;
+  batchesFlushed: number;
+  tradesFlushed: number;
+  failedFlushes: number;
+  backpressureWaits: number;
+  lastFlushSize: number;
+  avgFlushLatencyMs: number;
+  flushLatencyPercentiles: LatencyPercentiles;
+  lastFlushAt: string | null;
+}
+
+interface ExchangeQuickStats {
+  tps: number;
+  avgLatencyMs: number;
+  p50: number;
+  p95: number;
+}
+
+interface ExchangeCounters {
+  totalTrades: number;
+  latencies: number[];
+  lastTradeTimestamp: number | null;
+  lastIndexedTimestamp: number | null;
+}
+
 interface PerformanceStats {
   uptime: number;
   startedAt: string;
-  exchanges: {
-    kalshi: ExchangeStats;
-    polymarket: ExchangeStats;
-  };
+  exchanges: Record<Exchange, ExchangeStats>;
   totals: {
     totalTrades: number;
     tradesLast60s: number;
@@ -47,6 +81,10 @@ interface PerformanceStats {
     oldestTrade: string | null;
     newestTrade: string | null;
   };
+  sync: {
+    polymarket: ChainSyncStats;
+  };
+  ingestion: IngestionStats;
 }
 
 /**
@@ -82,14 +120,28 @@ class PerformanceTracker {
   private readonly WINDOW_SIZE_MS = 60000; // 60 seconds rolling window
   private readonly MAX_RECENT_TRADES = 10000; // Keep last 10k for calculations
 
-  private exchangeStats: Record<'kalshi' | 'polymarket', {
-    totalTrades: number;
-    latencies: number[];
-    lastTradeTimestamp: number | null;
-    lastIndexedTimestamp: number | null;
-  }> = {
-    kalshi: { totalTrades: 0, latencies: [], lastTradeTimestamp: null, lastIndexedTimestamp: null },
-    polymarket: { totalTrades: 0, latencies: [], lastTradeTimestamp: null, lastIndexedTimestamp: null },
+  // Created on first use, so any registered exchange can be tracked
+  private exchangeStats = new Map<Exchange, ExchangeCounters>();
+
+  // On-chain sync progress for the Polymarket indexer
+  private polymarketSync: {
+    headBlock: bigint | null;
+    checkpointBlock: bigint | null;
+    backfilling: boolean;
+    updatedAt: number | null;
+  } = { headBlock: null, checkpointBlock: null, backfilling: false, updatedAt: null };
+
+  // Batched ingestion queue metrics
+  private ingestion = {
+    queueDepth: 0,
+    peakQueueDepth: 0,
+    batchesFlushed: 0,
+    tradesFlushed: 0,
+    failedFlushes: 0,
+    backpressureWaits: 0,
+    lastFlushSize: 0,
+    flushLatencies: [] as number[],
+    lastFlushAt: null as number | null,
   };
 
   /**
@@ -99,7 +151,7 @@ class PerformanceTracker {
    * @param indexedAt - When we indexed it (defaults to now)
    */
   recordTrade(
-    exchange: 'kalshi' | 'polymarket',
+    exchange: Exchange,
     tradeTimestamp: Date,
     indexedAt: Date = new Date()
   ): void {
@@ -123,7 +175,7 @@ class PerformanceTracker {
     }
 
     // Update exchange stats
-    const stats = this.exchangeStats[exchange];
+    const stats = this.getCounters(exchange);
     stats.totalTrades++;
     stats.latencies.push(latencyMs);
     stats.lastTradeTimestamp = tradeTs;
@@ -135,6 +187,88 @@ class PerformanceTracker {
     }
   }
 
+  /**
+   * Record how far the Polymarket indexer has progressed through the chain
+   * @param progress - Any of the latest head block, last fully processed block, and backfill state
+   */
+  recordChainProgress(progress: {
+    headBlock?: bigint;
+    checkpointBlock?: bigint;
+    backfilling?: boolean;
+  }): void {
+    const sync = this.polymarketSync;
+    if (progress.headBlock !== undefined) sync.headBlock = progress.headBlock;
+    if (progress.checkpointBlock !== undefined) sync.checkpointBlock = progress.checkpointBlock;
+    if (progress.backfilling !== undefined) sync.backfilling = progress.backfilling;
+    sync.updatedAt = Date.now();
+  }
+
+  /**
+   * Record the current depth of the ingestion queue
+   */
+  recordQueueDepth(depth: number): void {
+    this.ingestion.queueDepth = depth;
+    this.ingestion.peakQueueDepth = Math.max(this.ingestion.peakQueueDepth, depth);
+  }
+
+  /**
+   * Record a flushed ingestion batch
+   * @param size - Number of trades in the batch
+   * @param latencyMs - Time taken to write the batch and its candles
+   */
+  recordFlush(size: number, latencyMs: number): void {
+    const stats = this.ingestion;
+    stats.batchesFlushed++;
+    stats.tradesFlushed += size;
+    stats.lastFlushSize = size;
+    stats.lastFlushAt = Date.now();
+    stats.flushLatencies.push(latencyMs);
+
+    // Keep only recent latencies for calculation
+    if (stats.flushLatencies.length > 1000) {
+      stats.flushLatencies = stats.flushLatencies.slice(-1000);
+    }
+  }
+
+  recordFlushFailure(): void {
+    this.ingestion.failedFlushes++;
+  }
+
+  recordBackpressureWait(): void {
+    this.ingestion.backpressureWaits++;
+  }
+
+  private getIngestionStats(): IngestionStats {
+    const { flushLatencies, lastFlushAt, ...counters } = this.ingestion;
+
+    return {
+      ...counters,
+      avgFlushLatencyMs: flushLatencies.length > 0
+        ? Math.round(flushLatencies.reduce((a, b) => a + b, 0) / flushLatencies.length)
+        : 0,
+      flushLatencyPercentiles: calculateLatencyPercentiles(flushLatencies),
+      lastFlushAt: lastFlushAt ? new Date(lastFlushAt).toISOString() : null,
+    };
+  }
+
+  /**
+   * Calculate how far behind the chain head the Polymarket indexer is
+   */
+  private getChainSyncStats(): ChainSyncStats {
+    const { headBlock, checkpointBlock, backfilling, updatedAt } = this.polymarketSync;
+    const blocksBehind = headBlock !== null && checkpointBlock !== null
+      ? Number(headBlock > checkpointBlock ? headBlock - checkpointBlock : 0n)
+      : null;
+
+    return {
+      headBlock: headBlock !== null ? Number(headBlock) : null,
+      checkpointBlock: checkpointBlock !== null ? Number(checkpointBlock) : null,
+      blocksBehind,
+      backfilling,
+      updatedAt: updatedAt ? new Date(updatedAt).toISOString() : null,
+    };
+  }
+
   /**
    * Get trades in the last N milliseconds
    */
@@ -143,11 +277,20 @@ class PerformanceTracker {
     return this.recentTrades.filter((t) => t.indexedAt >= cutoff);
   }
 
+  private getCounters(exchange: Exchange): ExchangeCounters {
+    let counters = this.exchangeStats.get(exchange);
+    if (!counters) {
+      counters = { totalTrades: 0, latencies: [], lastTradeTimestamp: null, lastIndexedTimestamp: null };
+      this.exchangeStats.set(exchange, counters);
+    }
+    return counters;
+  }
+
   /**
    * Calculate exchange-specific stats
    */
-  private getExchangeStats(exchange: 'kalshi' | 'polymarket'): ExchangeStats {
-    const stats = this.exchangeStats[exchange];
+  private getExchangeStats(exchange: Exchange): ExchangeStats {
+    const stats = this.getCounters(exchange);
     const recentTrades = this.getTradesInWindow().filter((t) => t.exchange === exchange);
     const latencies = stats.latencies;
 
@@ -172,13 +315,11 @@ class PerformanceTracker {
 
   /**
    * Get comprehensive performance stats
+   * @param exchanges - Exchanges to report, normally every registered one
    */
-  async getStats(): Promise<PerformanceStats> {
+  async getStats(exchanges: Exchange[]): Promise<PerformanceStats> {
     const recentTrades = this.getTradesInWindow();
-    const allLatencies = [
-      ...this.exchangeStats.kalshi.latencies,
-      ...this.exchangeStats.polymarket.latencies,
-    ];
+    const allLatencies = exchanges.flatMap((exchange) => this.getCounters(exchange).latencies);
 
     // Get database counts
     const db = (await import('../db/client')).default;
@@ -209,18 +350,19 @@ class PerformanceTracker {
       console.error('[PerformanceTracker] Error fetching DB stats:', error);
     }
 
-    const kalshiStats = this.getExchangeStats('kalshi');
-    const polymarketStats = this.getExchangeStats('polymarket');
+    const exchangeStats: Record<Exchange, ExchangeStats> = {};
+    let totalTrades = 0;
+    for (const exchange of exchanges) {
+      exchangeStats[exchange] = this.getExchangeStats(exchange);
+      totalTrades += exchangeStats[exchange].totalTrades;
+    }
 
     return {
       uptime: Math.round((Date.now() - this.startTime) / 1000),
       startedAt: new Date(this.startTime).toISOString(),
-      exchanges: {
-        kalshi: kalshiStats,
-        polymarket: polymarketStats,
-      },
+      exchanges: exchangeStats,
       totals: {
-        totalTrades: kalshiStats.totalTrades + polymarketStats.totalTrades,
+        totalTrades,
         tradesLast60s: recentTrades.length,
         tradesPerSecond: Math.round((recentTrades.length / 60) * 100) / 100,
         avgLatencyMs: allLatencies.length > 0
@@ -228,32 +370,43 @@ class PerformanceTracker {
           : 0,
       },
       database: dbStats,
+      sync: {
+        polymarket: this.getChainSyncStats(),
+      },
+      ingestion: this.getIngestionStats(),
     };
   }
 
   /**
    * Get a quick summary for the frontend header
+   * @param exchanges - Exchanges to report, normally every registered one
    */
-  getQuickStats(): {
+  getQuickStats(exchanges: Exchange[]): {
     tradesPerSecond: number;
     avgLatencyMs: number;
     latencyPercentiles: LatencyPercentiles;
     uptimeSeconds: number;
-    exchanges: {
-      kalshi: { tps: number; avgLatencyMs: number; p50: number; p95: number };
-      polymarket: { tps: number; avgLatencyMs: number; p50: number; p95: number };
-    };
+    exchanges: Record<Exchange, ExchangeQuickStats>;
   } {
     const recentTrades = this.getTradesInWindow();
-    const kalshiTrades = recentTrades.filter((t) => t.exchange === 'kalshi');
-    const polymarketTrades = recentTrades.filter((t) => t.exchange === 'polymarket');
-    
-    const kalshiLatencies = this.exchangeStats.kalshi.latencies.slice(-100);
-    const polymarketLatencies = this.exchangeStats.polymarket.latencies.slice(-100);
-    const allLatencies = [...kalshiLatencies, ...polymarketLatencies];
+    const exchangeQuickStats: Record<Exchange, ExchangeQuickStats> = {};
+    const allLatencies: number[] = [];
 
-    const kalshiPercentiles = calculateLatencyPercentiles(kalshiLatencies);
-    const polymarketPercentiles = calculateLatencyPercentiles(polymarketLatencies);
+    for (const exchange of exchanges) {
+      const exchangeTrades = recentTrades.filter((t) => t.exchange === exchange);
+      const latencies = this.getCounters(exchange).latencies.slice(-100);
+      const percentiles = calculateLatencyPercentiles(latencies);
+      allLatencies.push(...latencies);
+
+      exchangeQuickStats[exchange] = {
+        tps: Math.round((exchangeTrades.length / 60) * 100) / 100,
+        avgLatencyMs: latencies.length > 0
+          ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
+          : 0,
+        p50: percentiles.p50,
+        p95: percentiles.p95,
+      };
+    }
 
     return {
       tradesPerSecond: Math.round((recentTrades.length / 60) * 100) / 100,
@@ -262,27 +415,9 @@ class PerformanceTracker {
         : 0,
       latencyPercentiles: calculateLatencyPercentiles(allLatencies),
       uptimeSeconds: Math.round((Date.now() - this.startTime) / 1000),
-      exchanges: {
-        kalshi: {
-          tps: Math.round((kalshiTrades.length / 60) * 100) / 100,
-          avgLatencyMs: kalshiLatencies.length > 0
-            ? Math.round(kalshiLatencies.reduce((a, b) => a + b, 0) / kalshiLatencies.length)
-            : 0,
-          p50: kalshiPercentiles.p50,
-          p95: kalshiPercentiles.p95,
-        },
-        polymarket: {
-          tps: Math.round((polymarketTrades.length / 60) * 100) / 100,
-          avgLatencyMs: polymarketLatencies.length > 0
-            ? Math.round(polymarketLatencies.reduce((a, b) => a + b, 0) / polymarketLatencies.length)
-            : 0,
-          p50: polymarketPercentiles.p50,
-          p95: polymarketPercentiles.p95,
-        },
-      },
+      exchanges: exchangeQuickStats,
     };
   }
 }
 
 export const performanceTracker = new PerformanceTracker();
-
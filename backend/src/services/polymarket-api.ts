@@ -1,3 +1,5 @@
+import { Outcome } from '../types';
+
 /**
  * Polymarket Gamma API Client
  * Fetches market metadata using CLOB token IDs
@@ -19,8 +21,12 @@ export interface PolymarketMarket {
   image?: string;
   icon?: string;
   endDate?: string;
+  closedTime?: string;
+  umaResolutionStatus?: string; // 'resolved' once the UMA oracle has settled the question
   groupItemTitle?: string; // For markets with thresholds, e.g., "↑ 250,000"
   groupItemThreshold?: string; // Numeric threshold value
+  category?: string;
+  events?: { id: string; slug: string; title: string }[]; // Gamma event(s) the market belongs to
 }
 
 export interface PolymarketMarketWithOutcome extends PolymarketMarket {
@@ -205,6 +211,35 @@ export async function getPolymarketMarketId(clobTokenId: string): Promise<string
   return market?.id || null;
 }
 
+/**
+ * Get whether a CLOB token is its market's yes or no outcome
+ * The first listed outcome (Yes, Up, ...) is yes; returns null if unknown
+ */
+export async function getPolymarketTokenOutcome(clobTokenId: string): Promise<Outcome | null> {
+  const market = await fetchPolymarketByTokenId(clobTokenId);
+  if (!market) return null;
+
+  try {
+    const tokenIds = JSON.parse(market.clobTokenIds) as string[];
+    const index = tokenIds.indexOf(clobTokenId);
+    if (index === 0) return 'yes';
+    if (index === 1) return 'no';
+  } catch {
+    // Ignore parsing errors
+  }
+  return null;
+}
+
+/**
+ * Drop cached tokens, e.g. of markets that have closed or resolved
+ */
+export function forgetPolymarketTokens(clobTokenIds: string[]): void {
+  for (const tokenId of clobTokenIds) {
+    marketCache.delete(tokenId);
+    cacheTimestamps.delete(tokenId);
+  }
+}
+
 /**
  * Clear cache (for testing)
  */
@@ -0,0 +1,40 @@
+import db from '../db/client';
+import { Trade } from '../types';
+
+/**
+ * A market's latest trades, newest first
+ */
+export async function getRecentTrades(exchange: string, marketId: string, limit: number): Promise<Trade[]> {
+  const result = await db.query(
+    `
+      SELECT id, exchange, market_id, price, quantity, side, timestamp, outcome, taker_side, yes_price, no_price,
+        tx_hash, maker, taker, fee, block_number, block_hash, finalized
+      FROM trades
+      WHERE exchange = $1 AND market_id = $2
+      ORDER BY timestamp DESC, id DESC
+      LIMIT $3
+    `,
+    [exchange, marketId, limit]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    exchange: row.exchange,
+    marketId: row.market_id,
+    price: row.price.toString(),
+    quantity: row.quantity.toString(),
+    side: row.side,
+    timestamp: row.timestamp,
+    outcome: row.outcome ?? undefined,
+    takerSide: row.taker_side ?? undefined,
+    yesPrice: row.yes_price?.toString(),
+    noPrice: row.no_price?.toString(),
+    txHash: row.tx_hash ?? undefined,
+    maker: row.maker ?? undefined,
+    taker: row.taker ?? undefined,
+    fee: row.fee?.toString(),
+    blockNumber: row.block_number !== null ? Number(row.block_number) : undefined,
+    blockHash: row.block_hash ?? undefined,
+    finalized: row.finalized,
+  }));
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPrivateAddress, validateWebhookUrl } from './webhook-targets';
+
+test('loopback, private and link-local addresses are private', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test('webhooks on public hosts are accepted', () => {
+  assert.equal(validateWebhookUrl('https://hooks.example.com/alerts'), null);
+  assert.equal(validateWebhookUrl('http://93.184.216.34:8080/hook'), null);
+});
+
+test('webhooks on internal hosts are rejected, however the address is written', () => {
+  for (const url of [
+    'http://localhost:3001/admin',
+    'http://api.localhost/',
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://[::1]:8080/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://169.254.169.254/latest/meta-data',
+    'https://10.0.0.5/hook',
+  ]) {
+    assert.notEqual(validateWebhookUrl(url), null, url);
+  }
+});
+
+test('webhooks must be http(s) URLs', () => {
+  assert.notEqual(validateWebhookUrl('ftp://example.com/'), null);
+  assert.notEqual(validateWebhookUrl('not a url'), null);
+});
@@ -0,0 +1,96 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Webhook Targets
+ * Alert rules may name their own webhook, so the server must not be made to
+ * POST to itself or its network: URLs naming loopback, private or link-local
+ * hosts are refused when a rule is saved, and hosts resolving to one are
+ * refused again before each delivery.
+ */
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map((part) => parseInt(part, 10));
+  return (
+    a === 0 ||                            // "this" network
+    a === 10 ||                           // private
+    a === 127 ||                          // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) ||           // link-local, incl. cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||  // private
+    (a === 192 && b === 168) ||           // private
+    a >= 224                              // multicast and reserved
+  );
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const lower = address.toLowerCase();
+  if (lower === '::' || lower === '::1') return true;
+
+  // IPv4-mapped, as ::ffff:127.0.0.1 or ::ffff:7f00:1
+  const mapped = lower.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    if (net.isIPv4(mapped[1])) return isPrivateIPv4(mapped[1]);
+    const [high, low] = mapped[1].split(':').map((group) => parseInt(group, 16));
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'));
+  }
+
+  const first = parseInt(lower.split(':')[0] || '0', 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00    // multicast
+  );
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isPrivateIPv4(address);
+  if (net.isIPv6(address)) return isPrivateIPv6(address);
+  return false;
+}
+
+// URL hostnames keep the brackets around IPv6 addresses
+function getHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Check a webhook URL a client submitted; returns an error message, or null if it may be used
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'Invalid webhookUrl. Must be an http(s) URL';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Invalid webhookUrl. Must be an http(s) URL';
+  }
+
+  const host = getHost(url).toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return 'Invalid webhookUrl. Loopback, private and link-local hosts are not allowed';
+  }
+  return null;
+}
+
+/**
+ * Check a webhook before calling it, resolving its host so a public name
+ * pointed at an internal service is refused too
+ * Returns why it is refused, or null; rejects if the host can't be resolved.
+ */
+export async function checkWebhookHost(value: string): Promise<string | null> {
+  const error = validateWebhookUrl(value);
+  if (error) return error;
+
+  const host = getHost(new URL(value));
+  if (net.isIP(host)) return null;
+
+  const addresses = await dns.lookup(host, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  return blocked ? `Webhook host ${host} resolves to a non-public address (${blocked.address})` : null;
+}
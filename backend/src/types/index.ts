@@ -1,8 +1,20 @@
 // Core type definitions for the trade indexer
 
-export type Exchange = 'polymarket' | 'kalshi';
+// Id of a registered exchange adapter, e.g. 'kalshi' or 'polymarket'
+export type Exchange = string;
 export type Side = 'buy' | 'sell';
-export type Interval = '1s' | '1m' | '1h';
+// Which outcome contract changed hands. Polymarket's first listed outcome
+// (Yes, Up, ...) is treated as yes and the second as no
+export type Outcome = 'yes' | 'no';
+// Where a market is in its lifecycle: trading, no longer trading, or settled
+export type MarketStatus = 'open' | 'closed' | 'resolved';
+// Intervals written to the candles table by the CandleAggregator
+export type StoredInterval = '1s' | '1m' | '1h';
+// Intervals rolled up on demand from a stored base interval
+export type DerivedInterval = '5m' | '15m' | '4h' | '1d' | '1w';
+export type Interval = StoredInterval | DerivedInterval;
+// Whether a cursor requests the page after or before its position
+export type PageDirection = 'next' | 'prev';
 
 export interface Trade {
   id?: number;
@@ -12,7 +24,19 @@ export interface Trade {
   quantity: string;
   side: Side;
   timestamp: Date;
+  outcome?: Outcome;    // Outcome contract the taker traded, when known
+  takerSide?: Side;     // Whether the taker bought or sold that outcome
+  yesPrice?: string;    // Price of the yes outcome, 0-1
+  noPrice?: string;     // Price of the no outcome, 0-1
   txHash?: string;      // Only for on-chain trades (Polymarket)
+  logIndex?: number;    // Position of the fill within its transaction (on-chain only)
+  orderHash?: string;   // Exchange order that was filled (on-chain only)
+  maker?: string;       // Maker address (on-chain only)
+  taker?: string;       // Taker address (on-chain only)
+  fee?: string;         // Fee charged on the fill (on-chain only)
+  blockNumber?: number; // Only for on-chain trades
+  blockHash?: string;   // Only for on-chain trades, used to detect reorgs
+  finalized?: boolean;  // False until an on-chain trade has enough confirmations
   createdAt?: Date;
 }
 
@@ -29,6 +53,210 @@ export interface Candle {
   volume: string;
 }
 
+// A market on a specific exchange, as used by batch endpoints
+export interface MarketKey {
+  exchange: Exchange;
+  marketId: string;
+}
+
+// A market's stored candles recomputed from its trades, over [start, end] or all of them if null
+export interface CandleRebuild extends MarketKey {
+  start: Date | null;
+  end: Date | null;
+}
+
+// Descriptive metadata for a market, as stored in the market catalog
+export interface MarketDetails {
+  title: string;
+  subtitle?: string | null;
+  category?: string | null;
+  eventTicker?: string | null;  // Kalshi event ticker, or the Polymarket event slug
+  eventTitle?: string | null;
+  outcome?: string | null;      // Outcome a single-outcome market trades, e.g. a Polymarket token's "Up"
+  status?: MarketStatus | null;
+  endDate?: Date | null;        // When trading closes
+  result?: Outcome | null;      // Winning side once resolved, null for split or scalar payouts
+  settlementPrice?: string | null; // Final value of the market's contract, 0-1, in the terms of its trade prices
+  resolvedAt?: Date | null;
+  conditionId?: string | null;  // Polymarket CTF condition shared by a question's tokens
+  tokenIds?: string[] | null;   // Polymarket: every outcome token of the question, in outcome order
+  outcomes?: string[] | null;   // Outcome names matching tokenIds, e.g. ['Yes', 'No']
+}
+
+// One outcome token of a market; the first listed outcome is yes
+export interface MarketOutcome {
+  marketId: string;
+  name: string | null;
+  outcome: Outcome | null;
+}
+
+// Lifecycle of a market as exposed by the API
+export interface MarketLifecycle {
+  status: MarketStatus | null;  // null until the market's metadata has been fetched
+  closeTime: Date | null;
+  result: Outcome | null;
+  settlementPrice: string | null;
+  resolvedAt: Date | null;
+}
+
+// A recorded change of a market's status or resolution
+export interface MarketStatusChange {
+  status: MarketStatus | null;
+  result: Outcome | null;
+  settlementPrice: string | null;
+  changedAt: Date;
+}
+
+// Whether a cross-exchange link was curated by hand or accepted from a title-similarity suggestion
+export type MarketLinkSource = 'manual' | 'suggested';
+
+// Two markets on different exchanges that settle on the same event, oriented
+// so exchange/marketId is the market the link was looked up from
+export interface MarketLink extends MarketKey {
+  id: number;
+  linkedExchange: Exchange;
+  linkedMarketId: string;
+  inverted: boolean;            // The legs pay out on opposite outcomes
+  source: MarketLinkSource;
+  createdAt: Date;
+}
+
+// A catalog market whose title resembles another market's
+export interface MarketLinkSuggestion extends MarketKey {
+  title: string;
+  subtitle: string | null;
+  outcome: string | null;
+  status: MarketStatus | null;
+  similarity: number;           // Trigram similarity of the titles, 0-1
+}
+
+export type ComparisonCandle = Pick<Candle, 'open' | 'high' | 'low' | 'close' | 'volume'>;
+
+// One bucket of two linked markets' candles and the gap between their prices
+export interface ComparisonPoint {
+  openTime: Date;
+  a: ComparisonCandle | null;   // null when the leg has no candle in the bucket
+  b: ComparisonCandle | null;
+  spread: string | null;        // Last close of a minus last close of b, once both have traded
+}
+
+// Condition an alert rule watches a market's live trades for
+export type AlertRuleType = 'price_cross' | 'price_change' | 'trade_size' | 'volume_spike';
+// price_cross: 'above' | 'below' the level; price_change: 'up' | 'down' | 'any'
+export type AlertDirection = 'above' | 'below' | 'up' | 'down' | 'any';
+export type WebhookStatus = 'pending' | 'delivered' | 'failed';
+
+export interface AlertRule extends MarketKey {
+  id: number;
+  type: AlertRuleType;
+  direction: AlertDirection | null;
+  threshold: string;            // Price level, percent move, trade size, or multiple of baseline volume
+  windowMinutes: number | null; // price_change and volume_spike: how far back to look
+  baselineMinutes: number | null; // volume_spike: period before the window that sets normal volume
+  cooldownSeconds: number;      // Minimum time between firings
+  webhookUrl: string | null;    // Falls back to ALERT_WEBHOOK_URL
+  enabled: boolean;
+  lastTriggeredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One firing of an alert rule
+export interface AlertEvent extends MarketKey {
+  id: number;
+  ruleId: number;
+  type: AlertRuleType;
+  message: string;
+  value: string;                // Observed value that met the threshold
+  tradeId: number | null;       // Trade that triggered it
+  triggeredAt: Date;
+  webhookStatus: WebhookStatus | null; // null when there is no webhook to deliver to
+  webhookAttempts: number;
+  webhookError: string | null;
+  deliveredAt: Date | null;
+}
+
+// What an API key may do: read data, run exports, manage links and alerts, or
+// administer the server (keys, indexers, jobs)
+export type ApiKeyScope = 'read' | 'export' | 'links' | 'alerts' | 'admin';
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string;            // Leading characters of the key, the rest is only stored hashed
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  maxSubscriptions: number;     // WebSocket subscriptions open at once, across the key's connections
+  dailyQuota: number | null;    // Requests per UTC day, null for no quota
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// An API key's requests on one UTC day
+export interface ApiKeyUsage {
+  day: string;                  // YYYY-MM-DD
+  requests: number;
+  rejected: number;             // Turned away by the rate limit or quota
+}
+
+export type JobType = 'trade_backfill' | 'candle_rebuild';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Background work launched through the admin API
+export interface Job {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  exchange: Exchange;
+  marketId: string | null;      // Every market of the exchange when null
+  start: Date | null;
+  end: Date | null;
+  processed: number;            // Trades ingested or candles rebuilt so far
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+// Last price and trailing 24h stats for a market
+export interface MarketSnapshot {
+  exchange: Exchange;
+  marketId: string;
+  lastPrice: string | null;     // Close of the latest candle, null if the market has no trades
+  lastTradeAt: Date | null;     // Start of the minute of the latest trade
+  change24h: string | null;     // lastPrice minus the price 24h ago
+  changePercent24h: number | null;
+  volume24h: string;
+  high24h: string | null;
+  low24h: string | null;
+}
+
+// Trading activity over a trailing window, e.g. the last 24h
+export interface MarketWindowStats {
+  window: string;               // Window label, e.g. '1h', '24h', '7d'
+  openPrice: string | null;     // Last price before the window, else its first trade
+  priceChange: string | null;   // Last price minus openPrice
+  priceChangePercent: number | null;
+  vwap: string | null;          // Volume-weighted average price of the window's trades
+  high: string | null;
+  low: string | null;
+  volume: string;
+  buyVolume: string;
+  sellVolume: string;
+  tradeCount: number;
+  avgTradeSize: string | null;
+  largestTrade: Pick<Trade, 'id' | 'price' | 'quantity' | 'side' | 'timestamp'> | null;
+}
+
+export interface MarketSummary {
+  exchange: Exchange;
+  marketId: string;
+  lastPrice: string | null;
+  lastTradeAt: Date | null;
+  windows: MarketWindowStats[];
+}
+
 // API request types
 export interface GetCandlesParams {
   exchange: Exchange;
@@ -44,23 +272,84 @@ export interface GetTradesParams {
   marketId: string;
   limit?: number;
   side?: Side;
+  outcome?: Outcome;
 }
 
 // WebSocket message types
 export interface WSSubscribeMessage {
   action: 'subscribe' | 'unsubscribe';
-  exchange: Exchange;
-  marketId: string;
+  exchange?: Exchange;          // '*' for every exchange
+  marketId?: string;            // '*' for every market of the exchange
+  markets?: string[];           // Instead of exchange and marketId: exchange:marketId keys
+  // Trades channel: only send trades that meet every condition
+  filters?: { minQuantity?: number; minNotional?: number; side?: Side; outcome?: Outcome };
+  channel?: 'trades' | 'candles'; // Defaults to 'trades'
+  interval?: Interval;          // Required for the candles channel
+  snapshot?: boolean | number;  // Latest trades (true or how many) or candle first
+  since?: number;               // Replay the market's broadcasts after this sequence number
 }
 
+// Broadcasts carry a sequence number that increases with every broadcast about their market
 export interface WSTradeMessage {
   type: 'trade';
+  seq: number;
+  data: Trade;
+}
+
+export interface WSTradeRemovedMessage {
+  type: 'trade_removed';
+  seq: number;
   data: Trade;
 }
 
+// A live bar of a candles channel subscription; 'close' carries its final state
+export interface WSCandleMessage {
+  type: 'candle';
+  event: 'update' | 'close';
+  seq: number;
+  data: Candle;
+}
+
+// A candles channel subscription's bars were rebuilt, e.g. after trades were
+// rolled back; bars in [start, end] (all of them if null) should be refetched
+export interface WSCandlesRebuiltMessage extends MarketKey {
+  type: 'candles_rebuilt';
+  interval: Interval;
+  seq: number;
+  start: string | null;
+  end: string | null;
+}
+
+export interface WSAlertMessage {
+  type: 'alert';
+  seq: number;
+  data: AlertEvent;
+}
+
+// A subscription's starting state as of seq, sent when requested
+export interface WSSnapshotMessage extends MarketKey {
+  type: 'snapshot';
+  channel: 'trades' | 'candles';
+  interval?: Interval;
+  seq: number;
+  trades?: Trade[];             // trades channel: newest first
+  candle?: Candle | null;       // candles channel: the latest bar
+}
+
+// Sent instead of a replay when the broadcasts after `since` are no longer buffered
+export interface WSResyncRequiredMessage extends MarketKey {
+  type: 'resync_required';
+  channel: 'trades' | 'candles';
+  interval?: Interval;
+  seq: number;
+}
+
 // API response types
 export interface APIResponse<T> {
   data: T;
+  // Opaque cursors for paginated endpoints; null when there is nothing more in that direction
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
 
 export interface APIErrorResponse {
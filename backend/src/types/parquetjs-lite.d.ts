@@ -0,0 +1,26 @@
+// Minimal typings for the parts of parquetjs-lite used by the exporter
+
+declare module 'parquetjs-lite' {
+  import { Writable } from 'stream';
+
+  type ParquetType = 'BOOLEAN' | 'INT32' | 'INT64' | 'FLOAT' | 'DOUBLE' | 'UTF8' | 'TIMESTAMP_MILLIS';
+  type ParquetCompression = 'UNCOMPRESSED' | 'GZIP' | 'SNAPPY';
+
+  interface ParquetField {
+    type: ParquetType;
+    optional?: boolean;
+    compression?: ParquetCompression;
+  }
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, ParquetField>);
+  }
+
+  export class ParquetWriter {
+    // Rows are buffered into row groups; the output stream is ended on close()
+    static openStream(schema: ParquetSchema, outputStream: Writable, opts?: object): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    setRowGroupSize(count: number): void;
+    close(): Promise<void>;
+  }
+}
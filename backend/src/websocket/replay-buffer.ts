@@ -0,0 +1,111 @@
+/**
+ * Replay Buffer
+ * Sequence numbers and recent broadcasts per market, so a reconnecting client
+ * can resume from the last message it saw. Every broadcast about a market takes
+ * the market's next sequence number, whether or not anyone is subscribed.
+ * Messages are only kept for markets that have had a subscriber recently, and
+ * only the latest `size` of them. Sequences of other markets are dropped too;
+ * a market's sequence starts again above every number issued so far, so no
+ * number a client saw before can be mistaken for a newer broadcast.
+ */
+
+// A broadcast as it was sent, with what it can be replayed to
+export interface BufferedMessage {
+  seq: number;
+  subscriptionKey: string;
+  payload: string;
+}
+
+interface MarketBuffer {
+  messages: BufferedMessage[];
+  floor: number;         // Every message after this sequence number is still buffered
+  lastActiveAt: number;  // When the market last had a subscriber
+}
+
+export class ReplayBuffer {
+  // Last sequence number issued per market
+  private sequences = new Map<string, number>();
+  // Highest sequence number issued to any market
+  private highest = 0;
+  private buffers = new Map<string, MarketBuffer>();
+
+  constructor(
+    private readonly size: number,
+    private readonly retentionMs: number
+  ) {}
+
+  /**
+   * Issue the market's next sequence number
+   */
+  next(market: string): number {
+    const seq = (this.sequences.get(market) ?? this.highest) + 1;
+    this.sequences.set(market, seq);
+    this.highest = Math.max(this.highest, seq);
+    return seq;
+  }
+
+  current(market: string): number {
+    return this.sequences.get(market) ?? 0;
+  }
+
+  isBuffering(market: string): boolean {
+    return this.buffers.has(market);
+  }
+
+  /**
+   * Start or keep buffering a market's messages, e.g. when a client subscribes to it
+   */
+  touch(market: string) {
+    const buffer = this.buffers.get(market);
+    if (buffer) {
+      buffer.lastActiveAt = Date.now();
+    } else {
+      if (!this.sequences.has(market)) this.sequences.set(market, this.highest);
+      this.buffers.set(market, { messages: [], floor: this.current(market), lastActiveAt: Date.now() });
+    }
+  }
+
+  push(market: string, message: BufferedMessage) {
+    const buffer = this.buffers.get(market);
+    if (!buffer) return;
+
+    buffer.messages.push(message);
+    if (buffer.messages.length > this.size) {
+      buffer.floor = buffer.messages.shift()!.seq;
+    }
+  }
+
+  /**
+   * Messages of a subscription after a sequence number, oldest first
+   * Returns null if some of them are no longer buffered, or the sequence
+   * number was never issued (e.g. it is from before a server restart)
+   */
+  since(market: string, seq: number, subscriptionKey: string): BufferedMessage[] | null {
+    if (seq > this.current(market)) return null;
+    if (seq === this.current(market)) return [];
+
+    const buffer = this.buffers.get(market);
+    if (!buffer || seq < buffer.floor) return null;
+
+    return buffer.messages.filter((message) => message.seq > seq && message.subscriptionKey === subscriptionKey);
+  }
+
+  /**
+   * Drop the buffers of markets without a subscriber for longer than the retention
+   * period, and the sequences of markets not buffered
+   */
+  sweep(activeMarkets: Set<string>) {
+    const now = Date.now();
+    for (const [market, buffer] of this.buffers) {
+      if (activeMarkets.has(market)) {
+        buffer.lastActiveAt = now;
+      } else if (now - buffer.lastActiveAt > this.retentionMs) {
+        this.buffers.delete(market);
+      }
+    }
+
+    for (const market of this.sequences.keys()) {
+      if (!this.buffers.has(market)) this.sequences.delete(market);
+    }
+  }
+}
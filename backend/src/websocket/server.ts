@@ -1,19 +1,118 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { IncomingMessage, Server } from 'http';
 import { tradeEmitter } from '../events/trade-emitter';
-import { Trade } from '../types';
+import { alertEmitter } from '../events/alert-emitter';
+import { marketEmitter } from '../events/market-emitter';
+import { AlertEvent, ApiKey, Candle, CandleRebuild, Exchange, Interval, MarketKey, Trade } from '../types';
+import { exchangeRegistry } from '../indexers/registry';
+import { parseMarketKeys } from '../api/market-keys';
+import { candleStream } from '../services/candle-stream';
+import { candleAggregator } from '../services/candle-aggregator';
+import { getRecentTrades } from '../services/recent-trades';
+import { accessControl } from '../services/access-control';
+import { getApiKeySecret, getRateLimitHeaders, getRejectionMessage, isPublicPath } from '../api/auth';
+import { ALL_INTERVALS, isInterval } from '../services/intervals';
+import { BufferedMessage, ReplayBuffer } from './replay-buffer';
+import {
+  TradeFilter,
+  TradeSubscriptionIndex,
+  WILDCARD,
+  getFilterKey,
+  getScopeKey,
+  parseTradeFilter,
+} from './subscription-index';
+
+// Broadcasts kept per market for clients resuming with `since`
+const REPLAY_BUFFER_SIZE = parseInt(process.env.WS_REPLAY_BUFFER_SIZE || '1000', 10);
+// How long a market's broadcasts are still kept after its last subscriber leaves
+const REPLAY_RETENTION_MS = parseInt(process.env.WS_REPLAY_RETENTION_MS || '300000', 10);
+const REPLAY_SWEEP_MS = 60 * 1000;
+
+// Trades in a snapshot requested with `snapshot: true`, and the most a client can ask for
+const DEFAULT_SNAPSHOT_TRADES = 50;
+const MAX_SNAPSHOT_TRADES = 500;
+
+// Subscriptions per connection for clients without an API key (keys set their own limit)
+const ANONYMOUS_MAX_SUBSCRIPTIONS = parseInt(process.env.ANON_MAX_SUBSCRIPTIONS || '20', 10);
+
+// 'trades' streams raw trades; 'candles' streams bars of one interval
+type Channel = 'trades' | 'candles';
 
 interface SubscribeMessage {
   action: 'subscribe' | 'unsubscribe';
-  exchange: 'polymarket' | 'kalshi';
+  exchange?: Exchange;  // '*' for every exchange
+  marketId?: string;    // '*' for every market of the exchange
+  markets?: string[];   // Instead of exchange and marketId: `exchange:marketId` keys, e.g. ['kalshi:X', 'polymarket:*']
+  filters?: unknown;    // Trades channel: { minQuantity, minNotional, side, outcome }
+  channel?: Channel;    // Defaults to 'trades'
+  interval?: string;    // Required for the candles channel
+  snapshot?: boolean | number; // Send the latest trades (true or how many) or candle first
+  since?: number;       // Replay the broadcasts after this sequence number first
+}
+
+interface SubscribeOptions {
+  snapshotSize: number; // 0 for no snapshot
+  since?: number;
+}
+
+// What a subscription key refers to; exchange and marketId may be wildcards for trades
+interface SubscriptionTarget {
+  exchange: Exchange;
   marketId: string;
+  channel: Channel;
+  interval?: Interval;
+  filter?: TradeFilter | null;
 }
 
+type CandleData = Omit<Candle, 'id' | 'openTime'> & { openTime: string };
+
+// Broadcasts carry their market's sequence number
 interface TradeMessage {
-  type: 'trade';
+  type: 'trade' | 'trade_removed';
+  seq: number;
   data: Trade;
 }
 
+interface CandleMessage {
+  type: 'candle';
+  event: 'update' | 'close';
+  seq: number;
+  data: CandleData;
+}
+
+// Bars of the subscription were rebuilt; those in [start, end] (all if null) should be refetched
+interface CandlesRebuiltMessage extends MarketKey {
+  type: 'candles_rebuilt';
+  interval: Interval;
+  seq: number;
+  start: string | null;
+  end: string | null;
+}
+
+interface AlertMessage {
+  type: 'alert';
+  seq: number;
+  data: AlertEvent;
+}
+
+// The market's state as of `seq`; broadcasts after it follow
+type SnapshotMessage = {
+  type: 'snapshot';
+  exchange: string;
+  marketId: string;
+  seq: number;
+} & ({ channel: 'trades'; trades: Trade[] } | { channel: 'candles'; interval: Interval; candle: CandleData | null });
+
+// Missed broadcasts can't be replayed; the client should refetch the market's state
+interface ResyncRequiredMessage {
+  type: 'resync_required';
+  exchange: string;
+  marketId: string;
+  channel: Channel;
+  interval?: Interval;
+  seq: number;
+}
+
 interface ErrorMessage {
   type: 'error';
   message: string;
@@ -23,11 +122,63 @@ interface SubscribedMessage {
   type: 'subscribed' | 'unsubscribed';
   exchange: string;
   marketId: string;
+  channel: Channel;
+  interval?: Interval;
+  filters?: TradeFilter;
+  seq?: number;         // Latest sequence number of the market when subscribed, for a single market
 }
 
-// Generate subscription key from exchange and marketId
-function getSubscriptionKey(exchange: string, marketId: string): string {
-  return `${exchange}:${marketId}`;
+// Generate subscription key from exchange, marketId and, for candles, the interval.
+// A market's trades key also identifies the market for sequence numbers.
+function getSubscriptionKey(exchange: string, marketId: string, channel: Channel = 'trades', interval?: Interval): string {
+  return channel === 'candles' ? `${exchange}:${marketId}:candles:${interval}` : `${exchange}:${marketId}`;
+}
+
+// Subscription key of a target; filtered subscriptions are keyed by their filter too
+function getTargetKey(target: SubscriptionTarget): string {
+  const key = getSubscriptionKey(target.exchange, target.marketId, target.channel, target.interval);
+  return target.filter ? `${key}?${getFilterKey(target.filter)}` : key;
+}
+
+function isExactMarket(market: MarketKey): boolean {
+  return market.exchange !== WILDCARD && market.marketId !== WILDCARD;
+}
+
+function toTradeData(trade: Trade): Trade {
+  return {
+    id: trade.id,
+    exchange: trade.exchange,
+    marketId: trade.marketId,
+    price: trade.price,
+    quantity: trade.quantity,
+    side: trade.side,
+    timestamp: trade.timestamp,
+    outcome: trade.outcome,
+    takerSide: trade.takerSide,
+    yesPrice: trade.yesPrice,
+    noPrice: trade.noPrice,
+    txHash: trade.txHash,
+    maker: trade.maker,
+    taker: trade.taker,
+    fee: trade.fee,
+    blockNumber: trade.blockNumber,
+    blockHash: trade.blockHash,
+    finalized: trade.finalized,
+  };
+}
+
+function toCandleData(candle: Candle): CandleData {
+  return {
+    exchange: candle.exchange,
+    marketId: candle.marketId,
+    interval: candle.interval,
+    openTime: candle.openTime.toISOString(),
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: candle.close,
+    volume: candle.volume,
+  };
 }
 
 /**
@@ -42,18 +193,65 @@ class TradeWebSocketServer {
   // Map of WebSocket -> Set of subscription keys (for cleanup on disconnect)
   private clientSubscriptions: Map<WebSocket, Set<string>> = new Map();
 
+  // Map of subscription key -> what it subscribes to, while it has subscribers
+  private subscriptionTargets: Map<string, SubscriptionTarget> = new Map();
+
+  // Sequence numbers and recent broadcasts per market, for resuming clients
+  private replay = new ReplayBuffer(REPLAY_BUFFER_SIZE, REPLAY_RETENTION_MS);
+
+  // Trades subscriptions by scope, for routing each trade
+  private tradeIndex = new TradeSubscriptionIndex();
+
+  // Candle subscriptions without clients whose bars are still streamed into the
+  // buffer, so a client resuming them misses none; kept while their market is buffered
+  private lingeringCandles: Map<string, SubscriptionTarget> = new Map();
+
+  // API key each handshake authenticated with, null if anonymous, until it connects
+  private handshakeKeys: WeakMap<IncomingMessage, ApiKey | null> = new WeakMap();
+
+  // Map of WebSocket -> its API key, null if anonymous
+  private clientKeys: Map<WebSocket, ApiKey | null> = new Map();
+
+  // Map of API key id -> its open connections, which share its subscription limit
+  private keyClients: Map<number, Set<WebSocket>> = new Map();
+
   /**
    * Initialize the WebSocket server on the HTTP server
    */
   initialize(server: Server) {
-    this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.wss = new WebSocketServer({
+      server,
+      path: '/ws',
+      verifyClient: (info, callback) => {
+        this.verifyHandshake(info.req)
+          .then((rejection) => {
+            if (rejection) {
+              callback(false, rejection.status, rejection.message, rejection.headers);
+            } else {
+              callback(true);
+            }
+          })
+          .catch((error) => {
+            console.error('[WebSocket] Error checking API key:', error);
+            callback(false, 500, 'Internal server error');
+          });
+      },
+    });
     
     console.log('[WebSocket] Server initialized on /ws');
 
-    this.wss.on('connection', (ws: WebSocket) => {
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
       console.log('[WebSocket] Client connected');
       this.clientSubscriptions.set(ws, new Set());
 
+      const apiKey = this.handshakeKeys.get(req) ?? null;
+      this.handshakeKeys.delete(req);
+      this.clientKeys.set(ws, apiKey);
+      if (apiKey) {
+        if (!this.keyClients.has(apiKey.id)) this.keyClients.set(apiKey.id, new Set());
+        this.keyClients.get(apiKey.id)!.add(ws);
+      }
+
       ws.on('message', (data) => {
         this.handleMessage(ws, data.toString());
       });
@@ -75,9 +273,109 @@ class TradeWebSocketServer {
       this.broadcastTrade(trade);
     });
 
+    // Tell subscribers about trades rolled back by a chain reorg
+    tradeEmitter.on('trade_removed', (trade: Trade) => {
+      this.broadcastTrade(trade, 'trade_removed');
+    });
+
+    // Live bars for candle channel subscribers
+    candleStream.on('update', (candle: Candle) => {
+      this.broadcastCandle(candle, 'update');
+    });
+    candleStream.on('close', (candle: Candle) => {
+      this.broadcastCandle(candle, 'close');
+    });
+    candleStream.on('rebuilt', (rebuild: CandleRebuild, interval: Interval) => {
+      this.broadcastCandleRebuild(rebuild, interval);
+    });
+
+    // Bars of closed or resolved markets won't change, so stop streaming them for resumes
+    marketEmitter.on('ended', (markets: MarketKey[]) => {
+      const ended = new Set(markets.map(({ exchange, marketId }) => getSubscriptionKey(exchange, marketId)));
+      for (const [key, target] of this.lingeringCandles) {
+        if (ended.has(getSubscriptionKey(target.exchange, target.marketId))) {
+          this.lingeringCandles.delete(key);
+          candleStream.unwatch(target.exchange, target.marketId, target.interval!);
+        }
+      }
+    });
+
+    // Fired alert rules go to the market's subscribers
+    alertEmitter.on('alert', (alert: AlertEvent) => {
+      this.broadcastAlert(alert);
+    });
+
+    // Stop buffering markets nobody has subscribed to for a while
+    setInterval(() => {
+      const activeMarkets = new Set(
+        Array.from(this.subscriptionTargets.values()).map((target) => getSubscriptionKey(target.exchange, target.marketId))
+      );
+      this.replay.sweep(activeMarkets);
+
+      for (const [key, target] of this.lingeringCandles) {
+        if (!this.replay.isBuffering(getSubscriptionKey(target.exchange, target.marketId))) {
+          this.lingeringCandles.delete(key);
+          candleStream.unwatch(target.exchange, target.marketId, target.interval!);
+        }
+      }
+    }, REPLAY_SWEEP_MS);
+
     console.log('[WebSocket] ✅ Listening for trade events to broadcast');
   }
 
+  /**
+   * Authenticate a handshake's API key, sent as a header or `?apiKey=`, and
+   * count it against the key's rate limit and quota
+   * Returns the HTTP rejection, or null to accept the connection.
+   */
+  private async verifyHandshake(
+    req: IncomingMessage
+  ): Promise<{ status: number; message: string; headers?: Record<string, string> } | null> {
+    const url = new URL(req.url ?? '/ws', 'http://localhost');
+    const secret = getApiKeySecret(req.headers, url.searchParams);
+    const address = req.socket.remoteAddress ?? 'unknown';
+    let apiKey: ApiKey | null = null;
+
+    if (secret) {
+      const auth = await accessControl.authenticate(secret, address);
+      if (!auth.apiKey) {
+        return auth.reason === 'rate_limit'
+          ? { status: 429, message: 'Too many invalid API keys', headers: { 'Retry-After': String(auth.retryAfterSeconds) } }
+          : { status: 401, message: 'Invalid or revoked API key' };
+      }
+      apiKey = auth.apiKey;
+      if (!apiKey.scopes.includes('read')) return { status: 403, message: 'API key lacks the "read" scope' };
+    } else if (!isPublicPath('/ws')) {
+      return { status: 401, message: 'API key required' };
+    }
+
+    const decision = await accessControl.consume(apiKey, address);
+    if (!decision.allowed) {
+      return { status: 429, message: getRejectionMessage(decision), headers: getRateLimitHeaders(decision) };
+    }
+
+    this.handshakeKeys.set(req, apiKey);
+    return null;
+  }
+
+  /**
+   * Subscriptions a client may still add: its key's limit less the
+   * subscriptions of all the key's connections, or the anonymous per-connection limit
+   */
+  private getRemainingSubscriptions(ws: WebSocket): { limit: number; remaining: number } {
+    const apiKey = this.clientKeys.get(ws);
+    if (!apiKey) {
+      const used = this.clientSubscriptions.get(ws)?.size ?? 0;
+      return { limit: ANONYMOUS_MAX_SUBSCRIPTIONS, remaining: ANONYMOUS_MAX_SUBSCRIPTIONS - used };
+    }
+
+    let used = 0;
+    for (const client of this.keyClients.get(apiKey.id) ?? []) {
+      used += this.clientSubscriptions.get(client)?.size ?? 0;
+    }
+    return { limit: apiKey.maxSubscriptions, remaining: apiKey.maxSubscriptions - used };
+  }
+
   /**
    * Handle incoming WebSocket message
    */
@@ -85,18 +383,120 @@ class TradeWebSocketServer {
     try {
       const parsed = JSON.parse(message) as SubscribeMessage;
 
-      if (!parsed.action || !parsed.exchange || !parsed.marketId) {
+      if (!parsed.action) {
+        this.send(ws, {
+          type: 'error',
+          message: 'Invalid message format. Required: { action, exchange, marketId } or { action, markets }, ' +
+            'optional: { channel, interval, filters, snapshot, since }',
+        });
+        return;
+      }
+
+      const markets = this.parseSubscriptionMarkets(parsed);
+      if ('error' in markets) {
+        this.send(ws, { type: 'error', message: markets.error });
+        return;
+      }
+
+      const channel = parsed.channel ?? 'trades';
+      if (channel !== 'trades' && channel !== 'candles') {
+        this.send(ws, {
+          type: 'error',
+          message: 'Invalid channel. Must be "trades" or "candles"',
+        });
+        return;
+      }
+
+      if (channel === 'candles' && (!parsed.interval || !isInterval(parsed.interval))) {
+        this.send(ws, {
+          type: 'error',
+          message: `Invalid interval for the candles channel. Must be one of: ${ALL_INTERVALS.join(', ')}`,
+        });
+        return;
+      }
+
+      const filterResult = parseTradeFilter(parsed.filters);
+      if ('error' in filterResult) {
+        this.send(ws, { type: 'error', message: filterResult.error });
+        return;
+      }
+      const { filter } = filterResult;
+
+      const isWildcard = !markets.markets.every(isExactMarket);
+      if (channel === 'candles' && (isWildcard || filter)) {
+        this.send(ws, {
+          type: 'error',
+          message: 'Wildcards and filters are only supported on the trades channel',
+        });
+        return;
+      }
+
+      const { snapshot, since } = parsed;
+      if ((snapshot || since !== undefined) && (isWildcard || filter)) {
+        this.send(ws, {
+          type: 'error',
+          message: 'snapshot and since need exact markets without filters',
+        });
+        return;
+      }
+
+      if (since !== undefined && markets.markets.length > 1) {
+        this.send(ws, {
+          type: 'error',
+          message: 'since resumes a single market. Subscribe to each market separately',
+        });
+        return;
+      }
+
+      if (snapshot !== undefined && typeof snapshot !== 'boolean' &&
+          !(Number.isInteger(snapshot) && snapshot >= 1 && snapshot <= MAX_SNAPSHOT_TRADES)) {
+        this.send(ws, {
+          type: 'error',
+          message: `Invalid snapshot. Must be true, false or a number of trades from 1 to ${MAX_SNAPSHOT_TRADES}`,
+        });
+        return;
+      }
+
+      if (since !== undefined && !(Number.isInteger(since) && since >= 0)) {
         this.send(ws, {
           type: 'error',
-          message: 'Invalid message format. Required: { action, exchange, marketId }',
+          message: 'Invalid since. Must be the seq of a message received earlier',
         });
         return;
       }
 
+      const targets: SubscriptionTarget[] = markets.markets.map((market) => ({
+        exchange: market.exchange,
+        marketId: market.marketId,
+        channel,
+        interval: channel === 'candles' ? (parsed.interval as Interval) : undefined,
+        filter,
+      }));
+
       if (parsed.action === 'subscribe') {
-        this.subscribe(ws, parsed.exchange, parsed.marketId);
+        const clientSubs = this.clientSubscriptions.get(ws)!;
+        const newKeys = new Set(targets.map(getTargetKey).filter((key) => !clientSubs.has(key)));
+        const { limit, remaining } = this.getRemainingSubscriptions(ws);
+        if (newKeys.size > remaining) {
+          this.send(ws, {
+            type: 'error',
+            message: `Subscription limit reached (${limit}). Unsubscribe from some markets first`,
+          });
+          return;
+        }
+        // Count them now, so subscriptions still loading a snapshot are within the limit
+        for (const key of newKeys) clientSubs.add(key);
+
+        const snapshotSize = snapshot === true ? DEFAULT_SNAPSHOT_TRADES : snapshot || 0;
+        for (const target of targets) {
+          this.subscribe(ws, target, { snapshotSize, since }).catch((error) => {
+            console.error('[WebSocket] Error subscribing client:', error);
+          });
+        }
       } else if (parsed.action === 'unsubscribe') {
-        this.unsubscribe(ws, parsed.exchange, parsed.marketId);
+        for (const target of targets) {
+          this.unsubscribe(ws, target);
+        }
       } else {
         this.send(ws, {
           type: 'error',
@@ -112,51 +512,211 @@ class TradeWebSocketServer {
   }
 
   /**
-   * Subscribe a client to a market
+   * Markets a subscribe message refers to: a list of market keys, one market,
+   * every market of an exchange (marketId '*'), or every market (exchange '*').
+   * Lists take the same wildcards, as `exchange:*` and `*:*`.
+   */
+  private parseSubscriptionMarkets(parsed: SubscribeMessage): { markets: MarketKey[] } | { error: string } {
+    if (parsed.markets !== undefined) {
+      if (!Array.isArray(parsed.markets) || !parsed.markets.every((key) => typeof key === 'string')) {
+        return { error: 'Invalid markets. Must be a list of exchange:marketId keys' };
+      }
+
+      const allMarkets = `${WILDCARD}:${WILDCARD}`;
+      const keys = parsed.markets.map((key) => key.trim());
+      const invalid = keys.find((key) => key.startsWith(`${WILDCARD}:`) && key !== allMarkets);
+      if (invalid) {
+        return { error: `Invalid market key "${invalid}". An exchange wildcard covers every market: "${allMarkets}"` };
+      }
+
+      const exchangeKeys = keys.filter((key) => key !== allMarkets);
+      if (exchangeKeys.length === keys.length) return parseMarketKeys(keys.join(','));
+
+      const parsedKeys = exchangeKeys.some(Boolean) ? parseMarketKeys(exchangeKeys.join(',')) : { markets: [] };
+      if ('error' in parsedKeys) return parsedKeys;
+      return { markets: [{ exchange: WILDCARD, marketId: WILDCARD }, ...parsedKeys.markets] };
+    }
+
+    if (parsed.exchange === WILDCARD && (parsed.marketId === undefined || parsed.marketId === WILDCARD)) {
+      return { markets: [{ exchange: WILDCARD, marketId: WILDCARD }] };
+    }
+
+    if (!parsed.exchange || !parsed.marketId) {
+      return { error: 'Invalid message format. Required: { action, exchange, marketId } or { action, markets }' };
+    }
+    if (!exchangeRegistry.has(parsed.exchange)) {
+      return { error: `Invalid exchange. Must be one of: ${exchangeRegistry.ids().join(', ')}` };
+    }
+    return { markets: [{ exchange: parsed.exchange, marketId: parsed.marketId }] };
+  }
+
+  /**
+   * Subscribe a client to a market's trades or candles
+   * A client resuming with `since` first gets the broadcasts it missed, or a
+   * resync_required reply if they are no longer buffered. A snapshot is sent
+   * when asked for and not resumed, followed by the broadcasts made while it
+   * loaded, so nothing falls between the snapshot and the live stream.
    */
-  private subscribe(ws: WebSocket, exchange: string, marketId: string) {
-    const key = getSubscriptionKey(exchange, marketId);
+  private async subscribe(ws: WebSocket, target: SubscriptionTarget, { snapshotSize, since }: SubscribeOptions) {
+    const { exchange, marketId, channel, interval, filter } = target;
+    const key = getTargetKey(target);
+    const market = getSubscriptionKey(exchange, marketId);
+    const exact = isExactMarket(target);
+
+    // Buffer the market's broadcasts from now on, for this client and any later resume
+    if (exact) this.replay.touch(market);
+
+    let missed: BufferedMessage[] | null = null;
+    if (since !== undefined) {
+      missed = this.replay.since(market, since, key);
+      if (!missed) this.sendResyncRequired(ws, target);
+    }
+
+    // Stream the market's bars while a candle snapshot loads, so their changes are buffered
+    const watchWhileLoading = !missed && snapshotSize > 0 && channel === 'candles' && interval !== undefined;
+    if (watchWhileLoading) candleStream.watch(exchange, marketId, interval);
+
+    try {
+      if (!missed && snapshotSize > 0) {
+        const seq = this.replay.current(market);
+        if (await this.sendSnapshot(ws, target, snapshotSize, seq)) {
+          missed = this.replay.since(market, seq, key);
+          if (!missed) this.sendResyncRequired(ws, target);
+        }
+
+        // The client disconnected while the snapshot loaded
+        if (!this.clientSubscriptions.has(ws)) return;
+      }
 
-    // Add to subscriptions map
+      for (const message of missed ?? []) {
+        if (ws.readyState === WebSocket.OPEN) ws.send(message.payload);
+      }
+
+      this.addSubscriber(key, target, ws);
+    } finally {
+      if (watchWhileLoading) candleStream.unwatch(exchange, marketId, interval);
+    }
+
+    console.log(`[WebSocket] Client subscribed to ${key}`);
+
+    const message: SubscribedMessage = {
+      type: 'subscribed',
+      exchange,
+      marketId,
+      channel,
+      interval,
+      filters: filter ?? undefined,
+      seq: exact ? this.replay.current(market) : undefined,
+    };
+    this.send(ws, message);
+  }
+
+  /**
+   * Add a client to a subscription
+   */
+  private addSubscriber(key: string, target: SubscriptionTarget, ws: WebSocket) {
+    const { exchange, marketId, channel, interval } = target;
+
+    // Add to subscriptions map; the first candle subscriber starts the market's bar stream
     if (!this.subscriptions.has(key)) {
       this.subscriptions.set(key, new Set());
+      this.subscriptionTargets.set(key, target);
+      if (channel === 'trades') {
+        this.tradeIndex.add(getScopeKey(exchange, marketId), key, target.filter ?? null);
+      } else if (interval && !this.lingeringCandles.delete(key)) {
+        candleStream.watch(exchange, marketId, interval);
+      }
     }
     this.subscriptions.get(key)!.add(ws);
 
     // Track client's subscriptions
     this.clientSubscriptions.get(ws)?.add(key);
+  }
 
-    console.log(`[WebSocket] Client subscribed to ${key}`);
+  /**
+   * Send the market's latest trades, or its latest candle for a candles subscription
+   * Returns false, after telling the client, if it could not be loaded
+   */
+  private async sendSnapshot(ws: WebSocket, target: SubscriptionTarget, size: number, seq: number): Promise<boolean> {
+    const { exchange, marketId, channel, interval } = target;
 
-    this.send(ws, {
-      type: 'subscribed',
+    try {
+      let message: SnapshotMessage;
+      if (channel === 'candles' && interval) {
+        const candle = await candleAggregator.getLatestCandle(exchange, marketId, interval);
+        message = { type: 'snapshot', exchange, marketId, channel, interval, seq, candle: candle ? toCandleData(candle) : null };
+      } else {
+        const trades = await getRecentTrades(exchange, marketId, size);
+        message = { type: 'snapshot', exchange, marketId, channel: 'trades', seq, trades: trades.map(toTradeData) };
+      }
+      this.send(ws, message);
+      return true;
+    } catch (error) {
+      console.error(`[WebSocket] Error loading snapshot for ${getTargetKey(target)}:`, error);
+      this.send(ws, { type: 'error', message: 'Failed to load snapshot' });
+      return false;
+    }
+  }
+
+  private sendResyncRequired(ws: WebSocket, target: SubscriptionTarget) {
+    const { exchange, marketId, channel, interval } = target;
+    const message: ResyncRequiredMessage = {
+      type: 'resync_required',
       exchange,
       marketId,
-    });
+      channel,
+      interval,
+      seq: this.replay.current(getSubscriptionKey(exchange, marketId)),
+    };
+    this.send(ws, message);
   }
 
   /**
-   * Unsubscribe a client from a market
+   * Unsubscribe a client from a market's trades or candles
    */
-  private unsubscribe(ws: WebSocket, exchange: string, marketId: string) {
-    const key = getSubscriptionKey(exchange, marketId);
+  private unsubscribe(ws: WebSocket, target: SubscriptionTarget) {
+    const { exchange, marketId, channel, interval, filter } = target;
+    const key = getTargetKey(target);
 
-    // Remove from subscriptions map
-    this.subscriptions.get(key)?.delete(ws);
-    if (this.subscriptions.get(key)?.size === 0) {
-      this.subscriptions.delete(key);
-    }
+    this.removeSubscriber(key, ws);
 
     // Remove from client's subscriptions
     this.clientSubscriptions.get(ws)?.delete(key);
 
     console.log(`[WebSocket] Client unsubscribed from ${key}`);
 
-    this.send(ws, {
+    const message: SubscribedMessage = {
       type: 'unsubscribed',
       exchange,
       marketId,
-    });
+      channel,
+      interval,
+      filters: filter ?? undefined,
+    };
+    this.send(ws, message);
+  }
+
+  /**
+   * Remove a client from a subscription, dropping the subscription once it has none
+   */
+  private removeSubscriber(key: string, ws: WebSocket) {
+    // Keep the market's broadcasts for the retention period from when its last client left
+    const subscribed = this.subscriptionTargets.get(key);
+    if (subscribed && isExactMarket(subscribed)) {
+      this.replay.touch(getSubscriptionKey(subscribed.exchange, subscribed.marketId));
+    }
+
+    this.subscriptions.get(key)?.delete(ws);
+    if (this.subscriptions.get(key)?.size === 0) {
+      this.subscriptions.delete(key);
+
+      this.subscriptionTargets.delete(key);
+      if (subscribed?.channel === 'trades') {
+        this.tradeIndex.remove(getScopeKey(subscribed.exchange, subscribed.marketId), key);
+      } else if (subscribed?.channel === 'candles') {
+        this.lingeringCandles.set(key, subscribed);
+      }
+    }
   }
 
   /**
@@ -167,47 +727,96 @@ class TradeWebSocketServer {
     
     if (clientSubs) {
       for (const key of clientSubs) {
-        this.subscriptions.get(key)?.delete(ws);
-        if (this.subscriptions.get(key)?.size === 0) {
-          this.subscriptions.delete(key);
-        }
+        this.removeSubscriber(key, ws);
       }
     }
 
     this.clientSubscriptions.delete(ws);
+
+    const apiKey = this.clientKeys.get(ws);
+    this.clientKeys.delete(ws);
+    if (apiKey) {
+      const keyClients = this.keyClients.get(apiKey.id);
+      keyClients?.delete(ws);
+      if (keyClients?.size === 0) this.keyClients.delete(apiKey.id);
+    }
     console.log('[WebSocket] Client disconnected');
   }
 
   /**
-   * Broadcast a trade to all subscribed clients
+   * Broadcast a trade (or its removal) to the clients of every subscription it
+   * matches: its market's, its exchange's and all-market wildcards, each
+   * narrowed by their filters
    */
-  private broadcastTrade(trade: Trade) {
+  private broadcastTrade(trade: Trade, type: TradeMessage['type'] = 'trade') {
     const key = getSubscriptionKey(trade.exchange, trade.marketId);
-    const subscribers = this.subscriptions.get(key);
+    const message: TradeMessage = { type, seq: this.replay.next(key), data: toTradeData(trade) };
+    this.publish(key, key, message, this.tradeIndex.match(trade));
+  }
+
+  /**
+   * Broadcast a bar update or close to the market's subscribers for its interval
+   */
+  private broadcastCandle(candle: Candle, event: CandleMessage['event']) {
+    const market = getSubscriptionKey(candle.exchange, candle.marketId);
+    const message: CandleMessage = { type: 'candle', event, seq: this.replay.next(market), data: toCandleData(candle) };
+    this.publish(market, getSubscriptionKey(candle.exchange, candle.marketId, 'candles', candle.interval), message);
+  }
+
+  /**
+   * Tell the market's subscribers for an interval that its bars were rebuilt
+   */
+  private broadcastCandleRebuild(rebuild: CandleRebuild, interval: Interval) {
+    const market = getSubscriptionKey(rebuild.exchange, rebuild.marketId);
+    const message: CandlesRebuiltMessage = {
+      type: 'candles_rebuilt',
+      exchange: rebuild.exchange,
+      marketId: rebuild.marketId,
+      interval,
+      seq: this.replay.next(market),
+      start: rebuild.start?.toISOString() ?? null,
+      end: rebuild.end?.toISOString() ?? null,
+    };
+    this.publish(market, getSubscriptionKey(rebuild.exchange, rebuild.marketId, 'candles', interval), message);
+  }
 
-    if (!subscribers || subscribers.size === 0) {
+  /**
+   * Broadcast a fired alert to the clients subscribed to its market's unfiltered trades
+   */
+  private broadcastAlert(alert: AlertEvent) {
+    const key = getSubscriptionKey(alert.exchange, alert.marketId);
+    const message: AlertMessage = { type: 'alert', seq: this.replay.next(key), data: alert };
+    this.publish(key, key, message);
+  }
+
+  /**
+   * Send a market's broadcast to the clients of its subscriptions, once each,
+   * buffering it under its market subscription for resuming clients
+   */
+  private publish(
+    market: string,
+    key: string,
+    message: TradeMessage | CandleMessage | CandlesRebuiltMessage | AlertMessage,
+    subscriptionKeys: string[] = [key]
+  ) {
+    const subscribers = new Set<WebSocket>();
+    for (const subscriptionKey of subscriptionKeys) {
+      for (const ws of this.subscriptions.get(subscriptionKey) ?? []) subscribers.add(ws);
+    }
+    const subscriberCount = subscribers.size;
+
+    if (subscriberCount === 0 && !this.replay.isBuffering(market)) {
       // Uncomment below to debug subscription mismatches
       // console.log(`[WebSocket] No subscribers for ${key}`);
-      return; // No subscribers for this market
+      return; // Nobody subscribed to this market, now or recently
+    }
+
+    if (message.type !== 'candle' && subscriberCount > 0) {
+      console.log(`[WebSocket] Broadcasting ${message.type} to ${subscriberCount} subscriber(s) for ${key}`);
     }
-    
-    console.log(`[WebSocket] Broadcasting trade to ${subscribers.size} subscriber(s) for ${key}`);
-
-
-    const message: TradeMessage = {
-      type: 'trade',
-      data: {
-        exchange: trade.exchange,
-        marketId: trade.marketId,
-        price: trade.price,
-        quantity: trade.quantity,
-        side: trade.side,
-        timestamp: trade.timestamp,
-        txHash: trade.txHash,
-      },
-    };
 
     const messageStr = JSON.stringify(message);
+    this.replay.push(market, { seq: message.seq, subscriptionKey: key, payload: messageStr });
 
     for (const ws of subscribers) {
       if (ws.readyState === WebSocket.OPEN) {
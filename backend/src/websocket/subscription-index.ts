@@ -0,0 +1,131 @@
+import { Outcome, Side, Trade } from '../types';
+
+/**
+ * Trade Subscription Index
+ * Finds the trades subscriptions a trade goes to without scanning clients.
+ * Subscriptions are indexed by scope: one market (`exchange:marketId`), every
+ * market of an exchange (`exchange:*`) or every market (`*:*`). A trade looks
+ * up its three scopes and checks the filter of each distinct subscription in
+ * them once, however many clients share it.
+ */
+
+// Server-side conditions a trade must meet to be sent
+export interface TradeFilter {
+  minQuantity?: number;
+  minNotional?: number;   // price * quantity
+  side?: Side;
+  outcome?: Outcome;
+}
+
+export const WILDCARD = '*';
+
+export function getScopeKey(exchange: string, marketId: string): string {
+  return `${exchange}:${marketId}`;
+}
+
+/**
+ * Validate the filters of a subscribe message
+ * Returns null for no filters, or an error message if any is invalid
+ */
+export function parseTradeFilter(value: unknown): { filter: TradeFilter | null } | { error: string } {
+  if (value === undefined || value === null) return { filter: null };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Invalid filters. Must be an object of { minQuantity, minNotional, side, outcome }' };
+  }
+
+  const { minQuantity, minNotional, side, outcome, ...rest } = value as Record<string, unknown>;
+  const unknown = Object.keys(rest);
+  if (unknown.length > 0) {
+    return { error: `Unknown filter "${unknown[0]}". Must be one of: minQuantity, minNotional, side, outcome` };
+  }
+
+  const filter: TradeFilter = {};
+  if (minQuantity !== undefined) {
+    if (typeof minQuantity !== 'number' || !Number.isFinite(minQuantity) || minQuantity < 0) {
+      return { error: 'Invalid minQuantity. Must be a non-negative number' };
+    }
+    filter.minQuantity = minQuantity;
+  }
+  if (minNotional !== undefined) {
+    if (typeof minNotional !== 'number' || !Number.isFinite(minNotional) || minNotional < 0) {
+      return { error: 'Invalid minNotional. Must be a non-negative number' };
+    }
+    filter.minNotional = minNotional;
+  }
+  if (side !== undefined) {
+    if (side !== 'buy' && side !== 'sell') {
+      return { error: 'Invalid side. Must be "buy" or "sell"' };
+    }
+    filter.side = side;
+  }
+  if (outcome !== undefined) {
+    if (outcome !== 'yes' && outcome !== 'no') {
+      return { error: 'Invalid outcome. Must be "yes" or "no"' };
+    }
+    filter.outcome = outcome;
+  }
+
+  return { filter: Object.keys(filter).length > 0 ? filter : null };
+}
+
+/**
+ * Canonical form of a filter, so equal filters share a subscription
+ */
+export function getFilterKey(filter: TradeFilter): string {
+  const parts: string[] = [];
+  if (filter.minQuantity !== undefined) parts.push(`minQuantity=${filter.minQuantity}`);
+  if (filter.minNotional !== undefined) parts.push(`minNotional=${filter.minNotional}`);
+  if (filter.side) parts.push(`side=${filter.side}`);
+  if (filter.outcome) parts.push(`outcome=${filter.outcome}`);
+  return parts.join('&');
+}
+
+export function matchesFilter(trade: Trade, filter: TradeFilter): boolean {
+  const quantity = parseFloat(trade.quantity);
+  if (filter.minQuantity !== undefined && quantity < filter.minQuantity) return false;
+  if (filter.minNotional !== undefined && parseFloat(trade.price) * quantity < filter.minNotional) return false;
+  if (filter.side && trade.side !== filter.side) return false;
+  if (filter.outcome && trade.outcome !== filter.outcome) return false;
+  return true;
+}
+
+export class TradeSubscriptionIndex {
+  // Scope key -> subscription key -> its filter, null if unfiltered
+  private scopes = new Map<string, Map<string, TradeFilter | null>>();
+
+  add(scope: string, subscriptionKey: string, filter: TradeFilter | null) {
+    let subscriptions = this.scopes.get(scope);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      this.scopes.set(scope, subscriptions);
+    }
+    subscriptions.set(subscriptionKey, filter);
+  }
+
+  remove(scope: string, subscriptionKey: string) {
+    const subscriptions = this.scopes.get(scope);
+    if (!subscriptions) return;
+
+    subscriptions.delete(subscriptionKey);
+    if (subscriptions.size === 0) this.scopes.delete(scope);
+  }
+
+  /**
+   * Keys of the subscriptions a trade should be sent to
+   */
+  match(trade: Trade): string[] {
+    const keys: string[] = [];
+    const scopes = [
+      getScopeKey(trade.exchange, trade.marketId),
+      getScopeKey(trade.exchange, WILDCARD),
+      getScopeKey(WILDCARD, WILDCARD),
+    ];
+
+    for (const scope of scopes) {
+      for (const [key, filter] of this.scopes.get(scope) ?? []) {
+        if (!filter || matchesFilter(trade, filter)) keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
-import type { Exchange, Interval } from './types';
+import type { Exchange, Interval, MarketLink } from './types';
 import { Chart } from './components/Chart';
 import { MarketSelector } from './components/MarketSelector';
+import { MarketLinks } from './components/MarketLinks';
 // import { PerformanceStats } from './components/PerformanceStats';
 import { TradesTable } from './components/TradesTable';
 import { healthCheck } from './services/api';
@@ -12,6 +13,13 @@ function App() {
   const [marketId, setMarketId] = useState<string>('');
   const [interval, setInterval] = useState<Interval>('1m');
   const [isBackendOnline, setIsBackendOnline] = useState<boolean | null>(null);
+  // Linked market overlaid on the chart, cleared whenever the market changes
+  const [compareWith, setCompareWith] = useState<MarketLink | null>(null);
+
+  const handleMarketChange = (id: string) => {
+    setMarketId(id);
+    setCompareWith(null);
+  };
 
   // Check backend health on mount
   useEffect(() => {
@@ -51,9 +59,17 @@ function App() {
           marketId={marketId}
           interval={interval}
           onExchangeChange={setExchange}
-          onMarketChange={setMarketId}
+          onMarketChange={handleMarketChange}
           onIntervalChange={setInterval}
         />
+        {isBackendOnline && marketId && (
+          <MarketLinks
+            exchange={exchange}
+            marketId={marketId}
+            compareWith={compareWith}
+            onCompareChange={setCompareWith}
+          />
+        )}
       </div>
 
       {/* Performance Stats */}
@@ -77,7 +93,7 @@ function App() {
           </div>
         ) : (
           <div className="chart-with-trades">
-            <Chart exchange={exchange} marketId={marketId} interval={interval} />
+            <Chart exchange={exchange} marketId={marketId} interval={interval} compareWith={compareWith} />
             <TradesTable exchange={exchange} marketId={marketId} />
           </div>
         )}
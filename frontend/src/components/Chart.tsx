@@ -8,16 +8,19 @@ import type {
   ISeriesApi,
   CandlestickData,
   HistogramData,
+  LineData,
   Time,
 } from 'lightweight-charts';
-import type { Candle, Trade, Exchange, Interval } from '../types';
-import { fetchCandles } from '../services/api';
+import type { Candle, Comparison, Exchange, Interval, MarketLifecycle, MarketLink, WSCandleMessage, WSCandlesRebuiltMessage } from '../types';
+import { fetchCandles, fetchComparison, fetchMarketLifecycle, marketKey } from '../services/api';
 import { useWebSocket } from '../hooks/useWebSocket';
 
 interface ChartProps {
   exchange: Exchange;
   marketId: string;
   interval: Interval;
+  // Linked market to overlay, with the spread between the two on the left scale
+  compareWith?: MarketLink | null;
 }
 
 // Get timezone offset in seconds (negative for EST/EDT)
@@ -28,15 +31,17 @@ interface ChartCandleWithVolume extends CandlestickData<Time> {
   volume: number;
 }
 
+// TradingView expects Unix timestamps in seconds
+// We subtract the timezone offset to display in local time
+function toChartTime(openTime: string): Time {
+  const utcSeconds = new Date(openTime).getTime() / 1000;
+  return (utcSeconds - TIMEZONE_OFFSET_SECONDS) as Time;
+}
+
 // Convert our Candle to TradingView format with local timezone adjustment
 function toChartCandle(candle: Candle): ChartCandleWithVolume {
-  // TradingView expects Unix timestamps in seconds
-  // We subtract the timezone offset to display in local time
-  const utcSeconds = new Date(candle.openTime).getTime() / 1000;
-  const localSeconds = utcSeconds - TIMEZONE_OFFSET_SECONDS;
-  
   return {
-    time: localSeconds as Time,
+    time: toChartTime(candle.openTime),
     open: parseFloat(candle.open),
     high: parseFloat(candle.high),
     low: parseFloat(candle.low),
@@ -55,13 +60,18 @@ function toVolumeBar(candle: ChartCandleWithVolume): HistogramData<Time> {
   };
 }
 
-// Get interval in seconds
-function getIntervalSeconds(interval: Interval): number {
-  switch (interval) {
-    case '1s': return 1;
-    case '1m': return 60;
-    case '1h': return 3600;
-  }
+// Close of the linked market in each bucket it traded in
+function toComparisonLine(comparison: Comparison): LineData<Time>[] {
+  return comparison.points.flatMap((point) =>
+    point.b ? [{ time: toChartTime(point.openTime), value: parseFloat(point.b.close) }] : []
+  );
+}
+
+// Implied-probability spread (this market minus the linked one) once both have traded
+function toSpreadLine(comparison: Comparison): LineData<Time>[] {
+  return comparison.points.flatMap((point) =>
+    point.spread !== null ? [{ time: toChartTime(point.openTime), value: parseFloat(point.spread) }] : []
+  );
 }
 
 // Format relative time (e.g., "2s ago", "1m ago")
@@ -89,7 +99,7 @@ interface OHLCVData {
   changePercent: number;
 }
 
-export function Chart({ exchange, marketId, interval }: ChartProps) {
+export function Chart({ exchange, marketId, interval, compareWith = null }: ChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
@@ -99,6 +109,11 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
   const candlesRef = useRef<Map<number, ChartCandleWithVolume>>(new Map());
   const [, setTick] = useState(0); // Force re-render for relative time updates
   const [hoveredData, setHoveredData] = useState<OHLCVData | null>(null);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped to refetch candles after a rebuild or resync
+  // Lifecycle of the market it was fetched for, so a previous market's is never shown
+  const [lifecycle, setLifecycle] = useState<{ key: string; data: MarketLifecycle } | null>(null);
+  // Latest spread of the comparison it was fetched for
+  const [spread, setSpread] = useState<{ linkId: number; value: string | null } | null>(null);
   
   // Keep interval in a ref to avoid stale closures
   const intervalRef = useRef(interval);
@@ -106,69 +121,82 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
     intervalRef.current = interval;
   }, [interval]);
 
-  // Handle live trade updates - use useCallback with stable deps
-  const handleTrade = useCallback((trade: Trade) => {
+  const marketKeyRef = useRef(marketKey(exchange, marketId));
+  useEffect(() => {
+    marketKeyRef.current = marketKey(exchange, marketId);
+  }, [exchange, marketId]);
+
+  // Apply a server-built bar; these come from the same aggregation as GET /candles
+  const handleCandle = useCallback(({ data }: WSCandleMessage) => {
     const series = seriesRef.current;
     const volumeSeries = volumeSeriesRef.current;
     if (!series) {
-      console.log('[Chart] No series ref, skipping trade update');
+      console.log('[Chart] No series ref, skipping candle update');
       return;
     }
-
-    const currentInterval = intervalRef.current;
-    // Convert UTC timestamp to local time for chart display
-    const tradeTimeUtc = new Date(trade.timestamp).getTime() / 1000;
-    const tradeTime = tradeTimeUtc - TIMEZONE_OFFSET_SECONDS;
-    const intervalSec = getIntervalSeconds(currentInterval);
-    const candleTime = Math.floor(tradeTime / intervalSec) * intervalSec;
-    const price = parseFloat(trade.price);
-    const quantity = parseFloat(trade.quantity);
-
-    console.log(`[Chart] Processing trade: price=${price}, qty=${quantity}, candleTime=${candleTime}, interval=${currentInterval}`);
-
-    const existing = candlesRef.current.get(candleTime);
-
-    if (existing) {
-      // Update existing candle
-      const updated: ChartCandleWithVolume = {
-        time: candleTime as Time,
-        open: existing.open,
-        high: Math.max(existing.high, price),
-        low: Math.min(existing.low, price),
-        close: price,
-        volume: existing.volume + quantity,
-      };
-      candlesRef.current.set(candleTime, updated);
-      series.update(updated);
-      if (volumeSeries) {
-        volumeSeries.update(toVolumeBar(updated));
-      }
-      console.log(`[Chart] Updated candle: O=${updated.open} H=${updated.high} L=${updated.low} C=${updated.close} V=${updated.volume}`);
+    // Ignore bars of a market or interval the chart has since switched away from
+    if (data.interval !== intervalRef.current || marketKey(data.exchange, data.marketId) !== marketKeyRef.current) return;
+
+    const candle = toChartCandle(data);
+    const candleTime = candle.time as number;
+    const times = Array.from(candlesRef.current.keys());
+    const latestTime = times.length > 0 ? Math.max(...times) : -Infinity;
+    candlesRef.current.set(candleTime, candle);
+
+    if (candleTime >= latestTime) {
+      series.update(candle);
+      volumeSeries?.update(toVolumeBar(candle));
     } else {
-      // Create new candle
-      const newCandle: ChartCandleWithVolume = {
-        time: candleTime as Time,
-        open: price,
-        high: price,
-        low: price,
-        close: price,
-        volume: quantity,
-      };
-      candlesRef.current.set(candleTime, newCandle);
-      series.update(newCandle);
-      if (volumeSeries) {
-        volumeSeries.update(toVolumeBar(newCandle));
-      }
-      console.log(`[Chart] Created new candle: price=${price}, volume=${quantity}, time=${candleTime}`);
+      // The chart can only update its latest bar, so a late revision of an older one redraws the series
+      const sorted = Array.from(candlesRef.current.values()).sort((a, b) => (a.time as number) - (b.time as number));
+      series.setData(sorted);
+      volumeSeries?.setData(sorted.map(toVolumeBar));
     }
   }, []); // Empty deps - uses refs internally
 
+  // Rebuilt bars (e.g. after a reorg) may have been emptied, which no update reports; refetch them
+  const handleCandlesRebuilt = useCallback(({ exchange, marketId, interval }: WSCandlesRebuiltMessage) => {
+    if (interval !== intervalRef.current || marketKey(exchange, marketId) !== marketKeyRef.current) return;
+    setReloadKey((k) => k + 1);
+  }, []);
+
+  // Updates missed while reconnecting are gone; refetch the candles
+  const handleResync = useCallback(() => {
+    setReloadKey((k) => k + 1);
+  }, []);
+
   const { isConnected, lastTrade } = useWebSocket({
     exchange,
     marketId,
-    onTrade: handleTrade,
+    candleInterval: interval,
+    onCandle: handleCandle,
+    onCandlesRebuilt: handleCandlesRebuilt,
+    onResync: handleResync,
   });
 
+  // Fetch whether the market is still trading, and how it settled if not
+  useEffect(() => {
+    if (!marketId) return;
+
+    let cancelled = false;
+    const key = marketKey(exchange, marketId);
+    fetchMarketLifecycle(exchange, marketId)
+      .then((data) => {
+        if (!cancelled) setLifecycle({ key, data });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch market lifecycle:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, marketId]);
+
+  const currentLifecycle = lifecycle?.key === marketKey(exchange, marketId) ? lifecycle.data : null;
+  const status = currentLifecycle?.status ?? null;
+  const settlementPrice = currentLifecycle?.settlementPrice ?? null;
+
   // Update relative time display every second
   useEffect(() => {
     if (!lastTrade) return;
@@ -265,8 +293,10 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
       let timeStr: string;
       if (intervalRef.current === '1s') {
         timeStr = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-      } else if (intervalRef.current === '1m') {
+      } else if (intervalRef.current === '1m' || intervalRef.current === '5m' || intervalRef.current === '15m') {
         timeStr = date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+      } else if (intervalRef.current === '1d' || intervalRef.current === '1w') {
+        timeStr = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
       } else {
         timeStr = date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
       }
@@ -308,7 +338,81 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
     };
   }, [interval]);
 
-  // Load candles when market/interval changes
+  // Mark where a resolved market settled
+  useEffect(() => {
+    const series = seriesRef.current;
+    if (!series || status !== 'resolved' || settlementPrice === null) return;
+
+    const line = series.createPriceLine({
+      price: parseFloat(settlementPrice),
+      color: '#9ca3af',
+      lineWidth: 1,
+      lineStyle: 2,
+      axisLabelVisible: true,
+      title: 'Settled',
+    });
+
+    return () => {
+      // The series is gone if the chart was rebuilt for a new interval
+      if (seriesRef.current === series) series.removePriceLine(line);
+    };
+  }, [status, settlementPrice, interval]);
+
+  // Overlay the linked market and the spread between the two
+  const comparing =
+    compareWith !== null && compareWith.exchange === exchange && compareWith.marketId === marketId ? compareWith : null;
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !comparing) return;
+
+    let cancelled = false;
+    let linkedSeries: ISeriesApi<'Line'> | null = null;
+    let spreadSeries: ISeriesApi<'Line'> | null = null;
+
+    fetchComparison(comparing, interval, 500)
+      .then((comparison) => {
+        if (cancelled || chartRef.current !== chart) return;
+
+        linkedSeries = chart.addLineSeries({
+          color: '#f59e0b',
+          lineWidth: 2,
+          title: comparing.linkedExchange,
+          priceLineVisible: false,
+        });
+        linkedSeries.setData(toComparisonLine(comparison));
+
+        spreadSeries = chart.addLineSeries({
+          color: '#a78bfa',
+          lineWidth: 1,
+          lineStyle: 2,
+          title: 'Spread',
+          priceScaleId: 'left',
+          priceLineVisible: false,
+        });
+        spreadSeries.setData(toSpreadLine(comparison));
+        chart.applyOptions({ leftPriceScale: { visible: true, borderColor: '#374151' } });
+
+        const last = comparison.points[comparison.points.length - 1];
+        setSpread({ linkId: comparing.id, value: last?.spread ?? null });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch comparison:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      // The series are gone if the chart was rebuilt for a new interval
+      if (chartRef.current !== chart) return;
+      if (linkedSeries) chart.removeSeries(linkedSeries);
+      if (spreadSeries) chart.removeSeries(spreadSeries);
+      chart.applyOptions({ leftPriceScale: { visible: false } });
+    };
+  }, [comparing, interval, reloadKey]);
+
+  const currentSpread = comparing && spread?.linkId === comparing.id ? spread.value : null;
+
+  // Load candles when market/interval changes (or a reorg invalidates them)
   useEffect(() => {
     if (!marketId || !seriesRef.current) return;
 
@@ -325,12 +429,18 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
           new Date(a.openTime).getTime() - new Date(b.openTime).getTime()
         );
         
-        const chartCandles = sortedCandles.map(toChartCandle);
-        
-        // Store candles for live updates
-        chartCandles.forEach((c) => {
+        // Bars streamed while loading are newer than the fetched ones
+        const liveCandles = new Map(candlesRef.current);
+        candlesRef.current.clear();
+        sortedCandles.map(toChartCandle).forEach((c) => {
           candlesRef.current.set(c.time as number, c);
         });
+        liveCandles.forEach((c, time) => {
+          candlesRef.current.set(time, c);
+        });
+        const chartCandles = Array.from(candlesRef.current.values()).sort(
+          (a, b) => (a.time as number) - (b.time as number)
+        );
 
         // Set candlestick data
         seriesRef.current.setData(chartCandles);
@@ -350,22 +460,46 @@ export function Chart({ exchange, marketId, interval }: ChartProps) {
         setError(err.message);
         setIsLoading(false);
       });
-  }, [exchange, marketId, interval]);
+  }, [exchange, marketId, interval, reloadKey]);
 
   return (
     <div className="chart-container">
       {/* Status bar */}
       <div className="chart-status">
-        <span className={`status-dot ${isConnected ? 'connected' : 'disconnected'}`} />
-        <span className="status-text">
-          {isConnected ? 'Live' : 'Connecting...'}
-        </span>
+        {status === 'closed' || status === 'resolved' ? (
+          <>
+            <span className="status-dot ended" />
+            <span className="status-text">
+              {status === 'resolved'
+                ? `Resolved${currentLifecycle?.result ? ` ${currentLifecycle.result.toUpperCase()}` : ''}${
+                    settlementPrice !== null ? ` @ $${parseFloat(settlementPrice).toFixed(2)}` : ''
+                  }`
+                : 'Closed'}
+            </span>
+          </>
+        ) : (
+          <>
+            <span className={`status-dot ${isConnected ? 'connected' : 'disconnected'}`} />
+            <span className="status-text">
+              {isConnected ? 'Live' : 'Connecting...'}
+            </span>
+          </>
+        )}
         {lastTrade && (
           <span className="last-trade">
             Last: ${parseFloat(lastTrade.price).toFixed(4)} ({lastTrade.side})
             <span className="trade-time">· {formatRelativeTime(lastTrade.timestamp)}</span>
           </span>
         )}
+        {comparing && (
+          <span className="compare-legend">
+            <span className="compare-swatch linked" />
+            {comparing.linkedTitle ?? comparing.linkedMarketId}
+            {comparing.inverted && ' (inverse)'}
+            <span className="compare-swatch spread" />
+            Spread{currentSpread !== null && ` ${parseFloat(currentSpread) >= 0 ? '+' : ''}${parseFloat(currentSpread).toFixed(4)}`}
+          </span>
+        )}
       </div>
 
       {/* OHLCV Legend - shows when hovering over candles */}
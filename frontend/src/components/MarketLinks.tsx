@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import type { Exchange, ExchangeInfo, MarketLink, MarketLinkSuggestion } from '../types';
+import {
+  createMarketLink,
+  deleteMarketLink,
+  fetchExchanges,
+  fetchLinkSuggestions,
+  fetchMarketLinks,
+  marketKey,
+} from '../services/api';
+
+interface MarketLinksProps {
+  exchange: Exchange;
+  marketId: string;
+  compareWith: MarketLink | null;
+  onCompareChange: (link: MarketLink | null) => void;
+}
+
+// Suggestions shown across all other exchanges
+const MAX_SUGGESTIONS = 5;
+
+function formatMarketId(marketId: string): string {
+  return marketId.length > 20 ? `${marketId.slice(0, 8)}...${marketId.slice(-6)}` : marketId;
+}
+
+/**
+ * Equivalent markets on other exchanges: pick one to overlay on the chart,
+ * link a suggested market, or link one by hand
+ */
+export function MarketLinks({ exchange, marketId, compareWith, onCompareChange }: MarketLinksProps) {
+  const [exchanges, setExchanges] = useState<ExchangeInfo[]>([]);
+  // Links and suggestions of the market they were fetched for
+  const [links, setLinks] = useState<{ key: string; data: MarketLink[] } | null>(null);
+  const [suggestions, setSuggestions] = useState<{ key: string; data: MarketLinkSuggestion[] } | null>(null);
+  const [version, setVersion] = useState(0); // Bumped to refetch after linking or unlinking
+  const [linkInput, setLinkInput] = useState('');
+  const [inverted, setInverted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const key = marketKey(exchange, marketId);
+
+  useEffect(() => {
+    fetchExchanges()
+      .then(setExchanges)
+      .catch((err) => {
+        console.error('Failed to fetch exchanges:', err);
+      });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMarketLinks(exchange, marketId)
+      .then((data) => {
+        if (!cancelled) setLinks({ key: marketKey(exchange, marketId), data });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch market links:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, marketId, version]);
+
+  // Replay sources feed other exchanges rather than listing markets of their own
+  const otherExchanges = exchanges.filter((e) => e.id !== exchange && !e.feeds).map((e) => e.id);
+  const otherExchangesKey = otherExchanges.join(',');
+
+  useEffect(() => {
+    if (!otherExchangesKey) return;
+
+    let cancelled = false;
+    Promise.all(otherExchangesKey.split(',').map((id) => fetchLinkSuggestions(exchange, marketId, id, MAX_SUGGESTIONS)))
+      .then((results) => {
+        if (cancelled) return;
+        const data = results
+          .flat()
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, MAX_SUGGESTIONS);
+        setSuggestions({ key: marketKey(exchange, marketId), data });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch link suggestions:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange, marketId, otherExchangesKey, version]);
+
+  const currentLinks = links?.key === key ? links.data : [];
+  const currentSuggestions = suggestions?.key === key ? suggestions.data : [];
+
+  const exchangeName = (id: Exchange) => exchanges.find((e) => e.id === id)?.name ?? id;
+
+  const link = (linkedExchange: Exchange, linkedMarketId: string, source: MarketLink['source'], linkedTitle: string | null) => {
+    setError(null);
+    createMarketLink({ exchange, marketId, linkedExchange, linkedMarketId, inverted, source })
+      .then((created) => {
+        setLinkInput('');
+        setVersion((v) => v + 1);
+        onCompareChange({ ...created, linkedTitle });
+      })
+      .catch((err) => {
+        setError(err.message);
+      });
+  };
+
+  const unlink = (target: MarketLink) => {
+    deleteMarketLink(target.id)
+      .then(() => {
+        if (compareWith?.id === target.id) onCompareChange(null);
+        setVersion((v) => v + 1);
+      })
+      .catch((err) => {
+        setError(err.message);
+      });
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const separator = linkInput.indexOf(':');
+    const linkedExchange = linkInput.slice(0, separator).trim();
+    const linkedMarketId = linkInput.slice(separator + 1).trim();
+    if (separator <= 0 || !linkedMarketId) {
+      setError('Enter the market as exchange:marketId');
+      return;
+    }
+    link(linkedExchange, linkedMarketId, 'manual', null);
+  };
+
+  return (
+    <div className="market-links">
+      <div className="sort-controls">
+        <span className="sort-label">Compare</span>
+        <button
+          className={`sort-btn ${!compareWith ? 'active' : ''}`}
+          onClick={() => onCompareChange(null)}
+        >
+          Off
+        </button>
+        {currentLinks.map((l) => (
+          <span key={l.id} className="market-link">
+            <button
+              className={`sort-btn ${compareWith?.id === l.id ? 'active' : ''}`}
+              onClick={() => onCompareChange(l)}
+              title={`${l.linkedExchange}:${l.linkedMarketId}`}
+            >
+              {exchangeName(l.linkedExchange)}: {l.linkedTitle ?? formatMarketId(l.linkedMarketId)}
+              {l.inverted && ' (inverse)'}
+            </button>
+            <button className="link-remove" onClick={() => unlink(l)} title="Remove link">
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {currentSuggestions.length > 0 && (
+        <div className="sort-controls">
+          <span className="sort-label">Suggested</span>
+          {currentSuggestions.map((s) => (
+            <button
+              key={marketKey(s.exchange, s.marketId)}
+              className="sort-btn"
+              onClick={() => link(s.exchange, s.marketId, 'suggested', s.title)}
+              title={`Link ${s.exchange}:${s.marketId} (${Math.round(s.similarity * 100)}% title match)`}
+            >
+              + {exchangeName(s.exchange)}: {s.title}
+              {s.subtitle && ` (${s.subtitle})`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form className="link-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="link-input"
+          placeholder="exchange:marketId"
+          value={linkInput}
+          onChange={(e) => setLinkInput(e.target.value)}
+        />
+        <label className="link-inverted" title="The markets pay out on opposite outcomes">
+          <input type="checkbox" checked={inverted} onChange={(e) => setInverted(e.target.checked)} />
+          Inverse
+        </label>
+        <button type="submit" className="sort-btn" disabled={!linkInput.trim()}>
+          Link
+        </button>
+        {error && <span className="link-error">{error}</span>}
+      </form>
+    </div>
+  );
+}
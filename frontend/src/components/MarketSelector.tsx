@@ -1,6 +1,44 @@
 import { useEffect, useState, useRef, useMemo } from 'react';
-import type { Exchange, Interval, Market, MarketSortBy } from '../types';
-import { fetchMarkets } from '../services/api';
+import type { Exchange, Interval, Market, MarketSearchResult, MarketSortBy, MarketStatus } from '../types';
+import { fetchExchanges, fetchMarkets, searchMarkets } from '../services/api';
+import { MarketSummaryBar } from './MarketSummaryBar';
+
+// Shown until the backend's exchange list has loaded
+const DEFAULT_EXCHANGES = [
+  { id: 'kalshi', name: 'Kalshi' },
+  { id: 'polymarket', name: 'Polymarket' },
+];
+
+// Status filter options; null lists markets in every state
+const STATUS_FILTERS: { value: MarketStatus | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'open', label: 'Open' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+// Typeahead: wait for a pause in typing before searching the backend catalog
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_SEARCH_LENGTH = 2;
+
+// Fields the dropdown needs, shared by listed markets and search results
+type ListedMarket = Pick<Market, 'marketId' | 'title' | 'outcomes' | 'status' | 'tradeCount' | 'tradesLast10Min'>;
+
+// Search results keep subtitle/outcome separate; fold them into the title like the market list does.
+// Questions with outcome tokens leave the outcome to the toggle
+function toListedMarket(result: MarketSearchResult): ListedMarket {
+  const detail = result.outcomes.length > 0 ? result.subtitle : result.subtitle || result.outcome;
+  return {
+    ...result,
+    marketId: result.outcomes[0]?.marketId ?? result.marketId,
+    title: result.title && detail ? `${result.title} (${detail})` : result.title,
+  };
+}
+
+// Whether marketId is the market itself or one of its outcome tokens
+function includesMarket(market: ListedMarket, marketId: string): boolean {
+  return market.marketId === marketId || market.outcomes.some((o) => o.marketId === marketId);
+}
 
 interface MarketSelectorProps {
   exchange: Exchange;
@@ -19,19 +57,38 @@ export function MarketSelector({
   onMarketChange,
   onIntervalChange,
 }: MarketSelectorProps) {
+  const [exchanges, setExchanges] = useState<{ id: Exchange; name: string }[]>(DEFAULT_EXCHANGES);
   const [markets, setMarkets] = useState<Market[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [sortBy, setSortBy] = useState<MarketSortBy>('tradesLast10Min');
+  const [statusFilter, setStatusFilter] = useState<MarketStatus | null>(null);
+  // Latest catalog search, tagged with the exchange and text it was made for
+  const [searchResults, setSearchResults] = useState<{ key: string; markets: ListedMarket[] } | null>(null);
+  // A search result picked from outside the loaded market list
+  const [pickedMarket, setPickedMarket] = useState<ListedMarket | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Fetch markets when exchange changes
+  // Fetch the exchange list once
+  useEffect(() => {
+    fetchExchanges()
+      .then((data) => {
+        // Sources such as replay have no markets of their own
+        const venues = data.filter((option) => !option.feeds);
+        if (venues.length > 0) setExchanges(venues);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch exchanges:', err);
+      });
+  }, []);
+
+  // Fetch markets when exchange or status filter changes
   useEffect(() => {
     setIsLoading(true);
     setSearchQuery('');
-    fetchMarkets(exchange)
+    fetchMarkets(exchange, statusFilter ?? undefined)
       .then((data) => {
         setMarkets(data);
         // Auto-select first market if none selected
@@ -44,7 +101,30 @@ export function MarketSelector({
         console.error('Failed to fetch markets:', err);
         setIsLoading(false);
       });
-  }, [exchange]);
+  }, [exchange, statusFilter]);
+
+  // Search the backend catalog as the user types, so markets beyond the loaded list can be found
+  const trimmedQuery = searchQuery.trim();
+  const searchKey = `${exchange}:${statusFilter ?? ''}:${trimmedQuery}`;
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      searchMarkets(trimmedQuery, exchange, 50, controller.signal, statusFilter ?? undefined)
+        .then((results) => {
+          setSearchResults({ key: searchKey, markets: results.map(toListedMarket) });
+        })
+        .catch((err) => {
+          if (err.name !== 'AbortError') console.error('Failed to search markets:', err);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [exchange, statusFilter, trimmedQuery, searchKey]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -59,7 +139,7 @@ export function MarketSelector({
   }, []);
 
   // Get display name for a market - prefer title over marketId
-  const getDisplayName = (market: Market): string => {
+  const getDisplayName = (market: ListedMarket): string => {
     // If title is available, use it
     if (market.title) {
       return market.title;
@@ -77,9 +157,19 @@ export function MarketSelector({
     return id;
   };
 
+  // Server results for the current text, once they have arrived
+  const serverResults =
+    trimmedQuery.length >= MIN_SEARCH_LENGTH && searchResults?.key === searchKey
+      ? searchResults.markets
+      : null;
+  const isSearching = trimmedQuery.length >= MIN_SEARCH_LENGTH && !serverResults;
+
   // Filter and sort markets
-  const filteredAndSortedMarkets = useMemo(() => {
-    // First filter
+  const filteredAndSortedMarkets = useMemo((): ListedMarket[] => {
+    // Catalog results are already ranked by relevance
+    if (serverResults) return serverResults;
+
+    // Until they arrive, filter the loaded list
     const filtered = markets.filter((m) => {
       const query = searchQuery.toLowerCase();
       const titleMatch = m.title?.toLowerCase().includes(query) || false;
@@ -105,16 +195,21 @@ export function MarketSelector({
     });
 
     return sorted;
-  }, [markets, searchQuery, sortBy]);
+  }, [markets, searchQuery, sortBy, serverResults]);
 
   // Get selected market display name
-  const selectedMarket = markets.find((m) => m.marketId === marketId);
+  const selectedMarket: ListedMarket | undefined =
+    markets.find((m) => includesMarket(m, marketId)) ??
+    (pickedMarket && includesMarket(pickedMarket, marketId) ? pickedMarket : undefined);
+  // Outcome tokens of the selected question, e.g. Yes/No or Up/Down
+  const selectedOutcomes = selectedMarket && selectedMarket.outcomes.length > 1 ? selectedMarket.outcomes : [];
   const displayValue = selectedMarket
     ? `${getDisplayName(selectedMarket)} (${selectedMarket.tradeCount} total, ${selectedMarket.tradesLast10Min} in last 10 min)`
     : '';
 
-  const handleSelectMarket = (id: string) => {
-    onMarketChange(id);
+  const handleSelectMarket = (market: ListedMarket) => {
+    setPickedMarket(market);
+    onMarketChange(market.marketId);
     setSearchQuery('');
     setIsDropdownOpen(false);
   };
@@ -135,24 +230,18 @@ export function MarketSelector({
       <div className="selector-group">
         <label>Exchange</label>
         <div className="toggle-group">
-          <button
-            className={`toggle-btn ${exchange === 'kalshi' ? 'active' : ''}`}
-            onClick={() => {
-              onExchangeChange('kalshi');
-              onMarketChange('');
-            }}
-          >
-            Kalshi
-          </button>
-          <button
-            className={`toggle-btn ${exchange === 'polymarket' ? 'active' : ''}`}
-            onClick={() => {
-              onExchangeChange('polymarket');
-              onMarketChange('');
-            }}
-          >
-            Polymarket
-          </button>
+          {exchanges.map((option) => (
+            <button
+              key={option.id}
+              className={`toggle-btn ${exchange === option.id ? 'active' : ''}`}
+              onClick={() => {
+                onExchangeChange(option.id);
+                onMarketChange('');
+              }}
+            >
+              {option.name}
+            </button>
+          ))}
         </div>
       </div>
 
@@ -188,6 +277,19 @@ export function MarketSelector({
             </div>
           )}
         </div>
+        <div className="sort-controls status-filter">
+          <span className="sort-label">Status:</span>
+          {STATUS_FILTERS.map((option) => (
+            <button
+              key={option.label}
+              className={`sort-btn ${statusFilter === option.value ? 'active' : ''}`}
+              onClick={() => setStatusFilter(option.value)}
+            >
+              {statusFilter === option.value ? '✓ ' : ''}
+              {option.label}
+            </button>
+          ))}
+        </div>
         <div className="searchable-dropdown" ref={dropdownRef}>
           <input
             ref={inputRef}
@@ -217,16 +319,23 @@ export function MarketSelector({
           {!isLoading && isDropdownOpen && markets.length > 0 && (
             <div className="dropdown-list">
               {filteredAndSortedMarkets.length === 0 ? (
-                <div className="dropdown-item no-results">No markets match "{searchQuery}"</div>
+                <div className="dropdown-item no-results">
+                  {isSearching ? 'Searching all markets...' : `No markets match "${searchQuery}"`}
+                </div>
               ) : (
                 filteredAndSortedMarkets.map((m) => (
                   <div
                     key={m.marketId}
-                    className={`dropdown-item ${m.marketId === marketId ? 'selected' : ''}`}
-                    onClick={() => handleSelectMarket(m.marketId)}
+                    className={`dropdown-item ${includesMarket(m, marketId) ? 'selected' : ''}`}
+                    onClick={() => handleSelectMarket(m)}
                   >
                     <div className="market-info">
-                      <span className="market-name">{getDisplayName(m)}</span>
+                      <span className="market-name">
+                        {getDisplayName(m)}
+                        {m.status && m.status !== 'open' && (
+                          <span className={`market-status ${m.status}`}>{m.status}</span>
+                        )}
+                      </span>
                       {/* Show marketId as subtitle if we have a title */}
                       {m.title && (
                         <span className="market-id-subtitle">{formatMarketId(m.marketId)}</span>
@@ -260,13 +369,27 @@ export function MarketSelector({
             </div>
           )}
         </div>
+        {selectedOutcomes.length > 0 && (
+          <div className="toggle-group outcome-toggle">
+            {selectedOutcomes.map((o) => (
+              <button
+                key={o.marketId}
+                className={`toggle-btn ${o.marketId === marketId ? 'active' : ''}`}
+                onClick={() => onMarketChange(o.marketId)}
+              >
+                {o.name ?? o.outcome ?? formatMarketId(o.marketId)}
+              </button>
+            ))}
+          </div>
+        )}
+        <MarketSummaryBar exchange={exchange} marketId={marketId} />
       </div>
 
       {/* Interval Selector */}
       <div className="selector-group">
         <label>Interval</label>
         <div className="toggle-group">
-          {(['1s', '1m', '1h'] as Interval[]).map((int) => (
+          {(['1s', '1m', '5m', '15m', '1h', '4h', '1d', '1w'] as Interval[]).map((int) => (
             <button
               key={int}
               className={`toggle-btn ${interval === int ? 'active' : ''}`}
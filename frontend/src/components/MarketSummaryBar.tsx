@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import type { Exchange, MarketSummary } from '../types';
+import { fetchMarketSummary } from '../services/api';
+
+interface MarketSummaryBarProps {
+  exchange: Exchange;
+  marketId: string;
+}
+
+// How often the summary is refreshed while a market is selected
+const REFRESH_MS = 30000;
+
+function formatVolume(volume: string): string {
+  const num = parseFloat(volume);
+  if (num >= 1_000_000) return `${(num / 1_000_000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+  return num.toFixed(0);
+}
+
+function formatChange(percent: number | null): string {
+  if (percent === null) return '—';
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+/**
+ * Last price and 24h context for the selected market
+ */
+export function MarketSummaryBar({ exchange, marketId }: MarketSummaryBarProps) {
+  const [summary, setSummary] = useState<MarketSummary | null>(null);
+
+  useEffect(() => {
+    if (!marketId) return;
+
+    let cancelled = false;
+    const load = () => {
+      fetchMarketSummary(exchange, marketId, ['1h', '24h', '7d'])
+        .then((data) => {
+          if (!cancelled) setSummary(data);
+        })
+        .catch((err) => {
+          console.error('Failed to fetch market summary:', err);
+        });
+    };
+
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [exchange, marketId]);
+
+  // Hide the previous market's summary until the new one loads
+  if (!summary || summary.exchange !== exchange || summary.marketId !== marketId || summary.lastPrice === null) {
+    return null;
+  }
+
+  const day = summary.windows['24h'];
+  const changeClass = (percent: number | null) =>
+    percent === null || percent === 0 ? '' : percent > 0 ? 'up' : 'down';
+
+  return (
+    <div className="market-summary">
+      <span className="summary-item">
+        <span className="summary-label">Last</span>
+        <span className="summary-value">${parseFloat(summary.lastPrice).toFixed(4)}</span>
+      </span>
+      {(['1h', '24h', '7d'] as const).map((window) => (
+        <span key={window} className="summary-item">
+          <span className="summary-label">{window}</span>
+          <span className={`summary-value ${changeClass(summary.windows[window]?.priceChangePercent ?? null)}`}>
+            {formatChange(summary.windows[window]?.priceChangePercent ?? null)}
+          </span>
+        </span>
+      ))}
+      {day && (
+        <>
+          <span className="summary-item">
+            <span className="summary-label">24h VWAP</span>
+            <span className="summary-value">{day.vwap ? `$${day.vwap}` : '—'}</span>
+          </span>
+          <span
+            className="summary-item"
+            title={`Buy ${formatVolume(day.buyVolume)} / Sell ${formatVolume(day.sellVolume)}`}
+          >
+            <span className="summary-label">24h Vol</span>
+            <span className="summary-value">{formatVolume(day.volume)}</span>
+          </span>
+          <span className="summary-item">
+            <span className="summary-label">24h Trades</span>
+            <span className="summary-value">{day.tradeCount}</span>
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -35,16 +35,24 @@ export function TradesTable({ exchange, marketId }: TradesTableProps) {
   // Handle new trades from WebSocket
   const handleTrade = (trade: Trade) => {
     setTrades((prev) => {
+      // Skip trades we already have (e.g. from the initial fetch)
+      if (prev.some((t) => t.id === trade.id)) return prev;
       // Add new trade at the beginning, keep max 50
       const updated = [trade, ...prev].slice(0, 50);
       return updated;
     });
   };
 
+  // Drop trades that were rolled back by a chain reorg
+  const handleTradeRemoved = (removed: Trade) => {
+    setTrades((prev) => prev.filter((t) => t.id !== removed.id));
+  };
+
   const { isConnected } = useWebSocket({
     exchange,
     marketId,
     onTrade: handleTrade,
+    onTradeRemoved: handleTradeRemoved,
   });
 
   // Load initial trades when market changes
@@ -127,12 +135,15 @@ export function TradesTable({ exchange, marketId }: TradesTableProps) {
               <tbody>
                 {trades.map((trade, index) => (
                   <tr
-                    key={`${trade.txHash || trade.timestamp}-${index}`}
+                    key={trade.id}
                     className={`trade-row ${trade.side} ${index === 0 ? 'newest' : ''}`}
                   >
                     <td className="time-col">{formatTime(trade.timestamp)}</td>
                     <td className={`side-col ${trade.side}`}>
-                      {trade.side === 'buy' ? '▲ BUY' : '▼ SELL'}
+                      {trade.side === 'buy' ? '▲' : '▼'}{' '}
+                      {trade.outcome && trade.takerSide
+                        ? `${trade.takerSide.toUpperCase()} ${trade.outcome.toUpperCase()}`
+                        : trade.side.toUpperCase()}
                     </td>
                     <td className="price-col">${parseFloat(trade.price).toFixed(4)}</td>
                     <td className="qty-col">{formatQuantity(trade.quantity)}</td>
@@ -1,13 +1,67 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { Exchange, Trade, WSMessage } from '../types';
+import type { Exchange, Interval, Trade, WSCandleMessage, WSCandlesRebuiltMessage, WSMessage } from '../types';
 
 // Use environment variable for production, fallback to localhost for development
 const WS_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:3000/ws';
+// Browsers can't set WebSocket headers, so the API key goes in the query string
+const API_KEY: string | undefined = import.meta.env.VITE_API_KEY;
 
 interface UseWebSocketOptions {
   exchange: Exchange;
   marketId: string;
+  // Also subscribe to the market's server-built bars of this interval
+  candleInterval?: Interval;
   onTrade?: (trade: Trade) => void;
+  onTradeRemoved?: (trade: Trade) => void;
+  onCandle?: (message: WSCandleMessage) => void;
+  // Called when the server has rebuilt the subscribed bars, so fetched ones may be stale
+  onCandlesRebuilt?: (message: WSCandlesRebuiltMessage) => void;
+  // Called when messages missed during a reconnect can't be replayed, so fetched data is stale
+  onResync?: () => void;
+}
+
+interface Subscription {
+  exchange: Exchange;
+  marketId: string;
+  candleInterval?: Interval;
+}
+
+// Snapshot and resume options of a subscribe request
+interface SubscribeExtras {
+  snapshot?: boolean;
+  since?: number;
+}
+
+// Subscribe or unsubscribe a market's trades, and its candles if an interval is set
+function sendSubscription(ws: WebSocket, action: 'subscribe' | 'unsubscribe', sub: Subscription, extras: SubscribeExtras = {}) {
+  ws.send(JSON.stringify({ action, exchange: sub.exchange, marketId: sub.marketId, ...extras }));
+  if (sub.candleInterval) {
+    ws.send(JSON.stringify({
+      action,
+      exchange: sub.exchange,
+      marketId: sub.marketId,
+      channel: 'candles',
+      interval: sub.candleInterval,
+      ...extras,
+    }));
+  }
+}
+
+// Market and sequence number of a message that carries one
+function getSequence(message: WSMessage): { exchange: string; marketId: string; seq: number } | null {
+  switch (message.type) {
+    case 'trade':
+    case 'trade_removed':
+    case 'candle':
+      return { exchange: message.data.exchange, marketId: message.data.marketId, seq: message.seq };
+    case 'candles_rebuilt':
+      return { exchange: message.exchange, marketId: message.marketId, seq: message.seq };
+    case 'subscribed':
+    case 'snapshot':
+      return message.seq !== undefined ? { exchange: message.exchange, marketId: message.marketId, seq: message.seq } : null;
+    default:
+      return null;
+  }
 }
 
 interface UseWebSocketReturn {
@@ -19,7 +73,12 @@ interface UseWebSocketReturn {
 export function useWebSocket({
   exchange,
   marketId,
+  candleInterval,
   onTrade,
+  onTradeRemoved,
+  onCandle,
+  onCandlesRebuilt,
+  onResync,
 }: UseWebSocketOptions): UseWebSocketReturn {
   const wsRef = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
@@ -27,20 +86,42 @@ export function useWebSocket({
   const [error, setError] = useState<string | null>(null);
   
   // Use refs to avoid stale closures
-  const currentSubscription = useRef({ exchange, marketId });
+  const currentSubscription = useRef<Subscription>({ exchange, marketId, candleInterval });
   // Track previous subscription for cleanup
-  const previousSubscription = useRef<{ exchange: Exchange; marketId: string } | null>(null);
+  const previousSubscription = useRef<Subscription | null>(null);
   const onTradeRef = useRef(onTrade);
+  const onTradeRemovedRef = useRef(onTradeRemoved);
+  const onCandleRef = useRef(onCandle);
+  const onCandlesRebuiltRef = useRef(onCandlesRebuilt);
+  const onResyncRef = useRef(onResync);
+  // Latest sequence number seen for the subscribed market, to resume from after a reconnect
+  const lastSeq = useRef<{ exchange: Exchange; marketId: string; seq: number } | null>(null);
 
-  // Keep onTrade ref up to date
+  // Keep callback refs up to date
   useEffect(() => {
     onTradeRef.current = onTrade;
   }, [onTrade]);
 
+  useEffect(() => {
+    onTradeRemovedRef.current = onTradeRemoved;
+  }, [onTradeRemoved]);
+
+  useEffect(() => {
+    onCandleRef.current = onCandle;
+  }, [onCandle]);
+
+  useEffect(() => {
+    onCandlesRebuiltRef.current = onCandlesRebuilt;
+  }, [onCandlesRebuilt]);
+
+  useEffect(() => {
+    onResyncRef.current = onResync;
+  }, [onResync]);
+
   // Update subscription ref
   useEffect(() => {
-    currentSubscription.current = { exchange, marketId };
-  }, [exchange, marketId]);
+    currentSubscription.current = { exchange, marketId, candleInterval };
+  }, [exchange, marketId, candleInterval]);
 
   const connect = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -48,7 +129,7 @@ export function useWebSocket({
     }
 
     console.log('[WebSocket] Connecting...');
-    const ws = new WebSocket(WS_URL);
+    const ws = new WebSocket(API_KEY ? `${WS_URL}?apiKey=${encodeURIComponent(API_KEY)}` : WS_URL);
     wsRef.current = ws;
 
     ws.onopen = () => {
@@ -56,33 +137,63 @@ export function useWebSocket({
       setIsConnected(true);
       setError(null);
       
-      // Subscribe to the market
-      const { exchange: ex, marketId: mId } = currentSubscription.current;
-      if (ex && mId) {
-        console.log(`[WebSocket] Subscribing to ${ex}:${mId}`);
-        ws.send(JSON.stringify({
-          action: 'subscribe',
-          exchange: ex,
-          marketId: mId,
-        }));
+      // Subscribe to the market, resuming from the last message seen if reconnecting to it
+      const sub = currentSubscription.current;
+      if (sub.exchange && sub.marketId) {
+        const resume = lastSeq.current;
+        const since = resume?.exchange === sub.exchange && resume.marketId === sub.marketId ? resume.seq : undefined;
+        console.log(`[WebSocket] Subscribing to ${sub.exchange}:${sub.marketId}${since !== undefined ? ` from seq ${since}` : ''}`);
+        sendSubscription(ws, 'subscribe', sub, { snapshot: true, since });
       }
     };
 
     ws.onmessage = (event) => {
       try {
         const message: WSMessage = JSON.parse(event.data);
+
+        // Track the subscribed market's latest sequence number
+        const sequence = getSequence(message);
+        const sub = currentSubscription.current;
+        if (sequence && sequence.exchange === sub.exchange && sequence.marketId === sub.marketId) {
+          const previous = lastSeq.current;
+          const isSameMarket = previous?.exchange === sub.exchange && previous.marketId === sub.marketId;
+          lastSeq.current = {
+            exchange: sub.exchange,
+            marketId: sub.marketId,
+            seq: isSameMarket ? Math.max(previous.seq, sequence.seq) : sequence.seq,
+          };
+        }
         
         if (message.type === 'trade') {
           console.log('[WebSocket] Trade received:', message.data.price);
           setLastTrade(message.data);
           // Use ref to get latest callback
           onTradeRef.current?.(message.data);
+        } else if (message.type === 'trade_removed') {
+          console.log('[WebSocket] Trade removed:', message.data.txHash);
+          onTradeRemovedRef.current?.(message.data);
+        } else if (message.type === 'candle') {
+          onCandleRef.current?.(message);
+        } else if (message.type === 'candles_rebuilt') {
+          onCandlesRebuiltRef.current?.(message);
+        } else if (message.type === 'snapshot') {
+          if (message.channel === 'trades') {
+            if (message.trades.length > 0) setLastTrade(message.trades[0]);
+          } else if (message.candle) {
+            // The latest bar is applied like a live update
+            onCandleRef.current?.({ type: 'candle', event: 'update', seq: message.seq, data: message.candle });
+          }
+        } else if (message.type === 'resync_required') {
+          console.log(`[WebSocket] Resync required for ${message.exchange}:${message.marketId}`);
+          // The server's sequence restarted or moved past its buffer; continue from where it is now
+          lastSeq.current = { exchange: message.exchange, marketId: message.marketId, seq: message.seq };
+          onResyncRef.current?.();
         } else if (message.type === 'error') {
           setError(message.message);
         } else if (message.type === 'subscribed') {
-          console.log(`[WebSocket] Subscribed to ${message.exchange}:${message.marketId}`);
+          console.log(`[WebSocket] Subscribed to ${message.exchange}:${message.marketId} ${message.interval ?? message.channel}`);
         } else if (message.type === 'unsubscribed') {
-          console.log(`[WebSocket] Unsubscribed from ${message.exchange}:${message.marketId}`);
+          console.log(`[WebSocket] Unsubscribed from ${message.exchange}:${message.marketId} ${message.interval ?? message.channel}`);
         }
       } catch (err) {
         console.error('[WebSocket] Failed to parse message:', err);
@@ -124,31 +235,25 @@ export function useWebSocket({
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       // Unsubscribe from previous market first (if different)
       const prev = previousSubscription.current;
-      if (prev && (prev.exchange !== exchange || prev.marketId !== marketId)) {
+      if (prev && (prev.exchange !== exchange || prev.marketId !== marketId || prev.candleInterval !== candleInterval)) {
         console.log(`[WebSocket] Unsubscribing from ${prev.exchange}:${prev.marketId}`);
-        wsRef.current.send(JSON.stringify({
-          action: 'unsubscribe',
-          exchange: prev.exchange,
-          marketId: prev.marketId,
-        }));
+        sendSubscription(wsRef.current, 'unsubscribe', prev);
         // Clear stale trade data when switching markets
-        setLastTrade(null);
+        if (prev.exchange !== exchange || prev.marketId !== marketId) {
+          setLastTrade(null);
+        }
       }
 
       // Subscribe to new market
       console.log(`[WebSocket] Subscribing to ${exchange}:${marketId}`);
-      wsRef.current.send(JSON.stringify({
-        action: 'subscribe',
-        exchange,
-        marketId,
-      }));
+      sendSubscription(wsRef.current, 'subscribe', { exchange, marketId, candleInterval }, { snapshot: true });
     } else {
       // Connect and subscribe
       connect();
     }
 
     // Track this subscription for future cleanup
-    previousSubscription.current = { exchange, marketId };
+    previousSubscription.current = { exchange, marketId, candleInterval };
 
     return () => {
       if (wsRef.current) {
@@ -156,7 +261,7 @@ export function useWebSocket({
         wsRef.current = null;
       }
     };
-  }, [exchange, marketId, connect]);
+  }, [exchange, marketId, candleInterval, connect]);
 
   return { isConnected, lastTrade, error };
 }
@@ -1,8 +1,68 @@
-import type { Candle, Trade, Market, Exchange, Interval } from '../types';
+import type { Candle, Comparison, Trade, Market, MarketLifecycle, MarketLink, MarketLinkSuggestion, MarketSearchResult, MarketSnapshot, MarketStatus, MarketStatusChange, MarketSummary, Exchange, ExchangeInfo, Interval, Page, PageDirection } from '../types';
 
 // Use environment variable for production, fallback to localhost for development
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
+// API key sent with every request, if the backend requires one. It ships in
+// the public bundle, so it should only carry the read and links scopes.
+const API_KEY: string | undefined = import.meta.env.VITE_API_KEY;
+
+/**
+ * fetch, with the API key header when one is configured
+ */
+function apiFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  if (!API_KEY) return fetch(url, init);
+
+  const headers = new Headers(init.headers);
+  headers.set('X-API-Key', API_KEY);
+  return fetch(url, { ...init, headers });
+}
+
+interface PageOptions {
+  limit?: number;
+  cursor?: string | null;
+}
+
+interface BatchOptions {
+  start?: string;
+  end?: string;
+  limit?: number;
+}
+
+interface IterateOptions {
+  limit?: number;
+  // Cursor to start from; the first page is fetched without one
+  cursor?: string | null;
+  // Which cursor to follow: 'next' is forward in time for candles and back in time for trades
+  direction?: PageDirection;
+}
+
+/**
+ * Fetch one page of candlestick data for a market, oldest first
+ */
+export async function fetchCandlesPage(
+  exchange: Exchange,
+  marketId: string,
+  interval: Interval,
+  { limit = 500, cursor }: PageOptions = {}
+): Promise<Page<Candle>> {
+  const params = new URLSearchParams({
+    exchange,
+    marketId,
+    interval,
+    limit: limit.toString(),
+  });
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await apiFetch(`${API_BASE_URL}/candles?${params}`);
+  
+  if (!response.ok) {
+    throw new Error(`Failed to fetch candles: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Fetch candlestick data for a market
  */
@@ -12,54 +72,122 @@ export async function fetchCandles(
   interval: Interval,
   limit: number = 500
 ): Promise<Candle[]> {
+  const page = await fetchCandlesPage(exchange, marketId, interval, { limit });
+  return page.data;
+}
+
+/**
+ * Walk candle pages until the cursor runs out
+ */
+export async function* iterateCandles(
+  exchange: Exchange,
+  marketId: string,
+  interval: Interval,
+  { limit, cursor, direction = 'next' }: IterateOptions = {}
+): AsyncGenerator<Candle[]> {
+  let nextCursor = cursor ?? null;
+  do {
+    const page = await fetchCandlesPage(exchange, marketId, interval, { limit, cursor: nextCursor });
+    if (page.data.length > 0) yield page.data;
+    nextCursor = direction === 'next' ? page.nextCursor : page.prevCursor;
+  } while (nextCursor);
+}
+
+/**
+ * Build the exchange:marketId key used by batch endpoints
+ */
+export function marketKey(exchange: Exchange, marketId: string): string {
+  return `${exchange}:${marketId}`;
+}
+
+/**
+ * Fetch candles for several markets in one request, keyed by marketKey()
+ */
+export async function fetchCandlesBatch(
+  markets: { exchange: Exchange; marketId: string }[],
+  interval: Interval,
+  { start, end, limit = 500 }: BatchOptions = {}
+): Promise<Record<string, Candle[]>> {
   const params = new URLSearchParams({
-    exchange,
-    marketId,
+    markets: markets.map((m) => marketKey(m.exchange, m.marketId)).join(','),
     interval,
     limit: limit.toString(),
   });
+  if (start) params.set('start', start);
+  if (end) params.set('end', end);
+
+  const response = await apiFetch(`${API_BASE_URL}/candles/batch?${params}`);
 
-  const response = await fetch(`${API_BASE_URL}/candles?${params}`);
-  
   if (!response.ok) {
     throw new Error(`Failed to fetch candles: ${response.statusText}`);
   }
 
-  const json: { data: Candle[] } = await response.json();
+  const json: { data: Record<string, Candle[]> } = await response.json();
   return json.data;
 }
 
 /**
- * Fetch trades for a market
+ * Fetch one page of trades for a market, newest first
  */
-export async function fetchTrades(
+export async function fetchTradesPage(
   exchange: Exchange,
   marketId: string,
-  limit: number = 100
-): Promise<Trade[]> {
+  { limit = 100, cursor }: PageOptions = {}
+): Promise<Page<Trade>> {
   const params = new URLSearchParams({
     exchange,
     marketId,
     limit: limit.toString(),
   });
+  if (cursor) params.set('cursor', cursor);
 
-  const response = await fetch(`${API_BASE_URL}/trades?${params}`);
+  const response = await apiFetch(`${API_BASE_URL}/trades?${params}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch trades: ${response.statusText}`);
   }
 
-  const json: { data: Trade[] } = await response.json();
-  return json.data;
+  return response.json();
+}
+
+/**
+ * Fetch trades for a market
+ */
+export async function fetchTrades(
+  exchange: Exchange,
+  marketId: string,
+  limit: number = 100
+): Promise<Trade[]> {
+  const page = await fetchTradesPage(exchange, marketId, { limit });
+  return page.data;
+}
+
+/**
+ * Walk trade pages until the cursor runs out
+ */
+export async function* iterateTrades(
+  exchange: Exchange,
+  marketId: string,
+  { limit, cursor, direction = 'next' }: IterateOptions = {}
+): AsyncGenerator<Trade[]> {
+  let nextCursor = cursor ?? null;
+  do {
+    const page = await fetchTradesPage(exchange, marketId, { limit, cursor: nextCursor });
+    if (page.data.length > 0) yield page.data;
+    nextCursor = direction === 'next' ? page.nextCursor : page.prevCursor;
+  } while (nextCursor);
 }
 
 /**
  * Fetch available markets for an exchange
  */
-export async function fetchMarkets(exchange?: Exchange): Promise<Market[]> {
-  const params = exchange ? new URLSearchParams({ exchange }) : '';
-  
-  const response = await fetch(`${API_BASE_URL}/trades/markets?${params}`);
+export async function fetchMarkets(exchange?: Exchange, status?: MarketStatus): Promise<Market[]> {
+  // One entry per question, with its outcome tokens listed
+  const params = new URLSearchParams({ groupBy: 'market' });
+  if (exchange) params.set('exchange', exchange);
+  if (status) params.set('status', status);
+
+  const response = await apiFetch(`${API_BASE_URL}/trades/markets?${params}`);
   
   if (!response.ok) {
     throw new Error(`Failed to fetch markets: ${response.statusText}`);
@@ -69,12 +197,201 @@ export async function fetchMarkets(exchange?: Exchange): Promise<Market[]> {
   return json.data;
 }
 
+/**
+ * Search the backend's market catalog, best matches first
+ */
+export async function searchMarkets(
+  query: string,
+  exchange?: Exchange,
+  limit: number = 20,
+  signal?: AbortSignal,
+  status?: MarketStatus
+): Promise<MarketSearchResult[]> {
+  const params = new URLSearchParams({ q: query, limit: limit.toString() });
+  if (exchange) params.set('exchange', exchange);
+  if (status) params.set('status', status);
+
+  const response = await apiFetch(`${API_BASE_URL}/markets/search?${params}`, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Failed to search markets: ${response.statusText}`);
+  }
+
+  const json: { data: MarketSearchResult[] } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch last price and 24h stats for several markets, keyed by marketKey()
+ */
+export async function fetchMarketSnapshots(
+  markets: { exchange: Exchange; marketId: string }[]
+): Promise<Record<string, MarketSnapshot>> {
+  const params = new URLSearchParams({
+    markets: markets.map((m) => marketKey(m.exchange, m.marketId)).join(','),
+  });
+
+  const response = await apiFetch(`${API_BASE_URL}/markets/snapshot?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch market snapshots: ${response.statusText}`);
+  }
+
+  const json: { data: Record<string, MarketSnapshot> } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch price, volume and trade stats for a market over trailing windows
+ */
+export async function fetchMarketSummary(
+  exchange: Exchange,
+  marketId: string,
+  windows: string[] = ['1h', '24h', '7d']
+): Promise<MarketSummary> {
+  const params = new URLSearchParams({ windows: windows.join(',') });
+
+  const response = await apiFetch(
+    `${API_BASE_URL}/markets/${encodeURIComponent(exchange)}/${encodeURIComponent(marketId)}/summary?${params}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch market summary: ${response.statusText}`);
+  }
+
+  const json: { data: MarketSummary } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch a market's status and resolution, with every recorded change oldest first
+ */
+export async function fetchMarketLifecycle(
+  exchange: Exchange,
+  marketId: string
+): Promise<MarketLifecycle & { history: MarketStatusChange[] }> {
+  const response = await apiFetch(
+    `${API_BASE_URL}/markets/${encodeURIComponent(exchange)}/${encodeURIComponent(marketId)}/lifecycle`
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch market lifecycle: ${response.statusText}`);
+  }
+
+  const json: { data: MarketLifecycle & { history: MarketStatusChange[] } } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch the markets on other exchanges linked to a market as equivalent
+ */
+export async function fetchMarketLinks(exchange: Exchange, marketId: string): Promise<MarketLink[]> {
+  const params = new URLSearchParams({ exchange, marketId });
+
+  const response = await apiFetch(`${API_BASE_URL}/links?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch market links: ${response.statusText}`);
+  }
+
+  const json: { data: MarketLink[] } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch markets on another exchange whose titles resemble a market's, best first
+ */
+export async function fetchLinkSuggestions(
+  exchange: Exchange,
+  marketId: string,
+  linkedExchange: Exchange,
+  limit: number = 5
+): Promise<MarketLinkSuggestion[]> {
+  const params = new URLSearchParams({ exchange, marketId, linkedExchange, limit: limit.toString() });
+
+  const response = await apiFetch(`${API_BASE_URL}/links/suggestions?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch link suggestions: ${response.statusText}`);
+  }
+
+  const json: { data: MarketLinkSuggestion[] } = await response.json();
+  return json.data;
+}
+
+/**
+ * Link two equivalent markets on different exchanges
+ */
+export async function createMarketLink(
+  link: Pick<MarketLink, 'exchange' | 'marketId' | 'linkedExchange' | 'linkedMarketId' | 'inverted' | 'source'>
+): Promise<MarketLink> {
+  const response = await apiFetch(`${API_BASE_URL}/links`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(link),
+  });
+
+  if (!response.ok) {
+    const json: { error?: string } = await response.json().catch(() => ({}));
+    throw new Error(json.error ?? `Failed to link markets: ${response.statusText}`);
+  }
+
+  const json: { data: Omit<MarketLink, 'linkedTitle'> } = await response.json();
+  return { ...json.data, linkedTitle: null };
+}
+
+/**
+ * Remove a market link
+ */
+export async function deleteMarketLink(id: number): Promise<void> {
+  const response = await apiFetch(`${API_BASE_URL}/links/${id}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    throw new Error(`Failed to remove market link: ${response.statusText}`);
+  }
+}
+
+/**
+ * Fetch aligned candles of a market and its linked market, with the spread between them
+ */
+export async function fetchComparison(link: MarketLink, interval: Interval, limit: number = 500): Promise<Comparison> {
+  const params = new URLSearchParams({
+    markets: [marketKey(link.exchange, link.marketId), marketKey(link.linkedExchange, link.linkedMarketId)].join(','),
+    inverted: String(link.inverted),
+    interval,
+    limit: limit.toString(),
+  });
+
+  const response = await apiFetch(`${API_BASE_URL}/compare?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch comparison: ${response.statusText}`);
+  }
+
+  const json: { data: Comparison } = await response.json();
+  return json.data;
+}
+
+/**
+ * Fetch the exchanges indexed by the backend
+ */
+export async function fetchExchanges(): Promise<ExchangeInfo[]> {
+  const response = await apiFetch(`${API_BASE_URL}/exchanges`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exchanges: ${response.statusText}`);
+  }
+
+  const json: { data: ExchangeInfo[] } = await response.json();
+  return json.data;
+}
+
 /**
  * Health check
  */
 export async function healthCheck(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/health`);
+    const response = await apiFetch(`${API_BASE_URL}/health`);
     return response.ok;
   } catch {
     return false;
@@ -1,7 +1,10 @@
 // API Types
-export type Exchange = 'polymarket' | 'kalshi';
-export type Interval = '1s' | '1m' | '1h';
+// Id of an exchange registered on the backend, e.g. 'kalshi' or 'polymarket'
+export type Exchange = string;
+export type Interval = '1s' | '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
 export type Side = 'buy' | 'sell';
+export type Outcome = 'yes' | 'no';
+export type MarketStatus = 'open' | 'closed' | 'resolved';
 
 export interface Candle {
   openTime: string;
@@ -20,31 +23,219 @@ export interface Trade {
   quantity: string;
   side: Side;
   timestamp: string;
+  outcome?: Outcome | null; // Outcome contract the taker traded, null if unknown
+  takerSide?: Side | null;
+  yesPrice?: string | null;
+  noPrice?: string | null;
   txHash: string | null;
+  maker?: string | null; // On-chain (Polymarket) trades only
+  taker?: string | null;
+  fee?: string | null;
+  blockNumber?: number | null;
+  finalized?: boolean; // false while an on-chain trade could still be reorged out
 }
 
-export interface Market {
-  exchange: Exchange;
+// One outcome token of a market; the first listed outcome is yes
+export interface MarketOutcome {
   marketId: string;
+  name: string | null; // e.g. 'Yes', 'Up'
+  outcome: Outcome | null;
+}
+
+// Where a market is in its lifecycle; null fields are not known yet
+export interface MarketLifecycle {
+  status: MarketStatus | null;
+  closeTime: string | null;
+  result: Outcome | null; // Winning side once resolved, null for split payouts
+  settlementPrice: string | null; // Final value of the market's contract, 0-1
+  resolvedAt: string | null;
+}
+
+// A recorded change of status or resolution, from GET /markets/:exchange/:marketId/lifecycle
+export interface MarketStatusChange {
+  status: MarketStatus | null;
+  result: Outcome | null;
+  settlementPrice: string | null;
+  changedAt: string;
+}
+
+// A question from GET /trades/markets?groupBy=market, with its outcome tokens merged
+export interface Market extends MarketLifecycle {
+  exchange: Exchange;
+  marketId: string; // The yes token for Polymarket questions
+  groupId: string | null; // Polymarket condition id, null for standalone markets
   title: string | null; // Human-readable title from exchange API, null if not available
+  event: { ticker: string; title: string | null } | null;
+  outcomes: MarketOutcome[]; // Empty when one id trades both sides (Kalshi)
   tradeCount: number;
   tradesLast10Min: number;
   firstTrade: string;
   lastTrade: string;
 }
 
+// Last price and trailing 24h stats, from GET /markets/snapshot
+export interface MarketSnapshot {
+  lastPrice: string | null; // null if the market has no trades
+  lastTradeAt: string | null;
+  change24h: string | null;
+  changePercent24h: number | null;
+  volume24h: string;
+  high24h: string | null;
+  low24h: string | null;
+}
+
+// Trading activity over a trailing window, from GET /markets/:exchange/:marketId/summary
+export interface MarketWindowStats {
+  openPrice: string | null;
+  priceChange: string | null;
+  priceChangePercent: number | null;
+  vwap: string | null;
+  high: string | null;
+  low: string | null;
+  volume: string;
+  buyVolume: string;
+  sellVolume: string;
+  tradeCount: number;
+  avgTradeSize: string | null;
+  largestTrade: Pick<Trade, 'id' | 'price' | 'quantity' | 'side' | 'timestamp'> | null;
+}
+
+export interface MarketSummary extends MarketLifecycle {
+  exchange: Exchange;
+  marketId: string;
+  lastPrice: string | null;
+  lastTradeAt: string | null;
+  windows: Record<string, MarketWindowStats>; // Keyed by window, e.g. '24h'
+}
+
+// A GET /markets/search hit: catalog metadata plus the same activity stats as Market
+export interface MarketSearchResult extends Omit<Market, 'event' | 'firstTrade' | 'lastTrade'> {
+  subtitle: string | null;
+  category: string | null;
+  eventTicker: string | null;
+  eventTitle: string | null;
+  outcome: string | null;
+  rank: number;
+  firstTrade: string | null;
+  lastTrade: string | null;
+}
+
+// Equivalent market on another exchange, from GET /links; exchange/marketId is the market it was looked up from
+export interface MarketLink {
+  id: number;
+  exchange: Exchange;
+  marketId: string;
+  linkedExchange: Exchange;
+  linkedMarketId: string;
+  linkedTitle: string | null;
+  inverted: boolean; // The markets pay out on opposite outcomes
+  source: 'manual' | 'suggested';
+  createdAt: string;
+}
+
+// A possibly equivalent market, from GET /links/suggestions
+export interface MarketLinkSuggestion {
+  exchange: Exchange;
+  marketId: string;
+  title: string;
+  subtitle: string | null;
+  outcome: string | null;
+  status: MarketStatus | null;
+  similarity: number; // Title similarity, 0-1
+}
+
+export type ComparisonCandle = Pick<Candle, 'open' | 'high' | 'low' | 'close' | 'volume'>;
+
+// Two markets' candles in one bucket, from GET /compare
+export interface ComparisonPoint {
+  openTime: string;
+  a: ComparisonCandle | null; // null if the leg did not trade in the bucket
+  b: ComparisonCandle | null; // Priced as 1 - price when the link is inverted
+  spread: string | null; // a's last close minus b's, null until both have traded
+}
+
+export interface Comparison {
+  link: number | null;
+  a: { exchange: Exchange; marketId: string; title: string | null };
+  b: { exchange: Exchange; marketId: string; title: string | null; inverted: boolean };
+  points: ComparisonPoint[];
+}
+
 export type MarketSortBy = 'tradesLast10Min' | 'tradeCount';
 
+export interface ExchangeInfo {
+  id: Exchange;
+  name: string;
+  feeds: Exchange[] | null; // Set for sources such as replay that drive other exchanges
+  paused: boolean;          // Stopped through the admin API
+  health: {
+    status: 'stopped' | 'connecting' | 'backfilling' | 'connected' | 'disconnected';
+    lastMessageAt: string | null;
+  };
+}
+
 // WebSocket Types
+// Broadcasts carry a sequence number that increases with every broadcast about their market
 export interface WSTradeMessage {
   type: 'trade';
+  seq: number;
+  data: Trade;
+}
+
+// Sent when a trade is rolled back, e.g. by a Polygon reorg
+export interface WSTradeRemovedMessage {
+  type: 'trade_removed';
+  seq: number;
   data: Trade;
 }
 
+export type WSCandle = Candle & { exchange: Exchange; marketId: string; interval: Interval };
+
+// A server-built bar of a candles channel subscription; 'close' carries its final state
+export interface WSCandleMessage {
+  type: 'candle';
+  event: 'update' | 'close';
+  seq: number;
+  data: WSCandle;
+}
+
+// The subscription's bars were rebuilt on the server, e.g. after a reorg;
+// bars from start to end (all of them if null) must be refetched
+export interface WSCandlesRebuiltMessage {
+  type: 'candles_rebuilt';
+  exchange: string;
+  marketId: string;
+  interval: Interval;
+  seq: number;
+  start: string | null;
+  end: string | null;
+}
+
 export interface WSSubscribedMessage {
   type: 'subscribed' | 'unsubscribed';
   exchange: string;
   marketId: string;
+  channel: 'trades' | 'candles';
+  interval?: Interval;
+  seq?: number;
+}
+
+// A subscription's starting state as of seq
+export type WSSnapshotMessage = {
+  type: 'snapshot';
+  exchange: string;
+  marketId: string;
+  seq: number;
+} & ({ channel: 'trades'; trades: Trade[] } | { channel: 'candles'; interval: Interval; candle: WSCandle | null });
+
+// The broadcasts missed since a reconnect are gone; the market's data must be refetched
+export interface WSResyncRequiredMessage {
+  type: 'resync_required';
+  exchange: string;
+  marketId: string;
+  channel: 'trades' | 'candles';
+  interval?: Interval;
+  seq: number;
 }
 
 export interface WSConnectedMessage {
@@ -57,10 +248,28 @@ export interface WSErrorMessage {
   message: string;
 }
 
-export type WSMessage = WSTradeMessage | WSSubscribedMessage | WSConnectedMessage | WSErrorMessage;
+export type WSMessage =
+  | WSTradeMessage
+  | WSTradeRemovedMessage
+  | WSCandleMessage
+  | WSCandlesRebuiltMessage
+  | WSSubscribedMessage
+  | WSSnapshotMessage
+  | WSResyncRequiredMessage
+  | WSConnectedMessage
+  | WSErrorMessage;
 
 // API Response Types
 export interface APIResponse<T> {
   data: T;
 }
 
+// Response of a cursor-paginated endpoint; a cursor is null when there is nothing more that way
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export type PageDirection = 'next' | 'prev';
+